@@ -21,6 +21,7 @@ async function runEsbuild() {
       'src/background/index.ts',
       'src/options/index.tsx',
       'src/popup/index.tsx',
+      'src/drafts-page/index.tsx',
       'src/content-script/index.ts',
     ],
     bundle: true,
@@ -80,6 +81,9 @@ async function build() {
     { src: 'build/popup/index.js', dst: 'popup.js' },
     { src: 'build/popup/index.css', dst: 'popup.css' },
     { src: 'src/popup/index.html', dst: 'popup.html' },
+    { src: 'build/drafts-page/index.js', dst: 'drafts.js' },
+    { src: 'build/drafts-page/index.css', dst: 'drafts.css' },
+    { src: 'src/drafts-page/index.html', dst: 'drafts.html' },
     { src: 'src/logo.png', dst: 'logo.png' },
     { src: 'src/_locales', dst: '_locales' },
   ]
@@ -0,0 +1,86 @@
+/**
+ * Event guests. The AI may only know a name ("Bob") or only an address, so
+ * both parts are optional; only guests with an email can be invited.
+ */
+
+export interface EventAttendee {
+  name?: string
+  email?: string
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/
+// "Bob Smith <bob@corp.com>" as pasted from mail clients
+const NAMED_EMAIL_PATTERN = /^\s*"?([^"<]*?)"?\s*<([^<>]+)>\s*$/
+
+export function isValidEmail(value: string | null | undefined): boolean {
+  return !!value && EMAIL_PATTERN.test(value.trim())
+}
+
+/**
+ * Parses one attendee from free text: an email, a name, or "Name <email>"
+ */
+export function parseAttendee(text: string): EventAttendee | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+
+  const named = trimmed.match(NAMED_EMAIL_PATTERN)
+  if (named && isValidEmail(named[2])) {
+    return named[1].trim()
+      ? { name: named[1].trim(), email: named[2].trim() }
+      : { email: named[2].trim() }
+  }
+
+  if (isValidEmail(trimmed)) return { email: trimmed }
+  // Looks like a mistyped address rather than a name
+  if (trimmed.includes('@')) return null
+  return { name: trimmed }
+}
+
+/**
+ * Validates attendees coming from the AI or from storage. Accepts strings or
+ * {name, email} objects and drops duplicates (same email, or same name when
+ * there is no email).
+ */
+export function normalizeAttendees(value: any): EventAttendee[] {
+  if (!Array.isArray(value)) return []
+
+  const attendees: EventAttendee[] = []
+  const seen = new Set<string>()
+
+  for (const item of value) {
+    let attendee: EventAttendee | null = null
+    if (typeof item === 'string') {
+      attendee = parseAttendee(item)
+    } else if (item && typeof item === 'object') {
+      const name = typeof item.name === 'string' ? item.name.trim() : ''
+      const email = typeof item.email === 'string' ? item.email.trim() : ''
+      attendee = isValidEmail(email) ? { email } : null
+      if (name) attendee = { name, ...attendee }
+    }
+    if (!attendee) continue
+
+    const key = (attendee.email || attendee.name || '').toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    attendees.push(attendee)
+  }
+
+  return attendees
+}
+
+/**
+ * Display text for an attendee, e.g. "Bob Smith <bob@corp.com>"
+ */
+export function formatAttendee(attendee: EventAttendee): string {
+  if (attendee.name && attendee.email) return `${attendee.name} <${attendee.email}>`
+  return attendee.email || attendee.name || ''
+}
+
+/**
+ * Email addresses of the attendees that can receive an invitation
+ */
+export function getAttendeeEmails(attendees: EventAttendee[] | null | undefined): string[] {
+  return (attendees || [])
+    .map((attendee) => attendee.email || '')
+    .filter((email) => isValidEmail(email))
+}
@@ -0,0 +1,82 @@
+import { EventAttendee, formatAttendee, normalizeAttendees } from '../attendees'
+import { EmailContext } from '../content-script/email-adapters'
+import { ExtractedEvent } from './event-schema'
+
+/**
+ * Uses the email a selection came from (see content-script/email-adapters):
+ * the sent date replaces today as the reference date and the people on the
+ * mail fill in attendee details the text leaves out.
+ */
+
+/**
+ * Day relative dates are resolved against: the sent date of the email when
+ * known, otherwise now
+ */
+export function getReferenceDate(context?: EmailContext | null): Date {
+  if (context?.sentAt) {
+    // Local "YYYY-MM-DDTHH:mm:ss" is parsed as local time
+    const sentAt = new Date(context.sentAt)
+    if (!isNaN(sentAt.getTime())) return sentAt
+  }
+  return new Date()
+}
+
+export function getEmailParticipants(context: EmailContext): EventAttendee[] {
+  return normalizeAttendees([context.sender, ...context.recipients].filter(Boolean))
+}
+
+/**
+ * Prompt lines describing the email, added to the prompt context
+ */
+export function buildEmailPromptContext(context: EmailContext): string {
+  const lines = [
+    context.sentAt
+      ? '- The text was selected in an email sent on the reference date; "today", "tomorrow" and weekdays are relative to that day, not to when it is read'
+      : '- The text was selected in an email',
+  ]
+  if (context.subject) lines.push(`- Email subject: ${context.subject}`)
+  if (context.sender) lines.push(`- Email sender: ${formatAttendee(context.sender)}`)
+  if (context.recipients.length > 0) {
+    lines.push(`- Email recipients: ${context.recipients.map(formatAttendee).join(', ')}`)
+  }
+  if (context.sentAt) lines.push(`- Email sent at: ${context.sentAt}`)
+  lines.push(
+    '- For meetings between the people on this email, list the sender and recipients as attendees with their email addresses',
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Completes attendees the model only named ("Bob") with the address of the
+ * matching participant of the email, by full or unique first name
+ */
+export function completeAttendeesFromEmail(
+  events: ExtractedEvent[],
+  context: EmailContext,
+): ExtractedEvent[] {
+  const participants = getEmailParticipants(context).filter(
+    (participant) => participant.name && participant.email,
+  )
+  if (participants.length === 0) return events
+
+  const findParticipant = (name: string) => {
+    const wanted = name.trim().toLowerCase()
+    const exact = participants.find((participant) => participant.name?.toLowerCase() === wanted)
+    if (exact) return exact
+    const byFirstName = participants.filter(
+      (participant) => participant.name?.toLowerCase().split(/\s+/)[0] === wanted,
+    )
+    return byFirstName.length === 1 ? byFirstName[0] : null
+  }
+
+  return events.map((eventData) => ({
+    ...eventData,
+    attendees: normalizeAttendees(
+      eventData.attendees.map((attendee) => {
+        if (attendee.email || !attendee.name) return attendee
+        const participant = findParticipant(attendee.name)
+        return participant ? { name: attendee.name, email: participant.email } : attendee
+      }),
+    ),
+  }))
+}
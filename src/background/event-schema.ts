@@ -0,0 +1,420 @@
+import { EventAttendee, normalizeAttendees } from '../attendees'
+import { CalendarEventData } from '../calendar-event'
+import { DateOrder } from '../config'
+import { EventRecurrence, normalizeRecurrence } from '../recurrence'
+import { NumericDateOrder, parseLocalDate } from '../temporal-context'
+import { formatDateTimeInZone, isValidTimeZone } from '../timezones'
+
+/**
+ * Parsing and validation of the AI output. Raw model text goes through
+ * parseExtractionOutput (code fences, JSON repair) and then
+ * validateExtractedEvents, which coerces each field and records what it
+ * could not trust in fieldErrors so the confirmation modal can flag it.
+ */
+
+export type ExtractedEventField =
+  | 'title'
+  | 'startDate'
+  | 'endDate'
+  | 'location'
+  | 'description'
+  | 'attendees'
+  | 'timeZone'
+  | 'recurrence'
+
+export type FieldErrors = Partial<Record<ExtractedEventField, string>>
+
+export interface ExtractedEvent extends CalendarEventData {
+  attendees: EventAttendee[]
+  timeZone: string | null
+  recurrence: EventRecurrence | null
+  originalText: string
+  fieldErrors: FieldErrors
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+/**
+ * Finds the JSON value in the model text: the text of a ```json fenced block
+ * when there is one, else the whole text, and where its first object or
+ * array starts. Null when there is none.
+ */
+export function locateJsonText(rawText: string): { text: string; startIndex: number } | null {
+  const fenced = rawText.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i)
+  const text = fenced && /[[{]/.test(fenced[1]) ? fenced[1] : rawText
+
+  const startIndex = text.search(/[[{]/)
+  return startIndex === -1 ? null : { text, startIndex }
+}
+
+/**
+ * Cuts the JSON value out of the model text (see locateJsonText), up to the
+ * bracket matching its first one. Output cut off by the token limit is closed
+ * so it can still be parsed.
+ */
+export function extractJsonText(rawText: string): string | null {
+  const located = locateJsonText(rawText)
+  if (!located) return null
+  const { text, startIndex } = located
+
+  const closers: string[] = []
+  let inString = false
+  for (let i = startIndex; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') inString = true
+    else if (char === '{') closers.push('}')
+    else if (char === '[') closers.push(']')
+    else if (char === '}' || char === ']') {
+      closers.pop()
+      if (closers.length === 0) return text.slice(startIndex, i + 1)
+    }
+  }
+
+  // Truncated output: close the open string and brackets
+  return text.slice(startIndex) + (inString ? '"' : '') + closers.reverse().join('')
+}
+
+/**
+ * Appends the characters of a string body as valid JSON string content
+ */
+function escapeStringBody(body: string, quote: string): string {
+  let result = ''
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === '\\' && i + 1 < body.length) {
+      const next = body[i + 1]
+      // \' is not a JSON escape; everything else is kept as written
+      result += next === "'" ? "'" : char + next
+      i++
+    } else if (char === '"' && quote !== '"') {
+      result += '\\"'
+    } else if (char === '\n') {
+      result += '\\n'
+    } else if (char === '\r') {
+      result += '\\r'
+    } else if (char === '\t') {
+      result += '\\t'
+    } else {
+      result += char
+    }
+  }
+  return result
+}
+
+const LITERALS: Record<string, string> = {
+  true: 'true',
+  false: 'false',
+  null: 'null',
+  True: 'true',
+  False: 'false',
+  None: 'null',
+  undefined: 'null',
+}
+
+/**
+ * Repairs common LLM JSON mistakes while leaving string contents alone:
+ * single-quoted strings, smart quotes, unquoted keys, Python literals,
+ * comments, raw newlines in strings and trailing commas. Apostrophes inside
+ * strings ("Mom's birthday") are never touched.
+ */
+export function repairJson(text: string): string {
+  let output = ''
+  let i = 0
+
+  const nextSignificantChar = (from: number) => {
+    const match = text.slice(from).match(/\S/)
+    return match ? match[0] : ''
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (char === '"' || char === '“' || char === '”') {
+      // Double-quoted (or smart-quoted) string: copy up to the closing quote
+      const closing = char === '“' ? '”' : '"'
+      let body = ''
+      i++
+      while (i < text.length && text[i] !== closing && !(closing === '”' && text[i] === '"')) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          body += text[i] + text[i + 1]
+          i += 2
+        } else {
+          body += text[i++]
+        }
+      }
+      output += `"${escapeStringBody(body, '"')}"`
+      i++
+    } else if (char === "'") {
+      // Single-quoted string: only a quote followed by , : } ] or the end
+      // closes it, so "'Mom's birthday'" keeps its apostrophe
+      let body = ''
+      i++
+      while (i < text.length) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          body += text[i] + text[i + 1]
+          i += 2
+          continue
+        }
+        if (text[i] === "'" && /^[,:}\]]?$/.test(nextSignificantChar(i + 1))) break
+        body += text[i++]
+      }
+      output += `"${escapeStringBody(body, "'")}"`
+      i++
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + 2
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = (text.slice(i).match(/^[\w$]+/) as RegExpMatchArray)[0]
+      i += word.length
+      if (nextSignificantChar(i) === ':') output += `"${word}"`
+      else output += LITERALS[word] ?? word
+    } else if (char === ',' && /^[}\]]$/.test(nextSignificantChar(i + 1))) {
+      i++
+    } else {
+      output += char
+      i++
+    }
+  }
+
+  return output
+}
+
+/**
+ * Parses the raw model output. Tries strict JSON first and the repaired text
+ * second; returns null when neither parses.
+ */
+export function parseExtractionOutput(rawText: string): unknown {
+  if (!rawText || typeof rawText !== 'string') return null
+
+  const jsonText = extractJsonText(rawText)
+  if (!jsonText) return null
+
+  try {
+    return JSON.parse(jsonText)
+  } catch (error) {
+    // Fall through to the repaired text
+  }
+
+  try {
+    return JSON.parse(repairJson(jsonText))
+  } catch (error) {
+    console.error('Failed to parse JSON after repair attempts:', error, rawText)
+    return null
+  }
+}
+
+const DATE_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/
+// Seconds and fractions are dropped. A "Z" or "+02:00" suffix makes it an
+// instant, which is converted to the event's zone (see coerceDate).
+const DATE_TIME_PATTERN =
+  /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+const UTC_OFFSET_PATTERN = /\d:\d{2}(?::\d{2})?(?:\.\d+)?\s*(?:Z|[+-]\d{2}:?\d{2})$/i
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+// Minutes east of UTC for "Z", "+0530" or "-08:00"
+function parseUtcOffset(offset: string): number {
+  if (offset.toUpperCase() === 'Z') return 0
+  const digits = offset.slice(1).replace(':', '')
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))
+  return offset.startsWith('-') ? -minutes : minutes
+}
+
+/**
+ * Whether the value is a date and time with a UTC offset, which is an
+ * instant rather than a wall-clock time
+ */
+export function hasUtcOffset(value: unknown): boolean {
+  return typeof value === 'string' && UTC_OFFSET_PATTERN.test(value.trim())
+}
+
+export interface CoerceDateOptions {
+  /** How numeric dates such as "03/04/2025" are read */
+  dateOrder?: NumericDateOrder
+  /** Zone the wall-clock time of a value with a UTC offset is given in */
+  timeZone?: string
+}
+
+/**
+ * Coerces a date value to "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm:ss". Times are
+ * wall-clock values (the zone goes into the timeZone field), so a value with
+ * a UTC offset is converted to options.timeZone. Formats the browser can
+ * parse ("Dec 5, 2024 3:00 PM") are converted but flagged.
+ */
+export function coerceDate(
+  value: unknown,
+  { dateOrder = DateOrder.MonthDay, timeZone = 'UTC' }: CoerceDateOptions = {},
+): { value: string; error?: string } {
+  if (value === null || value === undefined || value === '') return { value: '' }
+  if (typeof value !== 'string') return { value: '', error: `Expected a date, got ${typeof value}` }
+
+  const text = value.trim()
+  let match = text.match(DATE_PATTERN)
+  if (match) {
+    const [year, month, day] = match.slice(1).map(Number)
+    if (isValidDate(year, month, day)) return { value: `${year}-${pad(month)}-${pad(day)}` }
+    return { value: '', error: `"${text}" is not a valid date` }
+  }
+
+  match = text.match(DATE_TIME_PATTERN)
+  if (match) {
+    const [year, month, day, hours, minutes, seconds = 0] = match
+      .slice(1, 7)
+      .map((part) => Number(part || 0))
+    if (!isValidDate(year, month, day) || hours >= 24 || minutes >= 60 || seconds >= 60) {
+      return { value: '', error: `"${text}" is not a valid date and time` }
+    }
+    if (match[7]) {
+      const instant = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+      const offsetMs = parseUtcOffset(match[7]) * 60 * 1000
+      return { value: formatDateTimeInZone(new Date(instant - offsetMs), timeZone) }
+    }
+    return {
+      value: `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`,
+    }
+  }
+
+  const parsed = parseLocalDate(text, dateOrder)
+  if (parsed) {
+    const date = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`
+    const hasTime = /\d:\d|\b[ap]\.?m\b/i.test(text)
+    const coerced = hasTime
+      ? `${date}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}:00`
+      : date
+    return { value: coerced, error: `Converted from "${text}", please check` }
+  }
+
+  return { value: '', error: `Could not read "${text}" as a date` }
+}
+
+/**
+ * Coerces a text value; numbers are stringified and lists joined
+ */
+function coerceText(value: unknown): { value: string; error?: string } {
+  if (value === null || value === undefined) return { value: '' }
+  if (typeof value === 'string') return { value: value.trim() }
+  if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value) }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return { value: value.join(', ') }
+  }
+  return {
+    value: '',
+    error: `Expected text, got ${Array.isArray(value) ? 'a list' : typeof value}`,
+  }
+}
+
+function validateEvent(
+  candidate: Record<string, unknown>,
+  originalText: string,
+  dateOrder: NumericDateOrder,
+): ExtractedEvent {
+  const fieldErrors: FieldErrors = {}
+  const take = <T extends { value: unknown; error?: string }>(
+    field: ExtractedEventField,
+    result: T,
+  ) => {
+    if (result.error) fieldErrors[field] = result.error
+    return result.value as T['value']
+  }
+
+  let timeZone: string | null = null
+  if (isValidTimeZone(candidate.timeZone)) {
+    timeZone = candidate.timeZone
+  } else if (candidate.timeZone) {
+    fieldErrors.timeZone = `Unknown time zone "${String(candidate.timeZone)}"`
+  }
+  // Times given with a UTC offset and no zone are kept in UTC
+  if (!timeZone && [candidate.startDate, candidate.endDate].some(hasUtcOffset)) timeZone = 'UTC'
+
+  const dateOptions = { dateOrder, timeZone: timeZone ?? undefined }
+  const title = take('title', coerceText(candidate.title))
+  const startDate = take('startDate', coerceDate(candidate.startDate, dateOptions))
+  const endDate = take('endDate', coerceDate(candidate.endDate, dateOptions))
+  const location = take('location', coerceText(candidate.location))
+  const description = take('description', coerceText(candidate.description))
+
+  if (!title && !fieldErrors.title) fieldErrors.title = 'No title found'
+  if (!startDate && !fieldErrors.startDate) fieldErrors.startDate = 'No start date found'
+  if (startDate && endDate && !fieldErrors.endDate) {
+    const startsAllDay = !startDate.includes('T')
+    const endsAllDay = !endDate.includes('T')
+    if (startsAllDay === endsAllDay && endDate < startDate) {
+      fieldErrors.endDate = 'Ends before it starts'
+    }
+  }
+
+  const attendees = normalizeAttendees(candidate.attendees)
+  if (candidate.attendees != null && !Array.isArray(candidate.attendees)) {
+    fieldErrors.attendees = 'Could not read the guest list'
+  }
+
+  const recurrence = normalizeRecurrence(candidate.recurrence)
+  if (candidate.recurrence && !recurrence) {
+    fieldErrors.recurrence = 'Could not read the repeat rule'
+  }
+
+  return {
+    title,
+    startDate,
+    endDate,
+    location,
+    description,
+    attendees,
+    timeZone,
+    recurrence,
+    originalText,
+    fieldErrors,
+  }
+}
+
+/**
+ * The event objects in the parsed AI output. Accepts {"events": [...]}, a
+ * bare array, or a single event object (older prompt format).
+ */
+export function getEventCandidates(parsedOutput: unknown): Record<string, unknown>[] {
+  let candidates: unknown[] = []
+  if (Array.isArray(parsedOutput)) {
+    candidates = parsedOutput
+  } else if (parsedOutput && typeof parsedOutput === 'object') {
+    const events = (parsedOutput as { events?: unknown }).events
+    candidates = Array.isArray(events) ? events : [parsedOutput]
+  }
+
+  return candidates.filter(
+    (candidate): candidate is Record<string, unknown> =>
+      !!candidate && typeof candidate === 'object' && !Array.isArray(candidate),
+  )
+}
+
+/**
+ * Turns the parsed AI output into a list of validated events (see
+ * getEventCandidates), and drops entries without any meaningful data.
+ * Numeric dates the model did not convert are read in the given order.
+ */
+export function validateExtractedEvents(
+  parsedOutput: unknown,
+  originalText: string,
+  dateOrder: NumericDateOrder = DateOrder.MonthDay,
+): ExtractedEvent[] {
+  return getEventCandidates(parsedOutput)
+    .map((candidate) => validateEvent(candidate, originalText, dateOrder))
+    .filter((eventData) =>
+      [
+        eventData.title,
+        eventData.startDate,
+        eventData.endDate,
+        eventData.location,
+        eventData.description,
+      ].some((value) => value !== ''),
+    )
+}
@@ -0,0 +1,37 @@
+/**
+ * Extractions running per tab. Closing the modal, pressing Esc or leaving the
+ * page cancels the tab's extraction, which aborts its provider request; a new
+ * extraction in the same tab replaces the running one.
+ */
+
+export const EXTRACTION_CANCELLED_MESSAGE = 'Extraction cancelled'
+
+const runningExtractions = new Map<number, AbortController>()
+const cancelledExtractions = new WeakSet<AbortController>()
+
+export function startExtraction(tabId: number): AbortController {
+  cancelExtraction(tabId)
+  const controller = new AbortController()
+  runningExtractions.set(tabId, controller)
+  return controller
+}
+
+/** Aborts any request still running and forgets the extraction */
+export function finishExtraction(tabId: number, controller: AbortController) {
+  controller.abort()
+  if (runningExtractions.get(tabId) === controller) runningExtractions.delete(tabId)
+}
+
+export function cancelExtraction(tabId: number): boolean {
+  const controller = runningExtractions.get(tabId)
+  if (!controller) return false
+  cancelledExtractions.add(controller)
+  controller.abort()
+  runningExtractions.delete(tabId)
+  return true
+}
+
+/** Whether the user cancelled the extraction, as opposed to a timeout or fallback */
+export function wasCancelled(controller: AbortController): boolean {
+  return cancelledExtractions.has(controller)
+}
@@ -2,6 +2,22 @@ import { createParser } from 'eventsource-parser'
 import { isEmpty } from 'lodash-es'
 import { streamAsyncIterable } from './stream-async-iterable.js'
 
+/** Error for a failed response, with what is needed to decide on a retry */
+export interface ResponseError extends Error {
+  status: number
+  /** Wait the server asked for in Retry-After, if any */
+  retryAfterMs?: number
+}
+
+/** Reads Retry-After, given either in seconds or as an HTTP date */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (value.trim() !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
 export async function fetchSSE(
   resource: string,
   options: RequestInit & { onMessage: (message: string) => void },
@@ -10,15 +26,28 @@ export async function fetchSSE(
   const resp = await fetch(resource, fetchOptions)
   if (!resp.ok) {
     const error = await resp.json().catch(() => ({}))
-    throw new Error(!isEmpty(error) ? JSON.stringify(error) : `${resp.status} ${resp.statusText}`)
+    // OpenAI and Gemini both explain the failure in error.message
+    const message =
+      typeof error?.error?.message === 'string'
+        ? error.error.message
+        : !isEmpty(error)
+        ? JSON.stringify(error)
+        : `${resp.status} ${resp.statusText}`
+    throw Object.assign(new Error(message), {
+      status: resp.status,
+      retryAfterMs: parseRetryAfter(resp.headers.get('Retry-After')),
+    }) as ResponseError
   }
   const parser = createParser((event) => {
     if (event.type === 'event') {
       onMessage(event.data)
     }
   })
+  // One decoder for the whole stream, so characters split across chunks
+  // (accents, Chinese, Japanese, Korean) are put back together
+  const decoder = new TextDecoder()
   for await (const chunk of streamAsyncIterable(resp.body!)) {
-    const str = new TextDecoder().decode(chunk)
-    parser.feed(str)
+    parser.feed(decoder.decode(chunk, { stream: true }))
   }
+  parser.feed(decoder.decode())
 }
@@ -0,0 +1,112 @@
+import Browser from 'webextension-polyfill'
+import { InlineImage } from './types'
+
+/**
+ * Helpers for extracting events from an image (posters, flyers, screenshots):
+ * the image is fetched in the background and sent to the provider inline,
+ * next to the usual prompt. Only providers with vision support accept it.
+ * Access to the site of the image is asked for when the menu item is clicked.
+ */
+
+// Gemini accepts up to 20 MB per request, base64 adds a third
+export const MAX_IMAGE_BYTES = 14 * 1024 * 1024
+
+// Types Gemini reads; others are converted to PNG first
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif']
+
+export const IMAGE_PROMPT_NOTE = `The text to process is in the attached image (a poster, flyer, invitation or screenshot), not in the prompt.
+Read all text in the image first, then extract the events it announces.
+`
+
+// Stands in for ${text}, so custom templates still read naturally
+export const IMAGE_PROMPT_TEXT = '(see the attached image)'
+
+export function unsupportedImageError(providerName: string): Error {
+  return new Error(
+    `${providerName} cannot read images. Switch to Gemini in the extension options to add events from images.`,
+  )
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  // Chunked, since String.fromCharCode takes its bytes as arguments
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(index, index + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+async function convertToPng(blob: Blob): Promise<Blob> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null
+    context?.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    return await canvas.convertToBlob({ type: 'image/png' })
+  } catch (error) {
+    throw new Error(`This image format (${blob.type || 'unknown'}) cannot be read.`)
+  }
+}
+
+/**
+ * Host permission pattern for the site the image is on, or null for inline
+ * data: URLs, which need no access
+ */
+export function getImageOriginPattern(srcUrl: string): string | null {
+  try {
+    const url = new URL(srcUrl)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    return `${url.protocol}//${url.hostname}/*`
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Asks for access to the site of the image, without a prompt once granted.
+ * Must be called before the first await of the click handler: the browser
+ * only shows the prompt during the click.
+ */
+export function requestImageAccess(srcUrl: string): Promise<boolean> {
+  const pattern = getImageOriginPattern(srcUrl)
+  if (!pattern) return Promise.resolve(true)
+  return Browser.permissions.request({ origins: [pattern] }).catch(() => false)
+}
+
+/**
+ * Downloads the image of a context menu click (http(s) or data: URL) as
+ * base64 data for the provider
+ */
+export async function fetchImage(srcUrl: string): Promise<InlineImage> {
+  let blob: Blob
+  try {
+    const response = await fetch(srcUrl)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    blob = await response.blob()
+  } catch (error) {
+    throw new Error(`Could not download the image: ${(error as Error).message}`)
+  }
+
+  if (!blob.type.startsWith('image/')) {
+    throw new Error('The selected element is not an image that can be read.')
+  }
+  if (!SUPPORTED_IMAGE_TYPES.includes(blob.type)) {
+    blob = await convertToPng(blob)
+  }
+  if (blob.size > MAX_IMAGE_BYTES) {
+    throw new Error('The image is too large to send to the AI provider.')
+  }
+
+  return { mimeType: blob.type, data: toBase64(await blob.arrayBuffer()) }
+}
+
+/**
+ * What events from an image point back to: its address, unless it is an
+ * inline data: URL
+ */
+export function describeImageSource(srcUrl: string, pageUrl?: string): string {
+  if (!srcUrl.startsWith('data:')) return `Image: ${srcUrl}`
+  return pageUrl ? `Image on ${pageUrl}` : 'Image'
+}
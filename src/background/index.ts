@@ -1,18 +1,63 @@
 import Browser, { Menus, Tabs } from 'webextension-polyfill'
-import { getProvider, getProviderConfigs, getKeyConfigInfo, ProviderType } from '../config'
+import { buildFileDataUrl, getCalendarTarget } from '../calendar-targets'
+import {
+  CalendarTargetType,
+  getActivePromptTemplate,
+  getKeyConfigInfo,
+  getProvider,
+  getProviderConfigs,
+  getUserConfig,
+  ProviderType,
+} from '../config'
+import { EmailContext } from '../content-script/email-adapters'
+import { PageContent } from '../content-script/page-content'
+import { getCorrectionReferenceDate, getCorrections, selectRelevantCorrections } from '../corrections'
+import { ExtractionDraft, getDrafts, getLastDraft, onDraftsChanged } from '../drafts'
+import { addToHistory, getHistoryPageUrl, HistorySource } from '../history'
 import { logger, ErrorTracker, setupGlobalErrorHandling } from '../logging'
 import { checkFirstTimeUse } from '../onboarding'
-
-// AI extraction timeout configuration
-const AI_EXTRACTION_TIMEOUT_MS = 5000 // 5 seconds (less than 6 second requirement)
-
-// Timeout wrapper for AI provider calls
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
+import { buildTemporalContext, NumericDateOrder, TemporalContext } from '../temporal-context'
+import { completeAttendeesFromEmail, getReferenceDate } from './email-context'
+import { ExtractedEvent, parseExtractionOutput, validateExtractedEvents } from './event-schema'
+import {
+  cancelExtraction,
+  EXTRACTION_CANCELLED_MESSAGE,
+  finishExtraction,
+  startExtraction,
+  wasCancelled,
+} from './extraction-control'
+import { describeImageSource, fetchImage, IMAGE_PROMPT_NOTE, IMAGE_PROMPT_TEXT, requestImageAccess } from './image-extraction'
+import { parseEventText } from './local-parser'
+import { describeQuickAddSuggestion, OMNIBOX_HINT } from './omnibox'
+import { buildPageExcerpt, chunkPageText, mergePageEvents, PAGE_PROMPT_NOTE } from './page-extraction'
+import { parsePartialEvents } from './partial-output'
+import { buildPrompt, PromptOptions } from './prompt'
+import { InlineImage, Provider } from './types'
+
+// AI extraction timing: after the notice delay the modal offers to keep
+// waiting or cancel; only requests still running at the timeout fail
+const AI_SLOW_NOTICE_MS = 5000
+const AI_EXTRACTION_TIMEOUT_MS = 120000
+// Quick add has no modal to wait in, so the local parser answers sooner
+const QUICK_ADD_TIMEOUT_MS = 5000
+// Page chunks are much longer than selections
+const PAGE_EXTRACTION_TIMEOUT_MS = 30000
+// Images are uploaded and read before the model answers
+const IMAGE_EXTRACTION_TIMEOUT_MS = 30000
+
+// Timeout wrapper for AI provider calls; also settles as soon as the
+// extraction is cancelled, without waiting for the request to wind down
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string, signal?: AbortSignal): Promise<T> {
   return new Promise((resolve, reject) => {
     const timeoutId = setTimeout(() => {
       reject(new Error(timeoutMessage))
     }, timeoutMs)
 
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId)
+      reject(new Error(EXTRACTION_CANCELLED_MESSAGE))
+    }, { once: true })
+
     promise
       .then((result) => {
         clearTimeout(timeoutId)
@@ -33,6 +78,15 @@ Browser.runtime.onStartup.addListener(async () => {
   await checkFirstTimeUse()
 })
 
+// The toolbar badge counts the drafts waiting to be added (listed in the popup)
+function updateDraftBadge(drafts: ExtractionDraft[]) {
+  Browser.action.setBadgeText({ text: drafts.length > 0 ? String(drafts.length) : '' })
+  Browser.action.setBadgeBackgroundColor({ color: '#2563eb' })
+}
+
+getDrafts().then(updateDraftBadge)
+onDraftsChanged(updateDraftBadge)
+
 Browser.runtime.onInstalled.addListener(async (details) => {
   // Always recreate context menu on install/update
   await createContextMenu()
@@ -57,14 +111,22 @@ const contextMenuProperties: Menus.CreateCreatePropertiesType = {
   contexts: ['page', 'selection'], // Contexts where the menu will appear
 }
 
+// Posters, flyers and screenshots, read by providers with vision support
+const imageContextMenuProperties: Menus.CreateCreatePropertiesType = {
+  id: 'add-to-calendar-from-image',
+  title: 'Add to calendar from image',
+  contexts: ['image'],
+}
+
 // Create the context menu item with error handling
 async function createContextMenu() {
   try {
     // Remove existing menu item if it exists
     await Browser.contextMenus.removeAll()
 
-    // Create the new menu item
+    // Create the new menu items
     await Browser.contextMenus.create(contextMenuProperties)
+    await Browser.contextMenus.create(imageContextMenuProperties)
     logger.info('background', 'Context menu created successfully')
   } catch (error) {
     logger.error('background', 'Failed to create context menu', undefined, error as Error)
@@ -104,56 +166,19 @@ async function openNewWindow(url: string) {
   }
 }
 
-// In your JavaScript code, get the current date formatted as YYYY-MM-DD
-const currentDate = new Date().toISOString().split('T')[0]; // e.g., "2024-07-26"
-
-// Enhanced prompt template with better examples and structure
-const promptTemplate = `
-Extract event details from the following text and provide the output in a structured JSON format.
-
-**Context:**
-- Reference Date: ${currentDate} (use this as "today" for interpreting relative dates)
-- Current Year: ${new Date().getFullYear()} (use for dates without specified year)
-
-**Required Output Format:**
-Return ONLY a JSON object with these exact keys: "title", "startDate", "endDate", "location", "description"
-- Use null for missing values (not empty strings)
-- Do not include any text before or after the JSON object
-
-**Date/Time Format Rules:**
-- Specific times: "YYYY-MM-DDTHH:mm:ss" (no timezone suffixes)
-- All-day events: "YYYY-MM-DD"
-- If start time exists but no end time: add 1 hour to start time
-- If only start date exists: use same date for end date
-- For relative dates (tomorrow, next week, etc.): calculate based on reference date
-- For dates without year: use current year or next occurrence if date has passed
-
-**Examples:**
-
-Input: "Team meeting Thursday 3 PM Zoom"
-Output: {"title": "Team meeting", "startDate": "2024-12-05T15:00:00", "endDate": "2024-12-05T16:00:00", "location": "Zoom", "description": null}
-
-Input: "Project deadline: EOD Friday"
-Output: {"title": "Project deadline", "startDate": "2024-12-06T17:00:00", "endDate": "2024-12-06T17:00:00", "location": null, "description": "Project deadline: EOD Friday"}
-
-Input: "Doctor appointment tomorrow at 2:30 PM at Main Street Clinic"
-Output: {"title": "Doctor appointment", "startDate": "2024-12-03T14:30:00", "endDate": "2024-12-03T15:30:00", "location": "Main Street Clinic", "description": null}
-
-Input: "Christmas Day"
-Output: {"title": "Christmas Day", "startDate": "2024-12-25", "endDate": "2024-12-25", "location": null, "description": null}
-
-Input: "Conference call with client about Q4 results on Dec 15 from 10 AM to 11:30 AM"
-Output: {"title": "Conference call with client about Q4 results", "startDate": "2024-12-15T10:00:00", "endDate": "2024-12-15T11:30:00", "location": null, "description": "Conference call with client about Q4 results"}
-
-Input: "random text with no event information"
-Output: {}
-
-**Text to process:**
-\${text}
-`
+// Date conventions for one request, read from the current settings
+async function getTemporalContext(referenceDate: Date): Promise<TemporalContext> {
+  const config = await getUserConfig()
+  return buildTemporalContext(referenceDate, config)
+}
 
+// Prompt settings from the options page: the active template and the output language
+async function getPromptSettings(): Promise<PromptOptions> {
+  const [config, template] = await Promise.all([getUserConfig(), getActivePromptTemplate()])
+  return { template, language: config.language, translate: config.translateEventText }
+}
 
-async function extractDate(info: string, tabId: number | undefined) {
+async function extractDate(info: string, tabId: number | undefined, emailContext: EmailContext | null = null) {
   const startTime = Date.now()
 
   if (!tabId) {
@@ -164,12 +189,28 @@ async function extractDate(info: string, tabId: number | undefined) {
   logger.info('background', 'Starting event extraction', {
     textLength: info.length,
     tabId,
-    selectedText: info.substring(0, 100) + (info.length > 100 ? '...' : '')
+    selectedText: info.substring(0, 100) + (info.length > 100 ? '...' : ''),
+    emailSource: emailContext?.source,
+    emailSentAt: emailContext?.sentAt
   })
 
+  const referenceDate = getReferenceDate(emailContext)
+  const temporalContext = await getTemporalContext(referenceDate)
   let resultAccumulator = ''
   let processingError: Error | null = null
   let modalShown = false
+  // The local parser is part of the chain: it has already answered or
+  // failed when the chain reports an error, so it is no fallback
+  let localParserInChain = false
+  // Set once the local parser has answered instead of the AI provider, so
+  // late provider events are ignored
+  let usedLocalFallback = false
+  // Last partial result sent while the answer streams in, to skip repeats
+  let lastPartialEvents = ''
+
+  // Aborted when the user closes the modal, on timeout and once finished
+  const abortController = startExtraction(tabId)
+  let slowNoticeTimer: ReturnType<typeof setTimeout> | undefined
 
   try {
     // Show confirmation modal with loading state
@@ -204,94 +245,106 @@ async function extractDate(info: string, tabId: number | undefined) {
 
     // --- Core Processing Logic ---
     const provider = await getProvider()
-    const fullPrompt = promptTemplate.replace('${text}', info)
-
-    // Create AbortController for timeout handling
-    const abortController = new AbortController()
-
-    // Get provider details for logging
-    const providerName = provider.constructor.name
-    const isGeminiProvider = providerName === 'GeminiProvider'
-    const isOpenAIProvider = providerName === 'OpenAIProvider'
+    const providerChain = provider.chain.map((entry) => entry.type)
+    // Another provider of the chain once the selected one has failed
+    let answeringProvider = providerChain[0]
+    localParserInChain = providerChain.includes(ProviderType.LOCAL)
+    const corrections = selectRelevantCorrections(await getCorrections(), info)
+    const fullPrompt = buildPrompt(info, temporalContext, { ...(await getPromptSettings()), emailContext, corrections })
 
     logger.info('background', 'AI Provider selected and initialized', {
-      providerType: providerName,
-      isGemini: isGeminiProvider,
-      isOpenAI: isOpenAIProvider,
+      providerType: providerChain[0],
+      providerChain,
       selectedText: info.substring(0, 100) + (info.length > 100 ? '...' : ''),
-      promptLength: fullPrompt.length
+      promptLength: fullPrompt.length,
+      temporalContext
     })
 
     logger.debug('background', 'Starting AI processing', {
       promptLength: fullPrompt.length,
-      provider: providerName,
+      providerChain,
       textToProcess: info
     })
 
+    // Slow answers get a "still working" notice with keep waiting / cancel,
+    // unless streamed fields already show progress
+    slowNoticeTimer = setTimeout(() => {
+      if (lastPartialEvents || abortController.signal.aborted) return
+      Browser.tabs.sendMessage(tabId, { action: 'showExtractionSlow' }).catch((error: any) => {
+        logger.debug('background', 'Could not send slow extraction notice', { tabId, error: error.message })
+      })
+    }, AI_SLOW_NOTICE_MS)
+
     // Wrap AI provider call with timeout
     await withTimeout(
       provider.generateAnswer({
         prompt: fullPrompt,
+        text: info,
+        referenceDate,
+        dateOrder: temporalContext.dateOrder,
         signal: abortController.signal,
         onEvent: async (event) => {
         logger.debug('background', 'Provider Event received', { eventType: event.type })
 
+        if (usedLocalFallback) {
+          logger.debug('background', 'Ignoring provider event after local fallback', { eventType: event.type })
+          return
+        }
+        if (wasCancelled(abortController)) {
+          logger.debug('background', 'Ignoring provider event after cancellation', { eventType: event.type })
+          return
+        }
+
         if (event.type === 'answer') {
           resultAccumulator = event.data.text
+          answeringProvider = event.provider ?? answeringProvider
+
+          // Show the fields read so far; the message only goes out when a new
+          // field is complete, not for every streamed token. The local parser
+          // answers all at once.
+          const partial =
+            modalShown && answeringProvider !== ProviderType.LOCAL ? parsePartialEvents(resultAccumulator, info, temporalContext.dateOrder) : null
+          const serialized = partial ? JSON.stringify(partial) : ''
+          if (partial && serialized !== lastPartialEvents) {
+            lastPartialEvents = serialized
+            Browser.tabs.sendMessage(tabId, { action: 'showPartialEvents', ...partial }).catch((error: any) => {
+              logger.debug('background', 'Could not send partial events', { tabId, error: error.message })
+            })
+          }
         } else if (event.type === 'done') {
+          answeringProvider = event.provider ?? answeringProvider
           // --- Process Result ---
           logger.info('background', 'Raw AI Output received', {
             outputLength: resultAccumulator.length,
             output: resultAccumulator.substring(0, 200) + (resultAccumulator.length > 200 ? '...' : '')
           })
 
-          let jsonObject = extractAndParseJSONFromString(resultAccumulator)
-          logger.info('background', 'Parsed JSON Object', { jsonObject })
+          const parsedOutput = parseExtractionOutput(resultAccumulator)
+          logger.info('background', 'Parsed JSON Object', { jsonObject: parsedOutput })
 
           // Handle cases where AI returns empty or invalid JSON
-          if (!jsonObject || typeof jsonObject !== 'object') {
-            logger.warn('background', 'AI returned invalid JSON, creating empty event template', {
+          if (!parsedOutput || typeof parsedOutput !== 'object') {
+            logger.warn('background', 'AI returned invalid JSON, no events extracted', {
               rawOutput: resultAccumulator,
-              parsedObject: jsonObject
+              parsedObject: parsedOutput
             })
-            // Create empty template for user to fill in
-            jsonObject = {
-              title: '',
-              startDate: '',
-              endDate: '',
-              location: '',
-              description: ''
-            }
           }
 
-          // Ensure all required fields exist (even if empty)
-          jsonObject = {
-            title: jsonObject.title || '',
-            startDate: jsonObject.startDate || '',
-            endDate: jsonObject.endDate || '',
-            location: jsonObject.location || '',
-            description: jsonObject.description || '',
-            originalText: info
-          }
+          // Coerce every field, flag the ones that could not be trusted and drop entries without any data
+          let events = validateExtractedEvents(parsedOutput, info, temporalContext.dateOrder)
+          if (emailContext) events = completeAttendeesFromEmail(events, emailContext)
 
           logger.info('background', 'Event data prepared for confirmation', {
-            extractedFields: Object.keys(jsonObject).filter(key => jsonObject[key] && key !== 'originalText'),
-            emptyFields: Object.keys(jsonObject).filter(key => !jsonObject[key] && key !== 'originalText')
+            eventCount: events.length,
+            extractedFields: events.map(eventData => (Object.keys(eventData) as (keyof ExtractedEvent)[]).filter(key => eventData[key] && key !== 'originalText')),
+            fieldErrors: events.map(eventData => eventData.fieldErrors)
           })
 
           // Check if AI extraction completely failed (no meaningful data extracted)
-          const hasTitle = !!(jsonObject.title && jsonObject.title.trim())
-          const hasStartDate = !!(jsonObject.startDate && jsonObject.startDate.trim())
-          const hasEndDate = !!(jsonObject.endDate && jsonObject.endDate.trim())
-          const hasLocation = !!(jsonObject.location && jsonObject.location.trim())
-          const hasDescription = !!(jsonObject.description && jsonObject.description.trim())
-
-          const extractionFailed = !hasTitle && !hasStartDate && !hasEndDate && !hasLocation && !hasDescription
-
-          if (extractionFailed) {
+          if (events.length === 0) {
             logger.warn('background', 'AI extraction completely failed - no valid event data found', {
               originalText: info,
-              extractedData: jsonObject
+              extractedData: parsedOutput
             })
 
             // Send error message to content script instead of confirmation
@@ -314,34 +367,35 @@ async function extractDate(info: string, tabId: number | undefined) {
             return
           }
 
-          // Use the prepared event data (already includes all fields)
-          const eventData = jsonObject
-
           // Send event data to content script for confirmation
           if (modalShown) {
-            logger.debug('background', 'Sending event confirmation to content script', { tabId, eventData })
+            logger.debug('background', 'Sending event confirmation to content script', { tabId, events })
             Browser.tabs.sendMessage(tabId, {
               action: 'showEventConfirmation',
-              eventData: eventData
+              events: events,
+              referenceDate: getCorrectionReferenceDate(answeringProvider, temporalContext.date),
+              provider: answeringProvider
             }).then(() => {
               logger.info('background', 'Event confirmation sent to content script successfully', {
                 tabId,
-                eventTitle: eventData.title,
-                eventStartDate: eventData.startDate
+                eventCount: events.length,
+                eventTitle: events[0].title,
+                eventStartDate: events[0].startDate
               })
 
               // Track successful extraction
               const processingTime = Date.now() - startTime
               ErrorTracker.trackPerformance('background', 'event_extraction', processingTime, {
                 textLength: info.length,
-                hasTitle: !!jsonObject.title,
-                hasStartDate: !!jsonObject.startDate,
-                hasLocation: !!jsonObject.location
+                eventCount: events.length,
+                hasTitle: !!events[0].title,
+                hasStartDate: !!events[0].startDate,
+                hasLocation: !!events[0].location
               })
             }).catch(async (error: any) => {
               logger.error('background', 'Failed to send event confirmation to content script', {
                 tabId,
-                eventData,
+                events,
                 errorName: error.name,
                 errorMessage: error.message
               }, error)
@@ -350,18 +404,22 @@ async function extractDate(info: string, tabId: number | undefined) {
               logger.info('background', 'Falling back to direct calendar opening')
               await showNotification(
                 'Event Extracted',
-                `Opening Google Calendar with event: ${eventData.title}`
+                `Opening your calendar with ${describeEvents(events)}`
               )
-              handleOpenCalendar(eventData)
+              for (const eventData of events) {
+                await handleOpenCalendar(eventData)
+              }
             })
           } else {
             // Modal couldn't be shown, open calendar directly as fallback
             logger.info('background', 'Modal not available, opening calendar directly as fallback')
             await showNotification(
               'Event Extracted',
-              `Modal unavailable. Opening Google Calendar directly with event: ${eventData.title}`
+              `Modal unavailable. Opening your calendar directly with ${describeEvents(events)}`
             )
-            handleOpenCalendar(eventData)
+            for (const eventData of events) {
+              await handleOpenCalendar(eventData)
+            }
           }
         } else if (event.type === 'error') {
           logger.error('background', 'Provider reported an error', { error: event.data.error })
@@ -396,14 +454,30 @@ async function extractDate(info: string, tabId: number | undefined) {
             errMsg = error
           }
 
+          // Parsing locally is synchronous, so the decision is made before
+          // generateAnswer resolves and the finally block runs
+          const fallbackEvents = localParserInChain ? [] : parseEventsLocally(info, temporalContext.dateOrder, referenceDate)
+          if (modalShown && fallbackEvents.length > 0) {
+            usedLocalFallback = true
+            sendLocalFallbackEvents(tabId, fallbackEvents, errMsg)
+            return
+          }
+
           processingError = new Error(errMsg)
         }
       }, // End onEvent
     }), // End generateAnswer call
     AI_EXTRACTION_TIMEOUT_MS,
-    `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`
+    `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`,
+    abortController.signal
   ) // End withTimeout wrapper
   } catch (error: any) {
+    // The user closed the modal: nothing to show, and no fallback
+    if (wasCancelled(abortController)) {
+      logger.info('background', 'Extraction cancelled by the user', { tabId, elapsedMs: Date.now() - startTime })
+      return
+    }
+
     // Catch errors from getProvider, timeout, or synchronous parts before/after generateAnswer
     console.error(
       `[${new Date().toLocaleTimeString()}] Error during processing setup or unexpected failure:`,
@@ -412,6 +486,14 @@ async function extractDate(info: string, tabId: number | undefined) {
 
     const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.'
 
+    // Timeouts, network failures and bad keys: try the local parser first
+    const fallbackEvents = localParserInChain ? [] : parseEventsLocally(info, temporalContext.dateOrder, referenceDate)
+    if (modalShown && fallbackEvents.length > 0) {
+      usedLocalFallback = true
+      await sendLocalFallbackEvents(tabId, fallbackEvents, errorMessage)
+      return
+    }
+
     // Check if this is a timeout error
     if (errorMessage.includes('timed out')) {
       logger.warn('background', 'AI extraction timed out', {
@@ -449,6 +531,9 @@ async function extractDate(info: string, tabId: number | undefined) {
     processingError = error instanceof Error ? error : new Error('An unexpected error occurred.')
   } finally {
     // --- Centralized Cleanup Logic ---
+    clearTimeout(slowNoticeTimer)
+    finishExtraction(tabId, abortController)
+
     if (modalShown) {
       if (processingError) {
         // --- FAILURE PATH: Show Error in Modal ---
@@ -484,9 +569,9 @@ async function extractDate(info: string, tabId: number | undefined) {
 } // End extractDate
 
 // Make sure the required utility functions and listener setups are present
-// (contextMenus.onClicked listener, openNewWindow, formatDateTimeForGoogle,
-// calculateNextDay, extractAndParseJSONFromString, onStartup, onInstalled)
-// Remember to define promptTemplate correctly!
+// (contextMenus.onClicked listener, openNewWindow, parseExtractionOutput,
+// onStartup, onInstalled). Calendar URLs are built in ../calendar-targets,
+// the prompt in ./prompt.
 
 // Function to ensure content script is injected
 async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
@@ -527,8 +612,21 @@ async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
   }
 }
 
+// Closing the tab or loading another page ends its extraction; the content
+// script also cancels on pagehide, but its message may not get out in time
+Browser.tabs.onRemoved.addListener((tabId) => {
+  cancelExtraction(tabId)
+})
+
+Browser.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status === 'loading' && changeInfo.url) cancelExtraction(tabId)
+})
+
 // Add an event listener for when the menu item is clicked
 Browser.contextMenus.onClicked.addListener(async (info, tab: Tabs.Tab) => {
+  // Asked for first: the permission prompt is only shown during the click
+  const imageAccess =
+    info.menuItemId === imageContextMenuProperties.id && info.srcUrl ? requestImageAccess(info.srcUrl) : null
   const sText = info.selectionText || ''
 
   if (!tab.id) {
@@ -538,18 +636,419 @@ Browser.contextMenus.onClicked.addListener(async (info, tab: Tabs.Tab) => {
   }
 
   // Ensure content script is available before processing
-  const contentScriptAvailable = await ensureContentScriptInjected(tab.id)
+  if (!(await prepareContentScript(tab.id))) return
+
+  if (info.menuItemId === imageContextMenuProperties.id && info.srcUrl) {
+    if (imageAccess && !(await imageAccess)) {
+      logger.info('background', 'Access to the image site was not granted', { srcUrl: info.srcUrl })
+      await showNotification(
+        'Image Not Read',
+        'Reading this image needs access to the site it is on. Allow it when asked to add events from images.'
+      )
+      return
+    }
+    extractFromImage(info.srcUrl, tab.id, info.pageUrl)
+    return
+  }
+
+  if (!sText.trim() && info.menuItemId === contextMenuProperties.id) {
+    findEventsOnPage(tab.id)
+    return
+  }
+
+  extractDate(sText, tab.id, await getEmailContext(tab.id))
+})
+
+// Keyboard commands (manifest "commands"), the same actions without the menu
+Browser.commands.onCommand.addListener(async (command, tab?: Tabs.Tab) => {
+  logger.info('background', 'Keyboard command received', { command })
+  const tabId = tab?.id ?? (await Browser.tabs.query({ active: true, currentWindow: true }))[0]?.id
+  if (!tabId) {
+    await showNotification('Error', 'Cannot process request: No valid tab ID')
+    return
+  }
+  if (!(await prepareContentScript(tabId))) return
+
+  if (command === 'extract-selection') {
+    const selectionText = await getSelectionText(tabId)
+    if (!selectionText.trim()) {
+      await showNotification('Nothing Selected', 'Select the event text first, or use the page shortcut.')
+      return
+    }
+    extractDate(selectionText, tabId, await getEmailContext(tabId))
+  } else if (command === 'extract-page') {
+    findEventsOnPage(tabId)
+  } else if (command === 'reopen-last-draft') {
+    const draft = await getLastDraft()
+    if (!draft) {
+      await showNotification('No Draft', 'There are no extracted events waiting to be added.')
+      return
+    }
+    // Drafts saved without the extracted events cannot tell edits from AI output
+    await Browser.tabs.sendMessage(tabId, {
+      action: 'showEventConfirmation',
+      events: draft.events,
+      extractedEvents: draft.extractedEvents,
+      notice: draft.notice,
+      referenceDate: draft.extractedEvents ? draft.referenceDate : undefined,
+      provider: draft.provider,
+      draftId: draft.id
+    })
+  } else {
+    logger.warn('background', 'Unknown keyboard command', { command })
+  }
+})
+
+// Address bar keyword ("cal lunch with Dana friday 12:30"): the suggestion
+// previews the local parser's reading, Enter runs the provider and opens the
+// calendar target directly, as there is no page to show a modal on
+Browser.omnibox.setDefaultSuggestion({ description: OMNIBOX_HINT })
+
+Browser.omnibox.onInputChanged.addListener(async (text) => {
+  const { dateOrder } = await getTemporalContext(new Date())
+  const events = text.trim() ? parseEventsLocally(text, dateOrder) : []
+  Browser.omnibox.setDefaultSuggestion({ description: describeQuickAddSuggestion(events) })
+})
+
+Browser.omnibox.onInputEntered.addListener(quickAdd)
+
+// Typed text (omnibox, popup): no page to confirm on, so the events open directly
+async function quickAdd(text: string) {
+  if (!text.trim()) return
+  const { events, provider } = await quickAddEvents(text)
+  if (events.length === 0) {
+    await showNotification('No Event Found', `Could not find an event in "${text}".`)
+    return
+  }
+  for (const eventData of events) {
+    await handleOpenCalendar(eventData, undefined, { provider })
+  }
+}
+
+// The extractDate pipeline without a tab: provider first, then the local parser
+async function quickAddEvents(text: string): Promise<{ events: ExtractedEvent[]; provider: ProviderType }> {
+  const abortController = new AbortController()
+  const temporalContext = await getTemporalContext(new Date())
+  try {
+    const provider = await getProvider()
+    const corrections = selectRelevantCorrections(await getCorrections(), text)
+    const prompt = buildPrompt(text, temporalContext, { ...(await getPromptSettings()), corrections })
+    const { answer, provider: answeredBy } = await withTimeout(
+      requestAnswer(provider, prompt, text, temporalContext.dateOrder, abortController.signal),
+      QUICK_ADD_TIMEOUT_MS,
+      `AI extraction timed out after ${QUICK_ADD_TIMEOUT_MS / 1000} seconds`
+    )
+    const events = validateExtractedEvents(parseExtractionOutput(answer), text, temporalContext.dateOrder)
+    if (events.length > 0) return { events, provider: answeredBy ?? provider.chain[0].type }
+  } catch (error: any) {
+    abortController.abort()
+    logger.warn('background', 'Quick add extraction failed, using local parser', { error: error.message })
+  }
+  return { events: parseEventsLocally(text, temporalContext.dateOrder), provider: ProviderType.LOCAL }
+}
+
+// Makes sure the tab can show the modal; tells the user when it cannot
+async function prepareContentScript(tabId: number): Promise<boolean> {
+  const contentScriptAvailable = await ensureContentScriptInjected(tabId)
   if (!contentScriptAvailable) {
-    logger.error('background', 'Content script not available and injection failed', { tabId: tab.id })
+    logger.error('background', 'Content script not available and injection failed', { tabId })
     await showNotification(
       'Extension Error',
       'Cannot inject content script. Please refresh the page and try again.'
     )
+  }
+  return contentScriptAvailable
+}
+
+// Extraction without a selection: event data the page already embeds (JSON-LD,
+// microdata, hCalendar) skips the AI entirely, otherwise the page text is read
+async function findEventsOnPage(tabId: number) {
+  const structuredEvents = await getStructuredEvents(tabId)
+  if (structuredEvents.length > 0) {
+    await showStructuredEvents(tabId, structuredEvents)
     return
   }
+  extractFromPage(tabId)
+}
 
-  extractDate(sText, tab.id)
-})
+// The text selected in the tab, which the browser only hands to context menus
+async function getSelectionText(tabId: number): Promise<string> {
+  try {
+    const response = await Browser.tabs.sendMessage(tabId, { action: 'getSelectionText' })
+    return response?.text ?? ''
+  } catch (error: any) {
+    logger.warn('background', 'Could not read selection from page', { tabId, error: error.message })
+    return ''
+  }
+}
+
+// Subject, people and sent date of the email the selection is in (web mail only)
+async function getEmailContext(tabId: number): Promise<EmailContext | null> {
+  try {
+    const response = await Browser.tabs.sendMessage(tabId, { action: 'getEmailContext' })
+    return response?.context ?? null
+  } catch (error: any) {
+    logger.warn('background', 'Could not read email context from page', { tabId, error: error.message })
+    return null
+  }
+}
+
+// Events described by schema.org / hCalendar markup on the page
+async function getStructuredEvents(tabId: number): Promise<ExtractedEvent[]> {
+  try {
+    const response = await Browser.tabs.sendMessage(tabId, { action: 'getStructuredEvents' })
+    return validateExtractedEvents(Array.isArray(response?.events) ? response.events : [], '')
+  } catch (error: any) {
+    logger.warn('background', 'Could not read structured events from page', { tabId, error: error.message })
+    return []
+  }
+}
+
+async function showStructuredEvents(tabId: number, events: ExtractedEvent[]) {
+  logger.info('background', 'Using structured event data from page', { tabId, eventCount: events.length })
+  try {
+    await Browser.tabs.sendMessage(tabId, {
+      action: 'showEventConfirmation',
+      events,
+      notice: 'Found on this page as structured event data.',
+      provider: 'structured-data'
+    })
+  } catch (error: any) {
+    logger.error('background', 'Failed to send structured events to content script', { tabId, error: error.message }, error)
+    await showNotification('Event Found', `Opening your calendar with ${describeEvents(events)}`)
+    for (const eventData of events) {
+      await handleOpenCalendar(eventData)
+    }
+  }
+}
+
+// Runs one provider request and resolves with the final answer text and the
+// provider of the chain that answered
+function requestAnswer(
+  provider: Provider,
+  prompt: string,
+  text: string,
+  dateOrder: NumericDateOrder,
+  signal: AbortSignal,
+  image?: InlineImage
+): Promise<{ answer: string; provider?: ProviderType }> {
+  return new Promise((resolve, reject) => {
+    let answer = ''
+    provider.generateAnswer({
+      prompt,
+      text,
+      dateOrder,
+      signal,
+      image,
+      onEvent: (event) => {
+        if (event.type === 'answer') {
+          answer = event.data.text
+        } else if (event.type === 'done') {
+          resolve({ answer, provider: event.provider })
+        } else if (event.type === 'error') {
+          const error = event.data.error
+          reject(error instanceof Error ? error : new Error(String(error)))
+        }
+      },
+    }).catch(reject)
+  })
+}
+
+// Extraction without a selection: collects the readable content of the page
+// and asks the provider for candidate events, one chunk at a time
+async function extractFromPage(tabId: number) {
+  const startTime = Date.now()
+
+  let page: PageContent | null = null
+  try {
+    page = await Browser.tabs.sendMessage(tabId, { action: 'getPageContent' })
+  } catch (error: any) {
+    logger.warn('background', 'Could not read page content', { tabId, error: error.message })
+  }
+  if (!page || !page.text.trim()) {
+    await showNotification('Nothing to Extract', 'Could not read this page. Select the event text and try again.')
+    return
+  }
+
+  try {
+    await Browser.tabs.sendMessage(tabId, { action: 'showModal' })
+  } catch (error: any) {
+    logger.error('background', `Could not send showModal message to tab ${tabId}`, { tabId, errorMessage: error.message }, error)
+    await showNotification(
+      'Extension Error',
+      'Cannot display confirmation modal. Please refresh the page and try again.'
+    )
+    return
+  }
+
+  const chunks = chunkPageText(page.text)
+  // Events from a page link back to it instead of carrying the whole page text
+  const originalText = [page.title, page.url].filter(Boolean).join('\n')
+  logger.info('background', 'Starting page extraction', {
+    tabId,
+    url: page.url,
+    textLength: page.text.length,
+    chunkCount: chunks.length
+  })
+
+  const eventLists: ExtractedEvent[][] = []
+  let lastError: Error | null = null
+  // Provider of the chain that read the first chunk
+  let answeredBy: ProviderType | undefined
+  // One extraction for all chunks, so closing the modal stops the rest too
+  const extraction = startExtraction(tabId)
+  try {
+    const provider = await getProvider()
+    const temporalContext = await getTemporalContext(new Date())
+    const promptSettings = await getPromptSettings()
+    for (let index = 0; index < chunks.length && !wasCancelled(extraction); index++) {
+      const excerpt = buildPageExcerpt(page, chunks[index], index, chunks.length)
+      // Per chunk, so a timed out chunk does not stop the next ones
+      const abortController = new AbortController()
+      const abortChunk = () => abortController.abort()
+      extraction.signal.addEventListener('abort', abortChunk)
+      try {
+        const { answer, provider: chunkProvider } = await withTimeout(
+          requestAnswer(provider, PAGE_PROMPT_NOTE + buildPrompt(excerpt, temporalContext, promptSettings), excerpt, temporalContext.dateOrder, abortController.signal),
+          PAGE_EXTRACTION_TIMEOUT_MS,
+          `AI extraction timed out after ${PAGE_EXTRACTION_TIMEOUT_MS / 1000} seconds`,
+          extraction.signal
+        )
+        eventLists.push(validateExtractedEvents(parseExtractionOutput(answer), originalText, temporalContext.dateOrder))
+        answeredBy = answeredBy ?? chunkProvider
+      } catch (error: any) {
+        // Keep going: the other chunks may still hold the event
+        abortController.abort()
+        lastError = error instanceof Error ? error : new Error(String(error))
+        logger.warn('background', 'Page chunk extraction failed', { tabId, chunk: index, error: lastError.message })
+      } finally {
+        extraction.signal.removeEventListener('abort', abortChunk)
+      }
+    }
+  } catch (error: any) {
+    lastError = error instanceof Error ? error : new Error('An unexpected error occurred.')
+  } finally {
+    finishExtraction(tabId, extraction)
+  }
+
+  if (wasCancelled(extraction)) {
+    logger.info('background', 'Page extraction cancelled by the user', { tabId })
+    return
+  }
+
+  const events = mergePageEvents(eventLists)
+  logger.info('background', 'Page extraction finished', {
+    tabId,
+    eventCount: events.length,
+    failedChunks: chunks.length - eventLists.length
+  })
+
+  try {
+    if (events.length > 0) {
+      await Browser.tabs.sendMessage(tabId, {
+        action: 'showEventConfirmation',
+        events,
+        notice: eventLists.length < chunks.length
+          ? 'Parts of this page could not be read, so some events may be missing.'
+          : undefined,
+        provider: answeredBy ?? (await getProviderConfigs()).provider
+      })
+      ErrorTracker.trackPerformance('background', 'page_extraction', Date.now() - startTime, {
+        textLength: page.text.length,
+        chunkCount: chunks.length,
+        eventCount: events.length
+      })
+    } else if (lastError && eventLists.length === 0) {
+      await Browser.tabs.sendMessage(tabId, { action: 'showError', message: lastError.message })
+    } else {
+      await Browser.tabs.sendMessage(tabId, { action: 'showExtractionError', originalText })
+    }
+  } catch (error: any) {
+    logger.error('background', 'Failed to send page extraction result to content script', { tabId, error: error.message }, error)
+    if (events.length > 0) {
+      await showNotification('Event Extracted', `Opening your calendar with ${describeEvents(events)}`)
+      for (const eventData of events) {
+        await handleOpenCalendar(eventData)
+      }
+    }
+  }
+}
+
+// Extraction from an image: downloads it and sends it to the provider with
+// the prompt. Providers without vision support answer with an error.
+async function extractFromImage(srcUrl: string, tabId: number, pageUrl?: string) {
+  const startTime = Date.now()
+
+  try {
+    await Browser.tabs.sendMessage(tabId, { action: 'showModal' })
+  } catch (error: any) {
+    logger.error('background', `Could not send showModal message to tab ${tabId}`, { tabId, errorMessage: error.message }, error)
+    await showNotification(
+      'Extension Error',
+      'Cannot display confirmation modal. Please refresh the page and try again.'
+    )
+    return
+  }
+
+  const originalText = describeImageSource(srcUrl, pageUrl)
+  logger.info('background', 'Starting image extraction', { tabId, source: originalText.slice(0, 200) })
+
+  let events: ExtractedEvent[] = []
+  let answeredBy: ProviderType | undefined
+  const abortController = startExtraction(tabId)
+  try {
+    const image = await fetchImage(srcUrl)
+    const provider = await getProvider()
+    const temporalContext = await getTemporalContext(new Date())
+    const prompt = IMAGE_PROMPT_NOTE + buildPrompt(IMAGE_PROMPT_TEXT, temporalContext, await getPromptSettings())
+    const { answer, provider: imageProvider } = await withTimeout(
+      requestAnswer(provider, prompt, IMAGE_PROMPT_TEXT, temporalContext.dateOrder, abortController.signal, image),
+      IMAGE_EXTRACTION_TIMEOUT_MS,
+      `AI extraction timed out after ${IMAGE_EXTRACTION_TIMEOUT_MS / 1000} seconds`,
+      abortController.signal
+    )
+    events = validateExtractedEvents(parseExtractionOutput(answer), originalText, temporalContext.dateOrder)
+    answeredBy = imageProvider
+  } catch (error: any) {
+    if (wasCancelled(abortController)) {
+      logger.info('background', 'Image extraction cancelled by the user', { tabId })
+      return
+    }
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred.'
+    logger.warn('background', 'Image extraction failed', { tabId, error: message })
+    await Browser.tabs.sendMessage(tabId, { action: 'showError', message }).catch(() =>
+      showNotification('Extraction Failed', message)
+    )
+    return
+  } finally {
+    finishExtraction(tabId, abortController)
+  }
+
+  logger.info('background', 'Image extraction finished', { tabId, eventCount: events.length })
+  try {
+    if (events.length > 0) {
+      await Browser.tabs.sendMessage(tabId, {
+        action: 'showEventConfirmation',
+        events,
+        notice: 'Read from an image. Check the details before adding them.',
+        provider: answeredBy ?? (await getProviderConfigs()).provider
+      })
+      ErrorTracker.trackPerformance('background', 'image_extraction', Date.now() - startTime, {
+        eventCount: events.length
+      })
+    } else {
+      await Browser.tabs.sendMessage(tabId, { action: 'showExtractionError', originalText })
+    }
+  } catch (error: any) {
+    logger.error('background', 'Failed to send image extraction result to content script', { tabId, error: error.message }, error)
+    if (events.length > 0) {
+      await showNotification('Event Extracted', `Opening your calendar with ${describeEvents(events)}`)
+      for (const eventData of events) {
+        await handleOpenCalendar(eventData)
+      }
+    }
+  }
+}
 
 // Add message listener for calendar opening and debugging
 Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
@@ -557,7 +1056,21 @@ Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
     logger.debug('background', 'Received message', { action: message.action, sender: sender.tab?.id })
 
     if (message.action === 'openCalendar') {
-      await handleOpenCalendar(message.eventData)
+      // Events opened again from the history are already in it; copies of
+      // history entries bring their own source
+      await handleOpenCalendar(
+        message.eventData,
+        message.target,
+        message.fromHistory
+          ? null
+          : message.historySource || { sourceUrl: sender.tab?.url, pageTitle: sender.tab?.title, provider: message.provider }
+      )
+    } else if (message.action === 'openHistoryEntries') {
+      // "Open existing" of the duplicate warning: the entries, not a new event
+      await Browser.tabs.create({ url: getHistoryPageUrl(message.ids) })
+    } else if (message.action === 'quickAdd') {
+      // Quick add box of the popup, the same as the omnibox keyword
+      await quickAdd(message.text)
     } else if (message.action === 'testContentScript') {
       // Debug function to test content script injection
       const tabs = await Browser.tabs.query({ active: true, currentWindow: true })
@@ -571,6 +1084,11 @@ Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
           sendResponse({ success: false, message: 'Content script not responding', error: (error as Error).message })
         }
       }
+    } else if (message.action === 'cancelExtraction') {
+      // The modal was closed while the tab's extraction was still running
+      if (sender.tab?.id !== undefined && cancelExtraction(sender.tab.id)) {
+        logger.info('background', 'Cancelling extraction', { tabId: sender.tab.id })
+      }
     } else if (message.action === 'ping') {
       // Respond to ping from content script
       sendResponse({ success: true, message: 'Background script is working' })
@@ -579,9 +1097,9 @@ Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
       try {
         const configs = await getProviderConfigs()
         const provider = await getProvider()
-        const providerName = provider.constructor.name
-        const isGemini = providerName === 'GeminiProvider'
-        const isOpenAI = providerName === 'OpenAIProvider'
+        const providerChain = provider.chain.map((entry) => entry.type)
+        // First in the chain, e.g. Gemini when OpenAI has no usable key
+        const actualProvider = providerChain[0]
 
         // Get key information
         const keyInfo = await getKeyConfigInfo()
@@ -589,9 +1107,10 @@ Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
         const response = {
           success: true,
           selectedProvider: configs.provider,
-          actualProvider: providerName,
-          isUsingGemini: isGemini,
-          isUsingOpenAI: isOpenAI,
+          actualProvider,
+          providerChain,
+          isUsingGemini: actualProvider === ProviderType.GEMINI,
+          isUsingOpenAI: actualProvider === ProviderType.GPT3,
           keyInfo: keyInfo,
           configs: {
             gemini: configs.configs[ProviderType.GEMINI],
@@ -614,9 +1133,16 @@ Browser.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
   return true // Keep message channel open for async response
 })
 
-async function handleOpenCalendar(eventData: any) {
+// historySource is where the event came from; null when it is opened again
+// from the history and must not be recorded twice
+async function handleOpenCalendar(
+  eventData: any,
+  targetType?: CalendarTargetType,
+  historySource: HistorySource | null = {}
+) {
   try {
-    logger.info('background', 'Opening calendar with event data', { eventData })
+    const target = getCalendarTarget(targetType || (await getUserConfig()).calendarTarget)
+    logger.info('background', 'Opening calendar with event data', { eventData, target: target.type })
 
     // Validate required fields
     if (!eventData.title || !eventData.title.trim()) {
@@ -629,226 +1155,72 @@ async function handleOpenCalendar(eventData: any) {
       return
     }
 
-    const formattedStartDate = formatDateTimeForGoogle(eventData.startDate, false) // Don't auto-adjust years from user input
-    const formattedEndDate = eventData.endDate ? formatDateTimeForGoogle(eventData.endDate, false) : null
-
-    let dateParamValue: string | null = null
-    if (!formattedStartDate) {
-      logger.error('background', 'Could not format start date for calendar', { startDate: eventData.startDate })
+    const output = target.build(eventData)
+    if (!output) {
+      logger.error('background', 'Could not format start date for calendar', { startDate: eventData.startDate, target: target.type })
       await showNotification('Error', 'Invalid start date format')
       return
     }
 
-    // Calculate dateParamValue using existing logic
-    const startIsAllDay = formattedStartDate.length === 8
-    if (formattedEndDate) {
-      const endIsAllDay = formattedEndDate.length === 8
-      if (startIsAllDay && endIsAllDay)
-        dateParamValue = `${formattedStartDate}/${calculateNextDay(formattedEndDate)}`
-      else if (!startIsAllDay && !endIsAllDay)
-        dateParamValue = `${formattedStartDate}/${formattedEndDate}`
-      else
-        dateParamValue = startIsAllDay
-          ? `${formattedStartDate}/${calculateNextDay(formattedStartDate)}`
-          : `${formattedStartDate}/${formattedEndDate}`
+    if (output.type === 'url') {
+      console.log('Generated Calendar URL:', output.url)
+      await openNewWindow(output.url)
     } else {
-      dateParamValue = startIsAllDay
-        ? `${formattedStartDate}/${calculateNextDay(formattedStartDate)}`
-        : formattedStartDate
-    }
-
-    if (!dateParamValue) {
-      console.error('Date parameter calculation failed.')
-      return
-    }
-
-    const calendarUrl = new URL('https://www.google.com/calendar/event')
-    calendarUrl.searchParams.set('action', 'TEMPLATE')
-    calendarUrl.searchParams.set('text', eventData.title || 'Event from Text')
-    calendarUrl.searchParams.set('dates', dateParamValue)
-
-    if (eventData.location) calendarUrl.searchParams.set('location', eventData.location)
-
-    let detailsText = eventData.description || ''
-    if (eventData.originalText && eventData.originalText.trim() !== (eventData.description || '').trim()) {
-      detailsText += (detailsText ? '\n\n---\n' : '') + `Original Text:\n${eventData.originalText}`
+      await downloadFile(output.filename, buildFileDataUrl(output))
     }
-    if (detailsText) calendarUrl.searchParams.set('details', detailsText)
-
-    const finalUrl = calendarUrl.toString()
-    console.log('Generated Calendar URL:', finalUrl)
-    await openNewWindow(finalUrl)
+    if (historySource) await addToHistory([eventData], target.type, historySource)
   } catch (error) {
     console.error('Error opening calendar:', error)
   }
 }
 
-// function extractAndParseJSONFromString(inputString: string) {
-//   const jsonRegex = /{[^}]*}/
-//   const match = inputString.match(jsonRegex)
-
-//   if (match) {
-//     const jsonString = match[0]
-//     try {
-//       const jsonObject = JSON.parse(jsonString)
-//       return jsonObject
-//     } catch (error) {
-//       console.error('Invalid JSON string:', error)
-//       return null
-//       }
-//   } else {
-//     console.error('No JSON content found in the input string.')
-//     return null
-//   }
-// }
-
-/**
- * Parses a date/time string (potentially from AI) and formats it
- * for Google Calendar URL parameters (YYYYMMDD or YYYYMMDDTHHmmssZ).
- * Also adjusts past years to the current year as a heuristic.
- *
- * @param {string | null} dateTimeString The date/time string to parse (e.g., "2020-03-30T12:15:00", "2024-07-15").
- * @param {boolean} [adjustPastYears=true] Whether to adjust years prior to the current year.
- * @returns {string | null} The formatted date string or null if parsing fails.
- */
-function formatDateTimeForGoogle(dateTimeString, adjustPastYears = true) {
-  if (!dateTimeString) {
-    return null
-  }
-
+// Downloads generated content (e.g. an .ics file)
+async function downloadFile(filename: string, url: string) {
   try {
-    // Attempt to parse the date string. Handles ISO 8601 variations.
-    // IMPORTANT: new Date() parsing without 'Z' or offset assumes LOCAL time.
-    const date = new Date(dateTimeString)
-
-    // Check if parsing resulted in a valid date
-    if (isNaN(date.getTime())) {
-      console.warn(`Could not parse date string: ${dateTimeString}`)
-      // Maybe try a fallback regex if needed for formats like YYYYMMDDTHHmmss
-      // Example fallback (use cautiously):
-      // const match = dateTimeString.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/);
-      // if (match) {
-      //    date = new Date(Date.UTC(match[1], match[2]-1, match[3], match[4], match[5], match[6]));
-      //    if (isNaN(date.getTime())) { return null; } // Check again
-      // } else {
-      return null // Give up if invalid
-      // }
-    }
-
-    const currentYear = new Date().getFullYear()
-    const inputYear = date.getFullYear()
-
-    // Only adjust year if it's significantly in the past (more than 1 year)
-    // This prevents adjusting dates that are intentionally set to previous year
-    if (adjustPastYears && inputYear < currentYear - 1) {
-      logger.warn('background', `Adjusting old year (${inputYear}) to current year (${currentYear})`, {
-        originalDate: dateTimeString,
-        inputYear,
-        currentYear
-      })
-      date.setFullYear(currentYear)
-      // Re-check validity after potential year change
-      if (isNaN(date.getTime())) {
-        logger.error('background', 'Date became invalid after year adjustment')
-        return null
-      }
-    }
-
-    // Determine if it's an all-day event based on the *original* string format.
-    // Check for YYYY-MM-DD format specifically.
-    const isAllDay = /^\d{4}-\d{2}-\d{2}$/.test(dateTimeString)
-
-    if (isAllDay) {
-      // Format as YYYYMMDD
-      const year = date.getFullYear().toString()
-      const month = (date.getMonth() + 1).toString().padStart(2, '0') // Month is 0-indexed
-      const day = date.getDate().toString().padStart(2, '0')
-      return `${year}${month}${day}`
-    } else {
-      // Format as YYYYMMDDTHHmmssZ (UTC)
-      // Use UTC methods to avoid timezone issues from the initial local parsing
-      const year = date.getUTCFullYear().toString()
-      const month = (date.getUTCMonth() + 1).toString().padStart(2, '0')
-      const day = date.getUTCDate().toString().padStart(2, '0')
-      const hours = date.getUTCHours().toString().padStart(2, '0')
-      const minutes = date.getUTCMinutes().toString().padStart(2, '0')
-      const seconds = date.getUTCSeconds().toString().padStart(2, '0')
-      return `${year}${month}${day}T${hours}${minutes}${seconds}Z`
-    }
+    await Browser.downloads.download({ url, filename })
+    logger.info('background', 'Calendar file download started', { filename })
   } catch (error) {
-    console.error(`Error formatting date string "${dateTimeString}":`, error)
-    return null
+    logger.error('background', 'Failed to download calendar file', { filename }, error as Error)
+    await showNotification('Error', 'Could not download the calendar file')
   }
 }
 
-/**
- * Helper function to calculate the day after a given date in YYYYMMDD format.
- * Required for formatting all-day events for Google Calendar.
- * @param {string} yyyymmdd The date string in YYYYMMDD format.
- * @returns {string} The next day in YYYYMMDD format.
- */
-function calculateNextDay(yyyymmdd) {
+// Events found by the rule-based parser, in the same shape as AI results
+function parseEventsLocally(info: string, dateOrder: NumericDateOrder, referenceDate?: Date): ExtractedEvent[] {
   try {
-    const year = parseInt(yyyymmdd.substring(0, 4))
-    const month = parseInt(yyyymmdd.substring(4, 6)) - 1 // JS months are 0-indexed
-    const day = parseInt(yyyymmdd.substring(6, 8))
-    const date = new Date(Date.UTC(year, month, day)) // Use UTC to avoid timezone shifts affecting the date
-    date.setUTCDate(date.getUTCDate() + 1) // Add one day
-
-    const nextYear = date.getUTCFullYear().toString()
-    const nextMonth = (date.getUTCMonth() + 1).toString().padStart(2, '0')
-    const nextDay = date.getUTCDate().toString().padStart(2, '0')
-    return `${nextYear}${nextMonth}${nextDay}`
-  } catch (e) {
-    console.error('Error calculating next day:', e)
-    return yyyymmdd // Fallback to original date
+    return validateExtractedEvents({ events: parseEventText(info, referenceDate, dateOrder) }, info, dateOrder)
+  } catch (error: any) {
+    logger.error('background', 'Local parser failed', { error: error.message }, error)
+    return []
   }
 }
 
-/**
- * Extracts a JSON object string potentially embedded within a larger text,
- * attempts to fix common syntax issues (like single quotes), and parses it.
- *
- * @param {string} rawString The raw string possibly containing JSON.
- * @returns {object | null} The parsed JSON object or null if extraction/parsing fails.
- */
-function extractAndParseJSONFromString(rawString) {
-  if (!rawString || typeof rawString !== 'string') {
-    console.error('Input to extractAndParseJSONFromString was not a valid string:', rawString)
-    return null
-  }
+// Shows locally parsed events in the confirmation modal, with a notice
+// explaining why the AI result is missing
+async function sendLocalFallbackEvents(tabId: number, events: ExtractedEvent[], reason: string) {
+  logger.warn('background', 'AI extraction failed, using local parser results', {
+    tabId,
+    reason,
+    eventCount: events.length
+  })
 
   try {
-    // 1. Find the first '{' and the last '}'
-    const startIndex = rawString.indexOf('{')
-    const endIndex = rawString.lastIndexOf('}')
-
-    if (startIndex === -1 || endIndex === -1 || endIndex < startIndex) {
-      console.warn('Could not find JSON-like structure ({...}) in the string:', rawString)
-      // Optional: Could try finding ```json ... ``` blocks too
-      return null
-    }
-
-    // 2. Extract the potential JSON substring
-    let jsonString = rawString.substring(startIndex, endIndex + 1)
-    console.log('Extracted potential JSON substring:', jsonString)
-
-    // 3. Attempt to fix common issues: Replace single quotes with double quotes
-    // WARNING: This is a common heuristic for LLM outputs but can break
-    // if the *actual string values* within the JSON contain single quotes (e.g., "it's").
-    // More complex regex could be used, but this often works.
-    // Also remove potential trailing commas before closing brace/bracket which are invalid JSON
-    jsonString = jsonString.replace(/'/g, '"')
-    jsonString = jsonString.replace(/,\s*([}\]])/g, '$1') // Remove trailing commas like ",}" or ",]"
-
-    console.log('Attempted to fix quotes/commas:', jsonString)
-
-    // 4. Parse the potentially fixed string
-    const jsonObject = JSON.parse(jsonString)
-    return jsonObject
-  } catch (error) {
-    console.error('Failed to parse JSON after extraction and fixing attempts:', error)
-    console.error('Original raw string was:', rawString) // Log the original string that failed
-    return null // Indicate failure
+    await Browser.tabs.sendMessage(tabId, {
+      action: 'showEventConfirmation',
+      events,
+      notice: `The AI service was unavailable (${reason}), so this event was read without AI. Please double-check the details.`,
+      provider: ProviderType.LOCAL
+    })
+  } catch (error: any) {
+    logger.error('background', 'Failed to send local fallback events to content script', {
+      tabId,
+      error: error.message
+    }, error)
+    await showNotification('Extraction Failed', 'Could not extract event information from selected text. Try selecting more descriptive text.')
   }
 }
+
+// Short description of extracted events for notifications
+function describeEvents(events: any[]): string {
+  return events.length === 1 ? `event: ${events[0].title}` : `${events.length} events`
+}
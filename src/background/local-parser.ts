@@ -0,0 +1,448 @@
+import { DateOrder } from '../config'
+import { NumericDateOrder } from '../temporal-context'
+
+/**
+ * Deterministic, offline date/time parser. Backs the "Local (no AI)" provider
+ * and is used as a fallback when the AI provider fails or times out.
+ *
+ * It looks for the first date (absolute, relative or weekday) and the first
+ * time or time range in the text. What is left becomes the title, and
+ * "at/in <Capitalized Place>" or a "Location:" line becomes the location.
+ * The output uses the same shape and date format as the AI prompt.
+ */
+
+interface DayValue {
+  year: number
+  /** 1-12 */
+  month: number
+  day: number
+}
+
+interface TimeValue {
+  hours: number
+  minutes: number
+}
+
+interface TextMatch {
+  index: number
+  length: number
+}
+
+interface DateMatch extends TextMatch {
+  start: DayValue
+  end?: DayValue
+}
+
+interface TimeMatch extends TextMatch {
+  start: TimeValue
+  end?: TimeValue
+}
+
+export interface LocalEvent {
+  title: string
+  startDate: string
+  endDate: string
+  location: string | null
+  description: null
+}
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+]
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const MONTH =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?'
+const WEEKDAY =
+  '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)\\.?'
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?'
+const MERIDIEM = '(a\\.?m\\.?|p\\.?m\\.?)'
+const RANGE_SEPARATOR = '\\s*(?:-|–|—|to|until|till|and)\\s*'
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+}
+const DEFAULT_EVENT_DURATION_MINUTES = 60
+const MAX_TITLE_LENGTH = 80
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+function toUtcDate(value: DayValue): Date {
+  return new Date(Date.UTC(value.year, value.month - 1, value.day))
+}
+
+function fromUtcDate(date: Date): DayValue {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+function addDays(value: DayValue, days: number): DayValue {
+  const date = toUtcDate(value)
+  date.setUTCDate(date.getUTCDate() + days)
+  return fromUtcDate(date)
+}
+
+function compareDays(a: DayValue, b: DayValue): number {
+  return toUtcDate(a).getTime() - toUtcDate(b).getTime()
+}
+
+// Rejects dates like February 30 that Date.UTC would silently roll over
+function isValidDay(value: DayValue): boolean {
+  const date = toUtcDate(value)
+  return (
+    date.getUTCFullYear() === value.year &&
+    date.getUTCMonth() + 1 === value.month &&
+    date.getUTCDate() === value.day
+  )
+}
+
+function formatDay(value: DayValue): string {
+  return `${value.year}-${pad(value.month)}-${pad(value.day)}`
+}
+
+function monthFromName(name: string): number {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase()) + 1
+}
+
+function expandYear(year: string): number {
+  const value = Number(year)
+  return year.length === 2 ? 2000 + value : value
+}
+
+/**
+ * Dates without a year are this year, or next year if they already passed
+ */
+function resolveDay(
+  month: number,
+  day: number,
+  year: string | undefined,
+  today: DayValue,
+): DayValue | null {
+  const value = { year: year ? expandYear(year) : today.year, month, day }
+  if (!isValidDay(value)) return null
+  if (!year && compareDays(value, today) < 0) value.year += 1
+  return isValidDay(value) ? value : null
+}
+
+function matchPosition(match: RegExpMatchArray): TextMatch {
+  return { index: match.index ?? 0, length: match[0].length }
+}
+
+// Replaces a match with spaces so indices stay valid for later searches
+function blank(text: string, match: TextMatch): string {
+  return (
+    text.slice(0, match.index) + ' '.repeat(match.length) + text.slice(match.index + match.length)
+  )
+}
+
+function findAbsoluteDate(
+  text: string,
+  today: DayValue,
+  dateOrder: NumericDateOrder,
+): DateMatch | null {
+  // 2024-12-05 (optionally followed by "T" and a time)
+  let match = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})(?:T(?=\d))?/)
+  if (match) {
+    const start = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+    if (isValidDay(start)) return { start, ...matchPosition(match) }
+  }
+
+  // Dec 5, December 5th 2025, Dec 5-7
+  match = text.match(
+    new RegExp(`\\b${MONTH}\\s+${DAY}(?:${RANGE_SEPARATOR}${DAY})?(?:,?\\s+(\\d{4}))?\\b`, 'i'),
+  )
+  if (match) {
+    const month = monthFromName(match[1])
+    const start = resolveDay(month, Number(match[2]), match[4], today)
+    const end =
+      match[3] && start ? resolveDay(month, Number(match[3]), String(start.year), today) : null
+    if (start) return { start, end: end || undefined, ...matchPosition(match) }
+  }
+
+  // 5 December, 5th of Dec 2025, 5-7 Dec
+  match = text.match(
+    new RegExp(
+      `\\b${DAY}(?:${RANGE_SEPARATOR}${DAY})?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`,
+      'i',
+    ),
+  )
+  if (match) {
+    const month = monthFromName(match[3])
+    const start = resolveDay(month, Number(match[1]), match[4], today)
+    const end =
+      match[2] && start ? resolveDay(month, Number(match[2]), String(start.year), today) : null
+    if (start) return { start, end: end || undefined, ...matchPosition(match) }
+  }
+
+  // 12/5, 12/5/2024 (in the user's date order) and 5.12.2024 (always day first)
+  match = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/)
+  if (match) {
+    const [month, day] =
+      dateOrder === DateOrder.DayMonth ? [match[2], match[1]] : [match[1], match[2]]
+    const start = resolveDay(Number(month), Number(day), match[3], today)
+    if (start) return { start, ...matchPosition(match) }
+  }
+  match = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/)
+  if (match) {
+    const start = resolveDay(Number(match[2]), Number(match[1]), match[3], today)
+    if (start) return { start, ...matchPosition(match) }
+  }
+
+  return null
+}
+
+function findRelativeDate(text: string, today: DayValue): DateMatch | null {
+  const patterns: [RegExp, (match: RegExpMatchArray) => number][] = [
+    [/\b(?:the\s+)?day\s+after\s+tomorrow\b/i, () => 2],
+    [/\btomorrow\b/i, () => 1],
+    [/\b(?:today|tonight|this\s+(?:morning|afternoon|evening))\b/i, () => 0],
+    [
+      /\bin\s+(\d+|an?|one|two|three|four|five|six|seven)\s+(days?|weeks?)\b/i,
+      (match) => {
+        const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1])
+        return match[2].toLowerCase().startsWith('week') ? amount * 7 : amount
+      },
+    ],
+    [/\bnext\s+week\b/i, () => 7],
+  ]
+
+  for (const [pattern, getOffset] of patterns) {
+    const match = text.match(pattern)
+    if (match) return { start: addDays(today, getOffset(match)), ...matchPosition(match) }
+  }
+  return null
+}
+
+/**
+ * "Friday" and "this Friday" are the next Friday including today,
+ * "next Friday" is the next one after today
+ */
+function findWeekday(text: string, today: DayValue): DateMatch | null {
+  const match = text.match(new RegExp(`\\b(?:(next|this|coming)\\s+)?${WEEKDAY}(?!\\w)`, 'i'))
+  if (!match) return null
+
+  const weekday = WEEKDAY_NAMES.indexOf(match[2].slice(0, 3).toLowerCase())
+  let offset = (weekday - toUtcDate(today).getUTCDay() + 7) % 7
+  if (offset === 0 && match[1]?.toLowerCase() === 'next') offset = 7
+  return { start: addDays(today, offset), ...matchPosition(match) }
+}
+
+/**
+ * Converts an hour and optional am/pm marker to 24-hour time
+ */
+function toTime(
+  hourText: string,
+  minuteText: string | undefined,
+  meridiem: string | undefined,
+): TimeValue | null {
+  let hours = Number(hourText)
+  const minutes = minuteText ? Number(minuteText) : 0
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (meridiem.toLowerCase().startsWith('p') ? 12 : 0)
+  } else if (hours > 23) {
+    return null
+  }
+  return { hours, minutes }
+}
+
+const flipMeridiem = (meridiem: string) => (meridiem.toLowerCase().startsWith('p') ? 'am' : 'pm')
+
+function findTimeRange(text: string): TimeMatch | null {
+  const pattern = new RegExp(
+    `\\b(?:(?:from|between)\\s+)?(\\d{1,2})(?::([0-5]\\d))?\\s*${MERIDIEM}?${RANGE_SEPARATOR}(\\d{1,2})(?::([0-5]\\d))?\\s*${MERIDIEM}?(?!\\w)`,
+    'gi',
+  )
+
+  for (const match of text.matchAll(pattern)) {
+    const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = match
+    // Bare numbers ("pages 3-4") are not times
+    if (!startMeridiem && !endMeridiem && !startMinute && !endMinute) continue
+
+    let resolvedStartMeridiem = startMeridiem
+    let resolvedEndMeridiem = endMeridiem
+    if (!startMeridiem && endMeridiem) {
+      // "3-4pm" shares the marker, "11-1pm" starts in the morning
+      resolvedStartMeridiem =
+        Number(startHour) % 12 > Number(endHour) % 12 ? flipMeridiem(endMeridiem) : endMeridiem
+    } else if (startMeridiem && !endMeridiem) {
+      resolvedEndMeridiem =
+        Number(endHour) % 12 < Number(startHour) % 12 ? flipMeridiem(startMeridiem) : startMeridiem
+    }
+
+    const start = toTime(startHour, startMinute, resolvedStartMeridiem)
+    const end = toTime(endHour, endMinute, resolvedEndMeridiem)
+    if (start && end) return { start, end, ...matchPosition(match) }
+  }
+  return null
+}
+
+function findTime(text: string): TimeMatch | null {
+  let match = text.match(/\b(noon|midday|midnight|eod|end\s+of\s+(?:the\s+)?day)\b/i)
+  if (match) {
+    const keyword = match[1].toLowerCase()
+    const hours = keyword === 'midnight' ? 0 : keyword === 'noon' || keyword === 'midday' ? 12 : 17
+    return { start: { hours, minutes: 0 }, ...matchPosition(match) }
+  }
+
+  match = text.match(new RegExp(`\\b(\\d{1,2})(?::([0-5]\\d))?\\s*${MERIDIEM}(?!\\w)`, 'i'))
+  if (match) {
+    const start = toTime(match[1], match[2], match[3])
+    if (start) return { start, ...matchPosition(match) }
+  }
+
+  match = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/)
+  if (match) {
+    return {
+      start: { hours: Number(match[1]), minutes: Number(match[2]) },
+      ...matchPosition(match),
+    }
+  }
+
+  // "at 9": small numbers are afternoon times in everyday speech
+  match = text.match(/\bat\s+(\d{1,2})\b(?!\s*(?:[:/.-]\d|st|nd|rd|th|%))/i)
+  if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) {
+    const hour = Number(match[1])
+    return {
+      start: { hours: hour < 8 ? hour + 12 : hour, minutes: 0 },
+      ...matchPosition(match),
+    }
+  }
+
+  return null
+}
+
+function findLocation(text: string): (TextMatch & { location: string }) | null {
+  let match = text.match(/^[ \t]*(?:location|where|venue|place)[ \t]*:[ \t]*(.+)$/im)
+  if (match && match[1].trim()) {
+    return { location: match[1].trim(), ...matchPosition(match) }
+  }
+
+  // Capitalized words after "at", "in" or "@", e.g. "at Main Street Clinic"
+  const word = "[A-Z0-9][\\w'’&.-]*"
+  match = text.match(
+    new RegExp(`(?:\\b(?:at|in)|@)[ \\t]+(${word}(?:[ \\t]+(?:${word}|of|the|and|&))*)`),
+  )
+  if (match) {
+    const location = match[1].replace(/(?:[ \t]+(?:of|the|and|&))+$/, '').replace(/[.,;:]+$/, '')
+    if (location && !/^\d+$/.test(location)) {
+      return { location, ...matchPosition(match) }
+    }
+  }
+
+  return null
+}
+
+const LEADING_CONNECTORS = /^(?:[\s,;:|@–—-]+|(?:on|at|from|to|by|between|and|the|in)\b)+/i
+const TRAILING_CONNECTORS =
+  /(?:[\s,;:|@(–—-]+|\b(?:on|at|from|to|by|between|and|until|till|in|every|next|this))+$/i
+
+function buildTitle(remainingText: string): string {
+  const title =
+    remainingText
+      .split(/\r?\n/)
+      .map((line) =>
+        line
+          .replace(/\s+/g, ' ')
+          .replace(LEADING_CONNECTORS, '')
+          .replace(TRAILING_CONNECTORS, '')
+          .trim(),
+      )
+      .find((line) => line.length > 0) || ''
+
+  if (title.length <= MAX_TITLE_LENGTH) return title
+  const truncated = title.slice(0, MAX_TITLE_LENGTH)
+  const lastSpace = truncated.lastIndexOf(' ')
+  return (lastSpace > MAX_TITLE_LENGTH / 2 ? truncated.slice(0, lastSpace) : truncated).replace(
+    TRAILING_CONNECTORS,
+    '',
+  )
+}
+
+function formatDateTime(day: DayValue, time: TimeValue): string {
+  return `${formatDay(day)}T${pad(time.hours)}:${pad(time.minutes)}:00`
+}
+
+/**
+ * Extracts at most one event from the text. Returns an empty list when no
+ * date or time could be found. Slash dates such as "12/5" are read in the
+ * given order.
+ */
+export function parseEventText(
+  text: string,
+  referenceDate: Date = new Date(),
+  dateOrder: NumericDateOrder = DateOrder.MonthDay,
+): LocalEvent[] {
+  const today = {
+    year: referenceDate.getFullYear(),
+    month: referenceDate.getMonth() + 1,
+    day: referenceDate.getDate(),
+  }
+  let remaining = text
+
+  const dateMatch =
+    findAbsoluteDate(remaining, today, dateOrder) ||
+    findRelativeDate(remaining, today) ||
+    findWeekday(remaining, today)
+  if (dateMatch) remaining = blank(remaining, dateMatch)
+
+  const timeMatch = findTimeRange(remaining) || findTime(remaining)
+  if (timeMatch) remaining = blank(remaining, timeMatch)
+
+  if (!dateMatch && !timeMatch) return []
+
+  const locationMatch = findLocation(remaining)
+  if (locationMatch) remaining = blank(remaining, locationMatch)
+
+  const startDay = dateMatch?.start || today
+  let startDate: string
+  let endDate: string
+
+  if (timeMatch) {
+    const startTime = timeMatch.start
+    let endTime = timeMatch.end
+    let endDay = startDay
+    if (!endTime) {
+      const endMinutes = startTime.hours * 60 + startTime.minutes + DEFAULT_EVENT_DURATION_MINUTES
+      endTime = { hours: Math.floor(endMinutes / 60) % 24, minutes: endMinutes % 60 }
+      if (endMinutes >= 24 * 60) endDay = addDays(startDay, 1)
+    } else if (endTime.hours * 60 + endTime.minutes <= startTime.hours * 60 + startTime.minutes) {
+      // "11pm-1am" ends the next day
+      endDay = addDays(startDay, 1)
+    }
+    startDate = formatDateTime(startDay, startTime)
+    endDate = formatDateTime(endDay, endTime)
+  } else {
+    startDate = formatDay(startDay)
+    endDate = formatDay(
+      dateMatch?.end && compareDays(dateMatch.end, startDay) >= 0 ? dateMatch.end : startDay,
+    )
+  }
+
+  return [
+    {
+      title: buildTitle(remaining) || 'Event',
+      startDate,
+      endDate,
+      location: locationMatch?.location || null,
+      description: null,
+    },
+  ]
+}
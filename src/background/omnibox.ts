@@ -0,0 +1,45 @@
+import { isAllDayDate } from '../calendar-event'
+import { ExtractedEvent } from './event-schema'
+
+/**
+ * Text of the address bar suggestion for the "cal" keyword. The suggestion
+ * previews the local parser's reading of the input; pressing Enter runs the
+ * configured provider.
+ */
+
+export const OMNIBOX_HINT =
+  'Add to calendar: type an event, e.g. <match>lunch with Dana friday 12:30 at Nopa</match>'
+
+// Suggestions are XML; text from the user must not be read as markup
+export function escapeOmniboxText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function formatSuggestionDate(startDate: string): string {
+  const [year, month, day, hours = 0, minutes = 0] = (startDate.match(/\d+/g) || []).map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes)
+  if (isNaN(date.getTime())) return startDate
+  return date.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(isAllDayDate(startDate) ? {} : { hour: 'numeric', minute: '2-digit' }),
+  })
+}
+
+export function describeQuickAddSuggestion(events: ExtractedEvent[]): string {
+  const [first] = events
+  if (!first?.startDate) return OMNIBOX_HINT
+  const title = escapeOmniboxText(first.title || 'Untitled event')
+  const details = [formatSuggestionDate(first.startDate), first.location]
+    .filter(Boolean)
+    .map(escapeOmniboxText)
+    .join(' · ')
+  const more = events.length > 1 ? ` (+${events.length - 1} more)` : ''
+  return `Add to calendar: <match>${title}</match> <dim>${details}${more}</dim>`
+}
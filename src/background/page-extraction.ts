@@ -0,0 +1,77 @@
+import { PageContent } from '../content-script/page-content'
+import { ExtractedEvent } from './event-schema'
+
+/**
+ * Helpers for extracting events from a whole page (no selection): the page
+ * text is split into chunks that fit the model's context, each chunk is sent
+ * with a note on what to look for, and the results are merged.
+ */
+
+// ~3k tokens per chunk leaves room for the prompt and the answer on every
+// supported model
+export const PAGE_CHUNK_LENGTH = 12000
+// Caps the number of requests per page; event details are near the top
+export const MAX_PAGE_CHUNKS = 4
+
+export const PAGE_PROMPT_NOTE = `The text below is the readable content of a web page, not a user selection.
+List only the events a visitor could attend or would want in their calendar (the event the page is about, sessions of an agenda, dates of a tour).
+Ignore publication dates, copyright years, opening hours and dates of past news items.
+`
+
+/**
+ * Splits the page text at line breaks into chunks of at most maxLength
+ * characters. Lines longer than a chunk are split at the last space.
+ */
+export function chunkPageText(text: string, maxLength = PAGE_CHUNK_LENGTH): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  const pushLine = (line: string) => {
+    if (current && current.length + line.length + 1 > maxLength) {
+      chunks.push(current)
+      current = ''
+    }
+    current = current ? `${current}\n${line}` : line
+  }
+
+  for (const line of text.split('\n')) {
+    let rest = line.trim()
+    while (rest.length > maxLength) {
+      const splitAt = rest.lastIndexOf(' ', maxLength)
+      const end = splitAt > 0 ? splitAt : maxLength
+      pushLine(rest.slice(0, end))
+      rest = rest.slice(end).trim()
+    }
+    if (rest) pushLine(rest)
+  }
+  if (current) chunks.push(current)
+
+  return chunks.slice(0, MAX_PAGE_CHUNKS)
+}
+
+/**
+ * Text sent for one chunk; the page title and URL give the model context the
+ * later chunks would otherwise lack
+ */
+export function buildPageExcerpt(page: PageContent, chunk: string, index: number, total: number) {
+  const header = [
+    page.title && `Page title: ${page.title}`,
+    page.url && `Page URL: ${page.url}`,
+    total > 1 && `Part ${index + 1} of ${total}`,
+  ].filter(Boolean)
+  return [...header, '', chunk].join('\n')
+}
+
+/**
+ * Merges the events of all chunks; the same event is often mentioned in
+ * several of them (header, body, "add to calendar" box)
+ */
+export function mergePageEvents(eventLists: ExtractedEvent[][]): ExtractedEvent[] {
+  const seen = new Set<string>()
+  return eventLists.flat().filter((eventData) => {
+    const key = `${eventData.title.trim().toLowerCase()}|${eventData.startDate}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
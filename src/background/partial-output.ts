@@ -0,0 +1,114 @@
+import { NumericDateOrder } from '../temporal-context'
+import {
+  ExtractedEvent,
+  ExtractedEventField,
+  getEventCandidates,
+  locateJsonText,
+  parseExtractionOutput,
+  validateExtractedEvents,
+} from './event-schema'
+
+/**
+ * Reading of a model answer that is still streaming in, so the confirmation
+ * modal can show fields before the answer is done. Only values the model has
+ * finished writing are used: the text is cut after the last complete field
+ * or event, then closed and parsed like the final answer.
+ */
+
+export const EVENT_FIELDS: ExtractedEventField[] = [
+  'title',
+  'startDate',
+  'endDate',
+  'location',
+  'description',
+  'attendees',
+  'timeZone',
+  'recurrence',
+]
+
+export interface PartialEvents {
+  events: ExtractedEvent[]
+  /** Per event, the fields the model has not written yet */
+  pendingFields: ExtractedEventField[][]
+}
+
+// Nesting depth of the event fields: 3 in {"events": [{...}]}, 2 in a bare
+// array, 1 for a single event object
+function getEventDepth(json: string): number {
+  if (json.startsWith('[')) return 2
+  return /^\{\s*["']?events["']?\s*:\s*\[/.test(json) ? 3 : 1
+}
+
+/**
+ * End of the last complete value at the event field level (a field, an event
+ * or the whole answer) and whether an event is still open there. The end is
+ * -1 when no value is complete yet.
+ */
+export function findCompleteEnd(json: string): { end: number; eventOpen: boolean } {
+  const eventDepth = getEventDepth(json)
+  let depth = 0
+  let inString = false
+  let end = -1
+  let depthAtEnd = 0
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      // Nested values (guests, repeat rules) count once they are closed
+      if (depth <= eventDepth) {
+        end = i + 1
+        depthAtEnd = depth
+      }
+      if (depth === 0) break
+    } else if (char === ',' && depth <= eventDepth) {
+      end = i
+      depthAtEnd = depth
+    }
+  }
+
+  return { end, eventOpen: end !== -1 && depthAtEnd >= eventDepth }
+}
+
+/**
+ * The events read so far from a partial answer, with the fields still to
+ * come for the event being written. Null until a first value is complete.
+ */
+export function parsePartialEvents(
+  rawText: string,
+  originalText: string,
+  dateOrder?: NumericDateOrder,
+): PartialEvents | null {
+  const located = locateJsonText(rawText)
+  if (!located) return null
+
+  const json = located.text.slice(located.startIndex)
+  const { end, eventOpen } = findCompleteEnd(json)
+  if (end === -1) return null
+
+  const candidates = getEventCandidates(parseExtractionOutput(json.slice(0, end)))
+  const result: PartialEvents = { events: [], pendingFields: [] }
+  candidates.forEach((candidate, index) => {
+    const pending =
+      eventOpen && index === candidates.length - 1
+        ? EVENT_FIELDS.filter((field) => !(field in candidate))
+        : []
+    const [event] = validateExtractedEvents(candidate, originalText, dateOrder)
+    if (!event) return
+    // "No title found" and the like are only known once the event is done
+    for (const field of pending) delete event.fieldErrors[field]
+    result.events.push(event)
+    result.pendingFields.push(pending)
+  })
+
+  return result.events.length > 0 ? result : null
+}
@@ -0,0 +1,314 @@
+import { DateOrder, Language, LANGUAGE_TEXT } from '../config'
+import { EmailContext } from '../content-script/email-adapters'
+import { ExtractionCorrection, getChangedFields } from '../corrections'
+import { resolveLanguage, TemporalContext } from '../temporal-context'
+import { buildEmailPromptContext } from './email-context'
+
+/**
+ * The built-in extraction prompt. Users can replace it with their own
+ * versions in the options page; placeholders are filled per request by
+ * buildPrompt, so the reference date and date conventions are never stale.
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `
+Extract event details from the following text and provide the output in a structured JSON format.
+
+**Context:**
+- Reference Date: \${referenceDate}, a \${referenceWeekday} (use this as "today" for interpreting relative dates)
+- Reference Time: \${referenceTime} in \${timezone}
+- Current Year: \${referenceYear} (use for dates without specified year)
+- Weeks start on \${weekStart}: "this week" and "next week" are counted from \${weekStart}
+- Numeric dates are \${dateOrder}\${emailContext}
+
+**Required Output Format:**
+Return ONLY a JSON object of the form {"events": [...]}, where each event has these exact keys: "title", "startDate", "endDate", "location", "description", "attendees", "timeZone", "recurrence"
+- Add one entry per distinct event (e.g. each session of an agenda or each class of a schedule)
+- Use null for missing values (not empty strings)
+- If the text contains no event information, return {"events": []}
+- Do not include any text before or after the JSON object
+
+**Date/Time Format Rules:**
+- Specific times: "YYYY-MM-DDTHH:mm:ss" (no timezone suffixes), written exactly as stated in the text
+- All-day events: "YYYY-MM-DD"
+- If start time exists but no end time: add 1 hour to start time
+- If only start date exists: use same date for end date
+- For relative dates (tomorrow, next week, etc.): calculate based on reference date
+- For dates without year: use current year or next occurrence if date has passed
+
+**Attendee Rules:**
+- List the people the event is with or who are invited in "attendees", each as {"name": ..., "email": ...}
+- Copy email addresses exactly as written; use null for a missing name or email
+- Do not invent email addresses and do not list organizations or rooms
+- Use [] when nobody is mentioned
+
+**Timezone Rules:**
+- If the text states a timezone ("EST", "CET", "GMT+8", "Pacific time", "Tokyo time"), set "timeZone" to the matching IANA name, e.g. "America/New_York", "Europe/Paris", "Asia/Singapore"
+- Do NOT convert the times: startDate/endDate stay in the stated timezone
+- Use null for "timeZone" when no timezone is mentioned
+
+**Recurrence Rules:**
+- For repeating events ("every Tuesday", "weekly", "Mon–Fri", "monthly"), set "recurrence" to an object with:
+  - "frequency": one of "DAILY", "WEEKLY", "MONTHLY", "YEARLY"
+  - "interval": repeat every N periods (1 unless stated, e.g. "every other week" is 2)
+  - "byDay": weekday codes for weekly events, e.g. ["MO", "TU", "WE", "TH", "FR"], otherwise null
+  - "until": last possible date as "YYYY-MM-DD" ("until June" means the last day of June), otherwise null
+  - "count": number of occurrences when stated instead of an end date, otherwise null
+- startDate/endDate describe the first occurrence
+- Use null for "recurrence" when the event happens once
+
+**Language Rules:**
+- The text can be in any language: read dates, times and relative words in that language ("mañana a las 3" is tomorrow at 15:00, "übermorgen" is the day after tomorrow, "下周三" is next Wednesday)
+- \${outputLanguage}
+
+**Examples** (written for a reference date of Monday 2024-12-02; resolve dates against the actual reference date above):
+
+Input: "Team meeting Thursday 3 PM Zoom"
+Output: {"events": [{"title": "Team meeting", "startDate": "2024-12-05T15:00:00", "endDate": "2024-12-05T16:00:00", "location": "Zoom", "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Project deadline: EOD Friday"
+Output: {"events": [{"title": "Project deadline", "startDate": "2024-12-06T17:00:00", "endDate": "2024-12-06T17:00:00", "location": null, "description": "Project deadline: EOD Friday", "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Doctor appointment tomorrow at 2:30 PM at Main Street Clinic"
+Output: {"events": [{"title": "Doctor appointment", "startDate": "2024-12-03T14:30:00", "endDate": "2024-12-03T15:30:00", "location": "Main Street Clinic", "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Christmas Day"
+Output: {"events": [{"title": "Christmas Day", "startDate": "2024-12-25", "endDate": "2024-12-25", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Conference call with client about Q4 results on Dec 15 from 10 AM to 11:30 AM"
+Output: {"events": [{"title": "Conference call with client about Q4 results", "startDate": "2024-12-15T10:00:00", "endDate": "2024-12-15T11:30:00", "location": null, "description": "Conference call with client about Q4 results", "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Lunch with alice@corp.com and Bob on Friday at noon"
+Output: {"events": [{"title": "Lunch with Alice and Bob", "startDate": "2024-12-06T12:00:00", "endDate": "2024-12-06T13:00:00", "location": null, "description": null, "attendees": [{"name": null, "email": "alice@corp.com"}, {"name": "Bob", "email": null}], "timeZone": null, "recurrence": null}]}
+
+Input: "Webinar on Dec 12 at 3 PM EST"
+Output: {"events": [{"title": "Webinar", "startDate": "2024-12-12T15:00:00", "endDate": "2024-12-12T16:00:00", "location": null, "description": null, "attendees": [], "timeZone": "America/New_York", "recurrence": null}]}
+
+Input: "Dec 10 agenda: 9:00 Keynote (Hall A); 10:30 Workshop: Testing (Room 2); 12:00-13:00 Lunch"
+Output: {"events": [{"title": "Keynote", "startDate": "2024-12-10T09:00:00", "endDate": "2024-12-10T10:00:00", "location": "Hall A", "description": null, "attendees": [], "timeZone": null, "recurrence": null}, {"title": "Workshop: Testing", "startDate": "2024-12-10T10:30:00", "endDate": "2024-12-10T11:30:00", "location": "Room 2", "description": null, "attendees": [], "timeZone": null, "recurrence": null}, {"title": "Lunch", "startDate": "2024-12-10T12:00:00", "endDate": "2024-12-10T13:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}
+
+Input: "Yoga every Tuesday at 9am until June"
+Output: {"events": [{"title": "Yoga", "startDate": "2024-12-03T09:00:00", "endDate": "2024-12-03T10:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": {"frequency": "WEEKLY", "interval": 1, "byDay": ["TU"], "until": "2025-06-30", "count": null}}]}
+
+Input: "Weekly standup Mon–Fri 10:00"
+Output: {"events": [{"title": "Weekly standup", "startDate": "2024-12-02T10:00:00", "endDate": "2024-12-02T11:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": {"frequency": "WEEKLY", "interval": 1, "byDay": ["MO", "TU", "WE", "TH", "FR"], "until": null, "count": null}}]}
+
+Input: "random text with no event information"
+Output: {"events": []}
+
+\${languageExamples}\${corrections}**Text to process:**
+\${text}
+`
+
+/**
+ * Placeholders a template can use, with the description shown in the editor
+ */
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+  text: 'The selected text (appended at the end when missing)',
+  referenceDate: 'Reference date as YYYY-MM-DD (today, or the sent date of an email)',
+  referenceWeekday: 'Weekday of the reference date, e.g. Tuesday',
+  referenceTime: 'Reference time as HH:mm',
+  referenceYear: 'Year of the reference date',
+  timezone: 'Your IANA timezone, e.g. Europe/Berlin',
+  weekStart: 'First day of the week, e.g. Monday',
+  dateOrder: 'How numeric dates like 03/04 are read',
+  emailContext: 'Subject, sender and recipients when the text is from an email (empty otherwise)',
+  outputLanguage:
+    'Which language titles and descriptions are written in (added before the text when missing)',
+  languageExamples:
+    'An example in your language, a Spanish one for English (added before the text when missing)',
+  corrections:
+    'Your past corrections of similar texts as examples (added before the text when missing, empty when there are none)',
+}
+
+/**
+ * Placeholders in a template that buildPrompt does not know, e.g. a typo
+ * like "${referenceDay}"
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const names = Array.from(template.matchAll(/\$\{(\w+)\}/g), (match) => match[1])
+  return Array.from(new Set(names.filter((name) => !(name in PROMPT_PLACEHOLDERS))))
+}
+
+const DATE_ORDER_PROMPT_TEXT = {
+  [DateOrder.DayMonth]: 'day first: "03/04" is 3 April and "03/04/2025" is 3 April 2025',
+  [DateOrder.MonthDay]: 'month first: "03/04" is March 4 and "03/04/2025" is March 4, 2025',
+}
+
+/**
+ * One example per language setting, written in that language for the same
+ * reference date as the built-in examples. English gets a Spanish text, since
+ * the built-in examples are English already.
+ */
+const LANGUAGE_EXAMPLES: Record<
+  Exclude<Language, Language.Auto>,
+  { input: string; output: string; translatedOutput?: string }
+> = {
+  [Language.English]: {
+    input: 'Reunión con Marta mañana a las 3 en Café Central',
+    output:
+      '{"events": [{"title": "Reunión con Marta", "startDate": "2024-12-03T15:00:00", "endDate": "2024-12-03T16:00:00", "location": "Café Central", "description": null, "attendees": [{"name": "Marta", "email": null}], "timeZone": null, "recurrence": null}]}',
+    translatedOutput:
+      '{"events": [{"title": "Meeting with Marta", "startDate": "2024-12-03T15:00:00", "endDate": "2024-12-03T16:00:00", "location": "Café Central", "description": null, "attendees": [{"name": "Marta", "email": null}], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.Spanish]: {
+    input: 'Cena de equipo pasado mañana a las 20:30 en Casa Lucio',
+    output:
+      '{"events": [{"title": "Cena de equipo", "startDate": "2024-12-04T20:30:00", "endDate": "2024-12-04T21:30:00", "location": "Casa Lucio", "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.French]: {
+    input: 'Déjeuner avec Paul vendredi à 12h30 au Café de Flore',
+    output:
+      '{"events": [{"title": "Déjeuner avec Paul", "startDate": "2024-12-06T12:30:00", "endDate": "2024-12-06T13:30:00", "location": "Café de Flore", "description": null, "attendees": [{"name": "Paul", "email": null}], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.German]: {
+    input: 'Zahnarzttermin übermorgen um 9 Uhr',
+    output:
+      '{"events": [{"title": "Zahnarzttermin", "startDate": "2024-12-04T09:00:00", "endDate": "2024-12-04T10:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.Portuguese]: {
+    input: 'Reunião de equipe na próxima segunda-feira às 14h',
+    output:
+      '{"events": [{"title": "Reunião de equipe", "startDate": "2024-12-09T14:00:00", "endDate": "2024-12-09T15:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.Chinese]: {
+    input: '明天下午3点在302会议室开项目周会',
+    output:
+      '{"events": [{"title": "项目周会", "startDate": "2024-12-03T15:00:00", "endDate": "2024-12-03T16:00:00", "location": "302会议室", "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.Japanese]: {
+    input: '12月5日(木) 18時から渋谷で忘年会',
+    output:
+      '{"events": [{"title": "忘年会", "startDate": "2024-12-05T18:00:00", "endDate": "2024-12-05T19:00:00", "location": "渋谷", "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+  [Language.Korean]: {
+    input: '다음 주 화요일 오후 2시 팀 회의',
+    output:
+      '{"events": [{"title": "팀 회의", "startDate": "2024-12-10T14:00:00", "endDate": "2024-12-10T15:00:00", "location": null, "description": null, "attendees": [], "timeZone": null, "recurrence": null}]}',
+  },
+}
+
+/**
+ * The language rule: keep the language of the text, or translate titles and
+ * descriptions into the language setting
+ */
+export function buildOutputLanguageRule(
+  language: Exclude<Language, Language.Auto>,
+  translate: boolean,
+): string {
+  return translate
+    ? `Write "title" and "description" in ${LANGUAGE_TEXT[language]}, translating them when the text is in another language; keep names, places and email addresses as written`
+    : 'Keep "title" and "description" in the language of the text; do not translate them'
+}
+
+export function formatLanguageExample(
+  language: Exclude<Language, Language.Auto>,
+  translate: boolean,
+): string {
+  const example = LANGUAGE_EXAMPLES[language]
+  const output = (translate && example.translatedOutput) || example.output
+  return `Input: "${example.input}"\nOutput: ${output}\n\n`
+}
+
+const TEXT_HEADING = '**Text to process:**'
+// Placeholders added by later versions, with what goes before the text of
+// custom templates that leave them out
+const LATE_PLACEHOLDERS: [string, string][] = [
+  ['outputLanguage', '**Language Rules:**\n- ${outputLanguage}\n\n'],
+  ['languageExamples', '${languageExamples}'],
+  ['corrections', '${corrections}'],
+]
+
+const CORRECTIONS_HEADING =
+  '**Past corrections by this user** (follow the same conventions for similar texts; other fields are extracted as usual):'
+
+// The confirmation form drops seconds; examples keep the output format
+const withSeconds = (date: string) => date.replace(/T\d{2}:\d{2}$/, '$&:00')
+
+/**
+ * Earlier results the user corrected, as examples of their own conventions.
+ * Each one carries the reference date it was made on, so relative dates in
+ * the example still add up.
+ */
+export function formatCorrectionExamples(corrections: ExtractionCorrection[]): string {
+  if (corrections.length === 0) return ''
+  const examples = corrections.map((correction) => {
+    const { title, startDate, endDate, location, description } = correction.corrected
+    const output = {
+      title,
+      startDate: withSeconds(startDate),
+      endDate: endDate ? withSeconds(endDate) : null,
+      location: location || null,
+      description: description || null,
+    }
+    const changes = getChangedFields(correction.extracted, correction.corrected).map(
+      (field) => `${field} (was ${JSON.stringify(correction.extracted[field] || null)})`,
+    )
+    const input = JSON.stringify(correction.originalText)
+    return [
+      `Input (reference date ${correction.referenceDate}): ${input}`,
+      `Output: {"events": [${JSON.stringify(output)}]}`,
+      `Corrected by the user: ${changes.join(', ')}`,
+    ].join('\n')
+  })
+  return `${CORRECTIONS_HEADING}\n\n${examples.join('\n\n')}\n\n`
+}
+
+export interface PromptOptions {
+  /** The email the text was selected in */
+  emailContext?: EmailContext | null
+  /** A custom template; the built-in one when empty */
+  template?: string | null
+  /** The user's relevant past corrections (see selectRelevantCorrections) */
+  corrections?: ExtractionCorrection[]
+  /** The language setting, Auto when not given */
+  language?: Language
+  /** Translate titles and descriptions into the language setting */
+  translate?: boolean
+}
+
+/**
+ * Fills in the prompt for the given text, using the built-in template unless
+ * a custom one is given. For text selected in an email the temporal context
+ * is built from the sent date (see email-context).
+ */
+export function buildPrompt(
+  text: string,
+  temporalContext: TemporalContext,
+  { emailContext, template, corrections = [], language, translate = false }: PromptOptions = {},
+): string {
+  const outputLanguage = resolveLanguage(language || Language.Auto)
+  const values: Record<string, string> = {
+    referenceDate: temporalContext.date,
+    referenceWeekday: temporalContext.weekday,
+    referenceTime: temporalContext.time,
+    timezone: temporalContext.timeZone,
+    referenceYear: String(temporalContext.year),
+    weekStart: temporalContext.weekStart,
+    dateOrder: DATE_ORDER_PROMPT_TEXT[temporalContext.dateOrder],
+    emailContext: emailContext ? '\n' + buildEmailPromptContext(emailContext) : '',
+    outputLanguage: buildOutputLanguageRule(outputLanguage, translate),
+    languageExamples: formatLanguageExample(outputLanguage, translate),
+    corrections: formatCorrectionExamples(corrections),
+    text,
+  }
+
+  // Custom templates may leave the text out; it is required
+  const baseTemplate = template || DEFAULT_PROMPT_TEMPLATE
+  const withText = baseTemplate.includes('${text}')
+    ? baseTemplate
+    : `${baseTemplate.trimEnd()}\n\n${TEXT_HEADING}\n\${text}\n`
+  // Templates saved before the language rule, its example or corrections
+  // existed get the missing ones right before the text
+  const missingParts = LATE_PLACEHOLDERS.filter(([name]) => !withText.includes('${' + name + '}'))
+    .map(([, part]) => part)
+    .join('')
+  const fullTemplate = withText.includes(TEXT_HEADING)
+    ? withText.replace(TEXT_HEADING, missingParts + TEXT_HEADING)
+    : withText.replace('${text}', missingParts + '${text}')
+
+  // One pass over the template: every occurrence is filled, inserted values
+  // (the text, stored corrections) are never scanned for placeholders again,
+  // and "$&" and similar sequences stay literal. Unknown ones are kept as written.
+  return fullTemplate.replace(/\$\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder,
+  )
+}
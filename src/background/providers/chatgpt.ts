@@ -1,6 +1,7 @@
 import ExpiryMap from 'expiry-map'
 import { v4 as uuidv4 } from 'uuid'
 import { fetchSSE } from '../fetch-sse'
+import { unsupportedImageError } from '../image-extraction'
 import { GenerateAnswerParams, Provider } from '../types'
 
 async function request(token: string, method: string, path: string, data?: unknown) {
@@ -70,6 +71,11 @@ export class ChatGPTProvider implements Provider {
   }
 
   async generateAnswer(params: GenerateAnswerParams) {
+    if (params.image) {
+      params.onEvent({ type: 'error', data: { error: unsupportedImageError('ChatGPT') } })
+      return {}
+    }
+
     let conversationId: string | undefined
 
     const cleanup = () => {
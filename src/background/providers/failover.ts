@@ -0,0 +1,167 @@
+import { ProviderType } from '../../config'
+import { logger } from '../../logging'
+import { ResponseError } from '../fetch-sse'
+import { GenerateAnswerParams, Provider } from '../types'
+
+/**
+ * Tries the providers of the user's chain in order. Rate limits (429) and
+ * server errors (5xx) are retried with exponential backoff, waiting as long
+ * as Retry-After asks; bad keys, used up quotas, timeouts and retries that
+ * keep failing move on to the next provider. Only the last error reaches the
+ * caller; answer and done events carry the provider that answered.
+ */
+
+export interface ProviderChainEntry {
+  type: ProviderType
+  provider: Provider
+}
+
+export const MAX_RETRIES = 2
+export const BASE_RETRY_DELAY_MS = 1000
+// A provider asking for a longer wait is skipped instead
+export const MAX_RETRY_DELAY_MS = 10000
+// Without a first answer by then, the next provider gets a chance. The last
+// provider has no timeout of its own: the caller's signal ends it, so the
+// modal's "keep waiting" keeps it running.
+export const PROVIDER_RESPONSE_TIMEOUT_MS = 20000
+
+export type ProviderErrorAction = 'retry' | 'failover'
+
+/** Whether the same provider is worth asking again */
+export function getErrorAction(error: unknown): ProviderErrorAction {
+  const status = (error as Partial<ResponseError>)?.status
+  const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase()
+  // A used up quota also answers 429, but waiting does not bring it back
+  if (status === 429) {
+    return message.includes('quota') || message.includes('billing') ? 'failover' : 'retry'
+  }
+  return status !== undefined && status >= 500 ? 'retry' : 'failover'
+}
+
+/**
+ * Wait before the given retry (0 for the first), or null when the provider
+ * asked for longer than is worth waiting
+ */
+export function getRetryDelay(retry: number, retryAfterMs?: number): number | null {
+  if (retryAfterMs !== undefined) return retryAfterMs <= MAX_RETRY_DELAY_MS ? retryAfterMs : null
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** retry, MAX_RETRY_DELAY_MS)
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeoutId)
+        resolve()
+      },
+      { once: true },
+    )
+  })
+}
+
+export class FailoverProvider implements Provider {
+  constructor(readonly chain: ProviderChainEntry[]) {
+    this.chain = chain
+  }
+
+  // One request to one provider, timed out only when another provider comes
+  // next. Resolves with the error it reported, or null once it is done.
+  private async attempt(
+    entry: ProviderChainEntry,
+    params: GenerateAnswerParams,
+    hasNext: boolean,
+  ): Promise<unknown | null> {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    params.signal?.addEventListener('abort', abort)
+
+    let answered = false
+    let timedOut = false
+    let reportedError: unknown = null
+    const timeoutId = hasNext
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, PROVIDER_RESPONSE_TIMEOUT_MS)
+      : undefined
+
+    try {
+      await entry.provider.generateAnswer({
+        ...params,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (timedOut) return
+          if (event.type === 'error') {
+            reportedError = event.data.error
+            return
+          }
+          if (event.type === 'answer' && !answered) {
+            answered = true
+            clearTimeout(timeoutId)
+          }
+          params.onEvent({ ...event, provider: entry.type })
+        },
+      })
+    } catch (error) {
+      reportedError = error
+    } finally {
+      clearTimeout(timeoutId)
+      params.signal?.removeEventListener('abort', abort)
+    }
+
+    if (timedOut) {
+      return new Error(
+        `${entry.type} did not respond within ${PROVIDER_RESPONSE_TIMEOUT_MS / 1000} seconds`,
+      )
+    }
+    return reportedError
+  }
+
+  async generateAnswer(params: GenerateAnswerParams) {
+    let lastError: unknown = null
+
+    for (const [index, entry] of this.chain.entries()) {
+      for (let retry = 0; ; retry++) {
+        if (params.signal?.aborted) return {}
+        const error = await this.attempt(entry, params, index < this.chain.length - 1)
+        if (!error) {
+          logger.info('background', 'Provider answered', {
+            provider: entry.type,
+            retries: retry,
+            failedOver: this.chain.slice(0, index).map((item) => item.type),
+          })
+          return {}
+        }
+        if (params.signal?.aborted) return {}
+
+        lastError = error
+        const message = error instanceof Error ? error.message : String(error)
+        const delay =
+          getErrorAction(error) === 'retry' && retry < MAX_RETRIES
+            ? getRetryDelay(retry, (error as Partial<ResponseError>).retryAfterMs)
+            : null
+        if (delay === null) {
+          logger.warn('background', 'Provider failed', {
+            provider: entry.type,
+            error: message,
+            next: this.chain[index + 1]?.type ?? null,
+          })
+          break
+        }
+
+        logger.warn('background', 'Provider request failed, retrying', {
+          provider: entry.type,
+          error: message,
+          retry: retry + 1,
+          delayMs: delay,
+        })
+        await wait(delay, params.signal)
+      }
+    }
+
+    params.onEvent({ type: 'error', data: { error: lastError } })
+    return {}
+  }
+}
@@ -1,3 +1,4 @@
+import { fetchSSE } from '../fetch-sse'
 import { GenerateAnswerParams, Provider } from '../types'
 
 export class GeminiProvider implements Provider {
@@ -8,18 +9,30 @@ export class GeminiProvider implements Provider {
 
   async generateAnswer(params: GenerateAnswerParams) {
     let result = ''
-    
+    let finishReason: string | undefined
+
     try {
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`, {
+      // Streamed, so the confirmation modal can fill in fields while slower
+      // models are still answering
+      await fetchSSE(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           contents: [{
-            parts: [{
-              text: params.prompt
-            }]
+            parts: [
+              {
+                text: params.prompt
+              },
+              // Posters and screenshots go along as inline image parts
+              ...(params.image ? [{
+                inline_data: {
+                  mime_type: params.image.mimeType,
+                  data: params.image.data
+                }
+              }] : [])
+            ]
           }],
           generationConfig: {
             temperature: 0.1,
@@ -47,30 +60,21 @@ export class GeminiProvider implements Provider {
           ]
         }),
         signal: params.signal,
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`
-        
-        if (errorData.error) {
-          if (errorData.error.message) {
-            errorMessage = errorData.error.message
-          } else if (errorData.error.details) {
-            errorMessage = errorData.error.details[0]?.reason || errorMessage
+        onMessage(message) {
+          let data
+          try {
+            data = JSON.parse(message)
+          } catch (err) {
+            console.error(err)
+            return
           }
-        }
-        
-        throw new Error(errorMessage)
-      }
+          const candidate = data.candidates?.[0]
+          if (!candidate) return
+          finishReason = candidate.finishReason || finishReason
+          const text = (candidate.content?.parts || []).map((part: { text?: string }) => part.text || '').join('')
+          if (!text) return
 
-      const data = await response.json()
-      
-      if (data.candidates && data.candidates.length > 0) {
-        const candidate = data.candidates[0]
-        if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
-          result = candidate.content.parts[0].text || ''
-          
+          result += text
           params.onEvent({
             type: 'answer',
             data: {
@@ -79,11 +83,11 @@ export class GeminiProvider implements Provider {
               conversationId: 'gemini-' + Date.now(),
             },
           })
-        } else {
-          throw new Error('No content generated by Gemini')
-        }
-      } else {
-        throw new Error('No candidates returned by Gemini')
+        },
+      })
+
+      if (!result) {
+        throw new Error(finishReason ? `No content generated by Gemini (${finishReason})` : 'No candidates returned by Gemini')
       }
 
       params.onEvent({ type: 'done' })
@@ -0,0 +1,34 @@
+import { unsupportedImageError } from '../image-extraction'
+import { parseEventText } from '../local-parser'
+import { GenerateAnswerParams, Provider } from '../types'
+
+/**
+ * Parses the selected text on the device with the rule-based parser, so no
+ * text leaves the browser and no network connection is needed
+ */
+export class LocalProvider implements Provider {
+  async generateAnswer(params: GenerateAnswerParams) {
+    if (params.image) {
+      params.onEvent({ type: 'error', data: { error: unsupportedImageError('The local parser') } })
+      return {}
+    }
+
+    const events = parseEventText(
+      params.text ?? params.prompt,
+      params.referenceDate,
+      params.dateOrder,
+    )
+
+    params.onEvent({
+      type: 'answer',
+      data: {
+        text: JSON.stringify({ events }),
+        messageId: 'local-' + Date.now(),
+        conversationId: 'local-' + Date.now(),
+      },
+    })
+    params.onEvent({ type: 'done' })
+
+    return {}
+  }
+}
@@ -1,4 +1,5 @@
 import { fetchSSE } from '../fetch-sse'
+import { unsupportedImageError } from '../image-extraction'
 import { GenerateAnswerParams, Provider } from '../types'
 
 export class OpenAIProvider implements Provider {
@@ -15,6 +16,11 @@ export class OpenAIProvider implements Provider {
   }
 
   async generateAnswer(params: GenerateAnswerParams) {
+    if (params.image) {
+      params.onEvent({ type: 'error', data: { error: unsupportedImageError('OpenAI') } })
+      return {}
+    }
+
     let result = ''
     await fetchSSE('https://api.openai.com/v1/completions', {
       method: 'POST',
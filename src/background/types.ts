@@ -1,16 +1,39 @@
+import { ProviderType } from '../config'
 import { Answer } from '../messaging'
+import { NumericDateOrder } from '../temporal-context'
 
 export type Event =
   | {
       type: 'answer'
       data: Answer
+      /** Set by the failover chain: the provider that is answering */
+      provider?: ProviderType
     }
   | {
       type: 'done'
+      provider?: ProviderType
     }
+  | {
+      type: 'error'
+      data: { error: unknown }
+    }
+
+export interface InlineImage {
+  mimeType: string
+  /** Base64 encoded image data */
+  data: string
+}
 
 export interface GenerateAnswerParams {
   prompt: string
+  /** The text the prompt was built from, for providers that do not use a language model */
+  text?: string
+  /** Day relative dates refer to (the sent date for email selections), for the same providers */
+  referenceDate?: Date
+  /** How they read numeric dates such as "03/04" */
+  dateOrder?: NumericDateOrder
+  /** Image the events are in; providers without vision support report an error */
+  image?: InlineImage
   onEvent: (event: Event) => void
   signal?: AbortSignal
 }
@@ -0,0 +1,57 @@
+import { EventAttendee } from './attendees'
+import { EventRecurrence } from './recurrence'
+
+/**
+ * Shape of an event as it travels between the background script, the
+ * confirmation modal and the calendar outputs.
+ *
+ * Dates follow the prompt convention: "YYYY-MM-DD" for all-day events and
+ * "YYYY-MM-DDTHH:mm[:ss]" (wall-clock time, no timezone suffix) for timed
+ * events. Timed values are read in `timeZone` when set, otherwise in the
+ * browser's local zone.
+ */
+export interface CalendarEventData {
+  title: string
+  startDate: string
+  endDate: string
+  location: string
+  description: string
+  recurrence?: EventRecurrence | null
+  /** IANA zone the event times are written in, e.g. "America/New_York" */
+  timeZone?: string | null
+  attendees?: EventAttendee[]
+  originalText?: string
+}
+
+const ALL_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Checks whether a date string uses the all-day ("YYYY-MM-DD") format
+ */
+export function isAllDayDate(dateString: string | null | undefined): boolean {
+  return !!dateString && ALL_DAY_PATTERN.test(dateString)
+}
+
+/**
+ * Builds the details text shared by all calendar outputs: the description,
+ * guests that cannot be invited (no email address), and the original
+ * selected text when it adds information.
+ */
+export function buildEventDetails(eventData: Partial<CalendarEventData>): string {
+  let detailsText = eventData.description || ''
+
+  const guestNames = (eventData.attendees || [])
+    .filter((attendee) => !attendee.email && attendee.name)
+    .map((attendee) => attendee.name)
+  if (guestNames.length > 0) {
+    detailsText += (detailsText ? '\n\n' : '') + `Guests: ${guestNames.join(', ')}`
+  }
+
+  if (
+    eventData.originalText &&
+    eventData.originalText.trim() !== (eventData.description || '').trim()
+  ) {
+    detailsText += (detailsText ? '\n\n---\n' : '') + `Original Text:\n${eventData.originalText}`
+  }
+  return detailsText
+}
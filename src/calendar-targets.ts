@@ -0,0 +1,244 @@
+import { getAttendeeEmails } from './attendees'
+import { buildEventDetails, CalendarEventData, isAllDayDate } from './calendar-event'
+import { CalendarTargetType, CALENDAR_TARGET_TEXT } from './config'
+import { buildIcsCalendar, buildIcsFilename } from './ics'
+import { buildRRule } from './recurrence'
+import { isValidTimeZone, parseDateTimeInZone } from './timezones'
+import { calculateNextDay, formatDateTimeForGoogle } from './utils'
+
+/**
+ * What a calendar target produces for an event: either a deep link to open
+ * in a new window, or a file to download.
+ */
+export type CalendarTargetOutput =
+  | { type: 'url'; url: string }
+  | { type: 'file'; filename: string; mimeType: string; content: string }
+
+export interface CalendarTarget {
+  type: CalendarTargetType
+  name: string
+  /**
+   * Returns null when the event dates cannot be converted for this target
+   */
+  build(eventData: CalendarEventData): CalendarTargetOutput | null
+}
+
+const DEFAULT_EVENT_TITLE = 'Event from Text'
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000
+
+/**
+ * Turns a zoned wall-clock time into an absolute ISO string, so the UTC
+ * formatters below do not read it in the browser's local zone. All-day
+ * dates and events without a timezone are returned unchanged.
+ */
+function toAbsoluteDateTime(dateString: string, timeZone: string | null | undefined): string {
+  if (!dateString || isAllDayDate(dateString) || !isValidTimeZone(timeZone)) return dateString
+  const date = parseDateTimeInZone(dateString, timeZone)
+  return date ? date.toISOString() : dateString
+}
+
+/**
+ * Google "dates" parameter: YYYYMMDD/YYYYMMDD (exclusive end) for all-day
+ * events, YYYYMMDDTHHmmssZ/YYYYMMDDTHHmmssZ for timed events.
+ */
+function buildGoogleDates(eventData: CalendarEventData): string | null {
+  const formattedStartDate = formatDateTimeForGoogle(
+    toAbsoluteDateTime(eventData.startDate, eventData.timeZone),
+    false, // Don't auto-adjust years from user input
+  )
+  const formattedEndDate = eventData.endDate
+    ? formatDateTimeForGoogle(toAbsoluteDateTime(eventData.endDate, eventData.timeZone), false)
+    : null
+
+  if (!formattedStartDate) {
+    return null
+  }
+
+  const startIsAllDay = formattedStartDate.length === 8
+  if (formattedEndDate) {
+    const endIsAllDay = formattedEndDate.length === 8
+    if (startIsAllDay && endIsAllDay)
+      return `${formattedStartDate}/${calculateNextDay(formattedEndDate)}`
+    if (!startIsAllDay && !endIsAllDay) return `${formattedStartDate}/${formattedEndDate}`
+    return startIsAllDay
+      ? `${formattedStartDate}/${calculateNextDay(formattedStartDate)}`
+      : `${formattedStartDate}/${formattedEndDate}`
+  }
+
+  return startIsAllDay
+    ? `${formattedStartDate}/${calculateNextDay(formattedStartDate)}`
+    : formattedStartDate
+}
+
+function buildGoogleOutput(eventData: CalendarEventData): CalendarTargetOutput | null {
+  const dates = buildGoogleDates(eventData)
+  if (!dates) return null
+
+  const calendarUrl = new URL('https://www.google.com/calendar/event')
+  calendarUrl.searchParams.set('action', 'TEMPLATE')
+  calendarUrl.searchParams.set('text', eventData.title || DEFAULT_EVENT_TITLE)
+  calendarUrl.searchParams.set('dates', dates)
+
+  const rrule = buildRRule(
+    eventData.recurrence,
+    isAllDayDate(eventData.startDate),
+    eventData.timeZone,
+  )
+  if (rrule) calendarUrl.searchParams.set('recur', `RRULE:${rrule}`)
+
+  // Show the event in the zone it was announced in; the dates are UTC already
+  if (isValidTimeZone(eventData.timeZone)) calendarUrl.searchParams.set('ctz', eventData.timeZone)
+
+  if (eventData.location) calendarUrl.searchParams.set('location', eventData.location)
+
+  const guestEmails = getAttendeeEmails(eventData.attendees)
+  if (guestEmails.length > 0) calendarUrl.searchParams.set('add', guestEmails.join(','))
+
+  const detailsText = buildEventDetails(eventData)
+  if (detailsText) calendarUrl.searchParams.set('details', detailsText)
+
+  return { type: 'url', url: calendarUrl.toString() }
+}
+
+/**
+ * Start and end as Date objects; a missing or earlier end falls back to the
+ * start date (all-day) or one hour after the start (timed).
+ */
+function resolveEventRange(
+  eventData: CalendarEventData,
+): { start: Date; end: Date; allDay: boolean } | null {
+  const allDay = isAllDayDate(eventData.startDate)
+  // Date-only strings parse as UTC midnight, date-times in the event's zone
+  const start = parseDateTimeInZone(eventData.startDate, eventData.timeZone)
+  if (!start) return null
+
+  let end = parseDateTimeInZone(eventData.endDate, eventData.timeZone)
+  if (allDay && !isAllDayDate(eventData.endDate)) end = null
+  if (!end || end < start) {
+    end = allDay ? start : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS)
+  }
+
+  return { start, end, allDay }
+}
+
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0]
+
+function addUtcDays(date: Date, days: number): Date {
+  const next = new Date(date.getTime())
+  next.setUTCDate(next.getUTCDate() + days)
+  return next
+}
+
+function buildOutlookOutput(
+  baseUrl: string,
+  eventData: CalendarEventData,
+): CalendarTargetOutput | null {
+  const range = resolveEventRange(eventData)
+  if (!range) return null
+
+  const calendarUrl = new URL(baseUrl)
+  calendarUrl.searchParams.set('path', '/calendar/action/compose')
+  calendarUrl.searchParams.set('rru', 'addevent')
+  calendarUrl.searchParams.set('subject', eventData.title || DEFAULT_EVENT_TITLE)
+
+  if (range.allDay) {
+    calendarUrl.searchParams.set('startdt', toDateOnly(range.start))
+    calendarUrl.searchParams.set('enddt', toDateOnly(addUtcDays(range.end, 1)))
+    calendarUrl.searchParams.set('allday', 'true')
+  } else {
+    calendarUrl.searchParams.set('startdt', range.start.toISOString())
+    calendarUrl.searchParams.set('enddt', range.end.toISOString())
+  }
+
+  if (eventData.location) calendarUrl.searchParams.set('location', eventData.location)
+
+  const guestEmails = getAttendeeEmails(eventData.attendees)
+  if (guestEmails.length > 0) calendarUrl.searchParams.set('to', guestEmails.join(','))
+
+  const detailsText = buildEventDetails(eventData)
+  if (detailsText) calendarUrl.searchParams.set('body', detailsText)
+
+  return { type: 'url', url: calendarUrl.toString() }
+}
+
+function buildYahooOutput(eventData: CalendarEventData): CalendarTargetOutput | null {
+  const range = resolveEventRange(eventData)
+  if (!range) return null
+
+  const calendarUrl = new URL('https://calendar.yahoo.com/')
+  calendarUrl.searchParams.set('v', '60')
+  calendarUrl.searchParams.set('title', eventData.title || DEFAULT_EVENT_TITLE)
+
+  if (range.allDay) {
+    calendarUrl.searchParams.set('st', toDateOnly(range.start).replace(/-/g, ''))
+    calendarUrl.searchParams.set('et', toDateOnly(range.end).replace(/-/g, ''))
+    calendarUrl.searchParams.set('dur', 'allday')
+  } else {
+    const formatUtc = (date: Date) =>
+      date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '')
+    calendarUrl.searchParams.set('st', formatUtc(range.start))
+    calendarUrl.searchParams.set('et', formatUtc(range.end))
+  }
+
+  if (eventData.location) calendarUrl.searchParams.set('in_loc', eventData.location)
+
+  const detailsText = buildEventDetails(eventData)
+  if (detailsText) calendarUrl.searchParams.set('desc', detailsText)
+
+  return { type: 'url', url: calendarUrl.toString() }
+}
+
+/**
+ * One .ics file for the given events, named after the event when there is
+ * only one. Null when none of them has a readable start date.
+ */
+export function buildIcsFileOutput(events: CalendarEventData[]): CalendarTargetOutput | null {
+  const content = buildIcsCalendar(events)
+  if (!content) return null
+  return {
+    type: 'file',
+    filename: buildIcsFilename(events.length === 1 ? events[0].title : 'events'),
+    mimeType: 'text/calendar',
+    content,
+  }
+}
+
+/**
+ * A data URL for a file output. Unlike blob URLs, these can be downloaded
+ * from the service worker.
+ */
+export function buildFileDataUrl(output: { mimeType: string; content: string }): string {
+  return `data:${output.mimeType};charset=utf-8,${encodeURIComponent(output.content)}`
+}
+
+const targetBuilders: Record<CalendarTargetType, CalendarTarget['build']> = {
+  [CalendarTargetType.Google]: buildGoogleOutput,
+  [CalendarTargetType.Outlook]: (eventData) =>
+    buildOutlookOutput('https://outlook.live.com/calendar/0/deeplink/compose', eventData),
+  [CalendarTargetType.Office365]: (eventData) =>
+    buildOutlookOutput('https://outlook.office.com/calendar/0/deeplink/compose', eventData),
+  [CalendarTargetType.Yahoo]: buildYahooOutput,
+  [CalendarTargetType.Ics]: (eventData) => buildIcsFileOutput([eventData]),
+}
+
+export const CALENDAR_TARGETS: CalendarTarget[] = Object.values(CalendarTargetType).map((type) => ({
+  type,
+  name: CALENDAR_TARGET_TEXT[type].title,
+  build: targetBuilders[type],
+}))
+
+/**
+ * Looks up a calendar target, falling back to Google Calendar for unknown
+ * or missing values (e.g. settings saved by an older version).
+ */
+export function getCalendarTarget(
+  type: CalendarTargetType | string | null | undefined,
+): CalendarTarget {
+  return (
+    CALENDAR_TARGETS.find((target) => target.type === type) ||
+    CALENDAR_TARGETS.find((target) => target.type === CalendarTargetType.Google)!
+  )
+}
@@ -1,5 +1,6 @@
 import { defaults } from 'lodash-es'
 import Browser from 'webextension-polyfill'
+import { ProviderChainEntry } from './background/providers/failover'
 import { OpenAIProvider } from './background/providers/openai'
 import { getDefaultKeyForProvider, isDefaultKey } from './secure-keys'
 
@@ -39,10 +40,66 @@ export enum Language {
   Portuguese = 'portuguese',
 }
 
+export const LANGUAGE_TEXT: Record<Language, string> = {
+  [Language.Auto]: 'Automatic (browser language)',
+  [Language.English]: 'English',
+  [Language.Chinese]: 'Chinese',
+  [Language.Spanish]: 'Spanish',
+  [Language.French]: 'French',
+  [Language.Korean]: 'Korean',
+  [Language.Japanese]: 'Japanese',
+  [Language.German]: 'German',
+  [Language.Portuguese]: 'Portuguese',
+}
+
+export enum DateOrder {
+  Auto = 'auto',
+  DayMonth = 'dayMonth',
+  MonthDay = 'monthDay',
+}
+
+export const DATE_ORDER_TEXT = {
+  [DateOrder.Auto]: {
+    title: 'Automatic',
+    desc: 'Follows the language setting, or the browser language when it is set to auto',
+  },
+  [DateOrder.DayMonth]: { title: 'Day first (DD/MM)', desc: '03/04 is read as 3 April' },
+  [DateOrder.MonthDay]: { title: 'Month first (MM/DD)', desc: '03/04 is read as March 4' },
+}
+
+export enum CalendarTargetType {
+  Google = 'google',
+  Outlook = 'outlook',
+  Office365 = 'office365',
+  Yahoo = 'yahoo',
+  Ics = 'ics',
+}
+
+export const CALENDAR_TARGET_TEXT = {
+  [CalendarTargetType.Google]: { title: 'Google Calendar', desc: 'Opens a prefilled Google Calendar event' },
+  [CalendarTargetType.Outlook]: {
+    title: 'Outlook.com',
+    desc: 'Opens a prefilled event in personal Outlook.com calendars',
+  },
+  [CalendarTargetType.Office365]: {
+    title: 'Office 365',
+    desc: 'Opens a prefilled event in Microsoft 365 work or school calendars',
+  },
+  [CalendarTargetType.Yahoo]: { title: 'Yahoo Calendar', desc: 'Opens a prefilled Yahoo Calendar event' },
+  [CalendarTargetType.Ics]: {
+    title: 'Download .ics',
+    desc: 'Downloads an iCalendar file for Apple Calendar, Thunderbird and others',
+  },
+}
+
 const userConfigWithDefaultValue = {
   triggerMode: TriggerMode.Always,
   theme: Theme.Auto,
   language: Language.Auto,
+  // Translate extracted titles and descriptions into the language setting
+  translateEventText: false,
+  dateOrder: DateOrder.Auto,
+  calendarTarget: CalendarTargetType.Google,
 }
 
 export type UserConfig = typeof userConfigWithDefaultValue
@@ -60,6 +117,7 @@ export async function updateUserConfig(updates: Partial<UserConfig>) {
 export enum ProviderType {
   GPT3 = 'gpt3',
   GEMINI = 'gemini',
+  LOCAL = 'local',
 }
 
 interface GPT3ProviderConfig {
@@ -74,6 +132,8 @@ interface GeminiProviderConfig {
 
 export interface ProviderConfigs {
   provider: ProviderType
+  /** Tried in this order when the selected provider fails */
+  fallbacks: ProviderType[]
   configs: {
     [ProviderType.GPT3]: GPT3ProviderConfig | undefined
     [ProviderType.GEMINI]: GeminiProviderConfig | undefined
@@ -81,12 +141,16 @@ export interface ProviderConfigs {
 }
 
 export async function getProviderConfigs(): Promise<ProviderConfigs> {
-  const { provider = ProviderType.GPT3 } = await Browser.storage.local.get('provider')
+  const { provider = ProviderType.GPT3, providerFallbacks = [] } = await Browser.storage.local.get([
+    'provider',
+    'providerFallbacks',
+  ])
   const gpt3ConfigKey = `provider:${ProviderType.GPT3}`
   const geminiConfigKey = `provider:${ProviderType.GEMINI}`
   const result = await Browser.storage.local.get([gpt3ConfigKey, geminiConfigKey])
   return {
     provider,
+    fallbacks: providerFallbacks,
     configs: {
       [ProviderType.GPT3]: result[gpt3ConfigKey],
       [ProviderType.GEMINI]: result[geminiConfigKey],
@@ -94,16 +158,17 @@ export async function getProviderConfigs(): Promise<ProviderConfigs> {
   }
 }
 
-export async function getProvider(): Promise<OpenAIProvider | import('./background/providers/gemini').GeminiProvider> {
-  const configs = await getProviderConfigs()
-
-  console.log('[Config] Provider selection requested:', {
-    selectedProvider: configs.provider,
-    hasGeminiConfig: !!configs.configs[ProviderType.GEMINI],
-    hasOpenAIConfig: !!configs.configs[ProviderType.GPT3]
-  })
+async function createProvider(
+  type: ProviderType,
+  configs: ProviderConfigs,
+): Promise<ProviderChainEntry> {
+  if (type === ProviderType.LOCAL) {
+    const { LocalProvider } = await import('./background/providers/local')
+    console.log('[Config] Creating local provider (no AI, no API key)')
+    return { type, provider: new LocalProvider() }
+  }
 
-  if (configs.provider === ProviderType.GEMINI) {
+  if (type === ProviderType.GEMINI) {
     const { GeminiProvider } = await import('./background/providers/gemini')
     const geminiConfig = configs.configs[ProviderType.GEMINI]
 
@@ -118,7 +183,7 @@ export async function getProvider(): Promise<OpenAIProvider | import('./backgrou
       keySource: isUsingDefaultKey ? 'default' : 'user'
     })
 
-    return new GeminiProvider(apiKey, model)
+    return { type, provider: new GeminiProvider(apiKey, model) }
   }
 
   // For OpenAI provider
@@ -132,7 +197,7 @@ export async function getProvider(): Promise<OpenAIProvider | import('./backgrou
       keySource: 'user',
       isUsingDefaultKey: false
     })
-    return new OpenAIProvider(gpt3Config.apiKey, model)
+    return { type, provider: new OpenAIProvider(gpt3Config.apiKey, model) }
   }
 
   // If no user OpenAI key, check if default key is valid
@@ -154,7 +219,7 @@ export async function getProvider(): Promise<OpenAIProvider | import('./backgrou
       reason: 'OpenAI key unavailable'
     })
 
-    return new GeminiProvider(apiKey, model)
+    return { type: ProviderType.GEMINI, provider: new GeminiProvider(apiKey, model) }
   }
 
   // Use default OpenAI key as last resort (though this shouldn't happen with demo key)
@@ -166,7 +231,40 @@ export async function getProvider(): Promise<OpenAIProvider | import('./backgrou
     warning: 'Using demo key - may not work'
   })
 
-  return new OpenAIProvider(defaultOpenAIKey, model)
+  return { type, provider: new OpenAIProvider(defaultOpenAIKey, model) }
+}
+
+/**
+ * The selected provider followed by the fallbacks, each provider once
+ */
+export async function getProviderChain(): Promise<ProviderChainEntry[]> {
+  const configs = await getProviderConfigs()
+  const chain: ProviderChainEntry[] = []
+  for (const type of [configs.provider, ...configs.fallbacks]) {
+    const entry = await createProvider(type, configs)
+    if (!chain.some((item) => item.type === entry.type)) chain.push(entry)
+  }
+  return chain
+}
+
+/**
+ * The provider chain as one provider. Its answer and done events say which
+ * provider of the chain answered.
+ */
+export async function getProvider(): Promise<
+  import('./background/providers/failover').FailoverProvider
+> {
+  const configs = await getProviderConfigs()
+
+  console.log('[Config] Provider selection requested:', {
+    selectedProvider: configs.provider,
+    fallbacks: configs.fallbacks,
+    hasGeminiConfig: !!configs.configs[ProviderType.GEMINI],
+    hasOpenAIConfig: !!configs.configs[ProviderType.GPT3]
+  })
+
+  const { FailoverProvider } = await import('./background/providers/failover')
+  return new FailoverProvider(await getProviderChain())
 }
 
 /**
@@ -175,6 +273,11 @@ export async function getProvider(): Promise<OpenAIProvider | import('./backgrou
 export async function isUsingDefaultKey(): Promise<boolean> {
   const configs = await getProviderConfigs()
 
+  // The local parser does not use an API key at all
+  if (configs.provider === ProviderType.LOCAL) {
+    return false
+  }
+
   if (configs.provider === ProviderType.GEMINI) {
     const geminiConfig = configs.configs[ProviderType.GEMINI]
     const apiKey = geminiConfig?.apiKey || getDefaultKeyForProvider('gemini')
@@ -200,6 +303,8 @@ export async function getKeyConfigInfo(): Promise<{
   let hasUserKey = false
   if (configs.provider === ProviderType.GEMINI) {
     hasUserKey = !!(configs.configs[ProviderType.GEMINI]?.apiKey)
+  } else if (configs.provider === ProviderType.LOCAL) {
+    hasUserKey = false
   } else {
     hasUserKey = !!(configs.configs[ProviderType.GPT3]?.apiKey)
   }
@@ -214,10 +319,51 @@ export async function getKeyConfigInfo(): Promise<{
 export async function saveProviderConfigs(
   provider: ProviderType,
   configs: ProviderConfigs['configs'],
+  fallbacks: ProviderType[],
 ) {
   return Browser.storage.local.set({
     provider,
+    providerFallbacks: fallbacks.filter((type) => type !== provider),
     [`provider:${ProviderType.GPT3}`]: configs[ProviderType.GPT3],
     [`provider:${ProviderType.GEMINI}`]: configs[ProviderType.GEMINI],
   })
 }
+
+/**
+ * A named, user-edited version of the extraction prompt
+ */
+export interface PromptTemplate {
+  id: string
+  name: string
+  template: string
+  updatedAt: number
+}
+
+export interface PromptTemplateSettings {
+  templates: PromptTemplate[]
+  /** Version used for extraction; null for the built-in prompt */
+  activeTemplateId: string | null
+}
+
+export async function getPromptTemplateSettings(): Promise<PromptTemplateSettings> {
+  const { promptTemplates = [], activePromptTemplateId = null } = await Browser.storage.local.get([
+    'promptTemplates',
+    'activePromptTemplateId',
+  ])
+  return { templates: promptTemplates, activeTemplateId: activePromptTemplateId }
+}
+
+export async function savePromptTemplateSettings(settings: PromptTemplateSettings) {
+  return Browser.storage.local.set({
+    promptTemplates: settings.templates,
+    activePromptTemplateId: settings.activeTemplateId,
+  })
+}
+
+/**
+ * Template used for extraction, or null when the built-in prompt is active
+ */
+export async function getActivePromptTemplate(): Promise<string | null> {
+  const { templates, activeTemplateId } = await getPromptTemplateSettings()
+  return templates.find((template) => template.id === activeTemplateId)?.template || null
+}
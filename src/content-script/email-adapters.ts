@@ -0,0 +1,151 @@
+import { EventAttendee, normalizeAttendees, parseAttendee } from '../attendees'
+
+/**
+ * Site adapters for web mail. When the selection is inside an open message,
+ * they read the subject, sender, recipients and sent time around it so
+ * relative dates ("tomorrow") can be resolved against the day the mail was
+ * sent and the people on the mail can be invited.
+ *
+ * Both clients change their markup regularly; every selector is best effort
+ * and a missing field is simply left empty.
+ */
+
+export interface EmailContext {
+  source: 'gmail' | 'outlook'
+  subject: string
+  sender: EventAttendee | null
+  recipients: EventAttendee[]
+  /** Local "YYYY-MM-DDTHH:mm:ss" the message was sent at, if shown */
+  sentAt: string | null
+}
+
+interface SiteAdapter {
+  source: EmailContext['source']
+  matches(hostname: string): boolean
+  /** The open message containing the node, or null outside of one */
+  findMessage(node: Node): Element | null
+  read(message: Element): Omit<EmailContext, 'source'>
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+const cleanText = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim()
+
+const closestElement = (node: Node) => (node instanceof Element ? node : node.parentElement)
+
+/**
+ * Reads the displayed send time ("Tue, Mar 4, 2025, 10:12 AM (2 days ago)",
+ * "Tue 3/4/2025 10:12 AM") as local date and time
+ */
+export function parseSentDate(text: string | null | undefined): string | null {
+  const cleaned = cleanText(text)
+    .replace(/\(.*?\)/g, '')
+    .replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i, '')
+    .replace(/,?\s+at\s+/i, ' ')
+    .replace(/(\d{4}),/, '$1')
+    .trim()
+  if (!cleaned) return null
+
+  const date = new Date(cleaned)
+  if (isNaN(date.getTime())) return null
+  // Mails from this year are shown without one ("Dec 2, 10:12 AM")
+  if (!/\d{4}/.test(cleaned)) {
+    const now = new Date()
+    date.setFullYear(now.getFullYear())
+    if (date > now) date.setFullYear(now.getFullYear() - 1)
+  }
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:00`
+  )
+}
+
+function toAttendee(name: string | null | undefined, email: string | null | undefined) {
+  return normalizeAttendees([{ name: cleanText(name), email: cleanText(email) }])[0] || null
+}
+
+// "Name <email>; Other <other@corp.com>" or a plain list of names
+function parseAttendeeList(text: string | null | undefined): EventAttendee[] {
+  return normalizeAttendees(
+    cleanText(text)
+      .replace(/^(to|cc):\s*/i, '')
+      .split(/[;,](?![^<]*>)/)
+      .map((part) => parseAttendee(part))
+      .filter(Boolean),
+  )
+}
+
+const gmailAdapter: SiteAdapter = {
+  source: 'gmail',
+  matches: (hostname) => hostname === 'mail.google.com',
+  findMessage: (node) => closestElement(node)?.closest('.adn, [data-message-id]') ?? null,
+  read(message) {
+    const thread = message.closest('[role="main"]') || document
+    const senderElement = message.querySelector('.gD[email]')
+    const dateElement = message.querySelector('.g3')
+    return {
+      subject: cleanText(thread.querySelector('h2.hP')?.textContent),
+      sender: toAttendee(senderElement?.getAttribute('name'), senderElement?.getAttribute('email')),
+      recipients: normalizeAttendees(
+        Array.from(message.querySelectorAll('.g2[email]')).map((element) => ({
+          name: element.getAttribute('name') || element.textContent,
+          email: element.getAttribute('email'),
+        })),
+      ),
+      sentAt: parseSentDate(dateElement?.getAttribute('title') || dateElement?.textContent),
+    }
+  },
+}
+
+const outlookAdapter: SiteAdapter = {
+  source: 'outlook',
+  matches: (hostname) => /^outlook\.(office|office365|live)\.com$/.test(hostname),
+  findMessage: (node) =>
+    closestElement(node)?.closest(
+      '[aria-label="Reading Pane"], [data-app-section="ReadingPane"], [role="main"]',
+    ) ?? null,
+  read(message) {
+    const subjectElement = message.querySelector(
+      '[data-app-section="ConversationTopic"], [role="heading"][aria-level="2"]',
+    )
+    const senderElement = message.querySelector(
+      '[data-testid="SenderPersona"], [aria-label^="From:"]',
+    )
+    const recipientsElement = message.querySelector(
+      '[data-testid="RecipientWell"], [aria-label^="To:"]',
+    )
+    const dateElement = message.querySelector('[data-testid="SentReceivedSavedTime"]')
+    const senderText = cleanText(
+      senderElement?.getAttribute('title') ||
+        senderElement?.textContent ||
+        senderElement?.getAttribute('aria-label'),
+    ).replace(/^From:\s*/i, '')
+    return {
+      subject: cleanText(subjectElement?.textContent),
+      sender: senderText ? parseAttendee(senderText) : null,
+      recipients: parseAttendeeList(
+        recipientsElement?.textContent || recipientsElement?.getAttribute('aria-label'),
+      ),
+      sentAt: parseSentDate(dateElement?.getAttribute('title') || dateElement?.textContent),
+    }
+  },
+}
+
+const SITE_ADAPTERS = [gmailAdapter, outlookAdapter]
+
+/**
+ * Context of the email the current selection belongs to, or null when the
+ * page is not a supported mail client or the selection is not in a message
+ */
+export function getEmailContext(selection = window.getSelection()): EmailContext | null {
+  const adapter = SITE_ADAPTERS.find((candidate) => candidate.matches(window.location.hostname))
+  const node = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).startContainer : null
+  if (!adapter || !node) return null
+
+  const message = adapter.findMessage(node)
+  if (!message) return null
+
+  const context = { source: adapter.source, ...adapter.read(message) }
+  // Nothing recognizable: the markup probably changed
+  if (!context.subject && !context.sender && !context.sentAt) return null
+  return context
+}
@@ -1,6 +1,37 @@
 // src/content-script/index.ts (Enhanced UX with Confirmation Modal)
 import Browser from 'webextension-polyfill'
+import { EventAttendee, formatAttendee, normalizeAttendees, parseAttendee } from '../attendees'
+import { CalendarEventData, isAllDayDate } from '../calendar-event'
+import { buildIcsFileOutput, CALENDAR_TARGETS, getCalendarTarget } from '../calendar-targets'
+import { CalendarTargetType, DateOrder, getUserConfig, Language } from '../config'
+import { addCorrection, getChangedFields, pickCorrectionValues } from '../corrections'
+import { createDraftId, deleteDraft, saveDraft } from '../drafts'
+import { findDuplicateEntry } from '../duplicate-events'
+import { addToHistory, ExtractionSource, getHistory, HistoryEntry, HistorySource } from '../history'
 import { logger, setupGlobalErrorHandling } from '../logging'
+import {
+  EventRecurrence,
+  normalizeRecurrence,
+  RecurrenceFrequency,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAY_CODES,
+} from '../recurrence'
+import { getEmailContext } from './email-adapters'
+import { extractPageContent } from './page-content'
+import { extractStructuredEvents } from './structured-data'
+import {
+  getLocaleForLanguage,
+  NumericDateOrder,
+  parseLocalDate,
+  resolveDateOrder,
+} from '../temporal-context'
+import {
+  formatTimeInZone,
+  getLocalTimeZone,
+  isValidTimeZone,
+  listTimeZones,
+  parseDateTimeInZone,
+} from '../timezones'
 
 // Setup global error handling for content script
 setupGlobalErrorHandling('content-script')
@@ -18,11 +49,33 @@ const MODAL_OVERLAY_ID = 'extension-modal-overlay'
 const LOADING_INDICATOR_ID = 'extension-loading-indicator'
 const ERROR_MODAL_ID = 'extension-error-modal'
 
+// Whether numeric dates are read day-first, kept in sync with the settings
+let numericDateOrder: NumericDateOrder = resolveDateOrder(
+  DateOrder.Auto,
+  getLocaleForLanguage(Language.Auto)
+)
+
+function loadDateOrder() {
+  getUserConfig().then((config) => {
+    numericDateOrder = resolveDateOrder(config.dateOrder, getLocaleForLanguage(config.language))
+  }).catch((error) => {
+    logger.warn('content-script', 'Could not load date order setting', undefined, error)
+  })
+}
+
+loadDateOrder()
+Browser.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && (changes.dateOrder || changes.language)) loadDateOrder()
+})
+
 // Review prompt constants
 const REVIEW_PROMPT_INTERVAL = 2
 const CHROME_WEB_STORE_REVIEW_URL = 'https://chromewebstore.google.com/detail/chatgpt-for-google-calend/laejdmahdkleahgkdpiapfdcmleedhca?hl=en'
 
-let currentEventData: any = null
+let currentEvents: any[] | null = null
+// Set while the background extracts for the open modal; closing the modal
+// then cancels the extraction
+let extractionPending = false
 
 // Event tracking and review prompt functions
 async function incrementSuccessfulEvents(): Promise<number> {
@@ -276,7 +329,7 @@ function createErrorModal(errorType?: string): HTMLElement | null {
 
     if (errorType === 'timeout') {
       message.innerHTML = `
-        <p style="margin: 0 0 12px 0;">The AI service took too long to respond (more than 5 seconds).</p>
+        <p style="margin: 0 0 12px 0;">The AI service took too long to respond.</p>
         <p style="margin: 0 0 16px 0;"><strong>This usually happens when:</strong></p>
         <ul style="margin: 0 0 16px 0; padding-left: 20px;">
           <li>The selected text is very long or complex</li>
@@ -407,6 +460,7 @@ function hideErrorModal() {
 
 function showErrorModal(errorType?: string) {
   logger.debug('content-script', 'showErrorModal function entered', { errorType })
+  extractionPending = false
 
   // Check if document is ready and body exists
   if (!document.body) {
@@ -556,8 +610,16 @@ function createConfirmationModal(): HTMLElement | null {
     loadingText.style.color = '#666'
     loadingText.style.fontSize = '14px'
 
+    const cancelLoadingButton = document.createElement('button')
+    cancelLoadingButton.textContent = 'Cancel'
+    cancelLoadingButton.className = 'modal-button modal-button-secondary'
+    cancelLoadingButton.style.marginTop = '16px'
+    cancelLoadingButton.style.marginRight = '0'
+    cancelLoadingButton.onclick = hideConfirmationModal
+
     loadingIndicator.appendChild(spinner)
     loadingIndicator.appendChild(loadingText)
+    loadingIndicator.appendChild(cancelLoadingButton)
 
     // Inject CSS for animations
     const existingStyle = document.head.querySelector(
@@ -790,9 +852,29 @@ function createFallbackModal() {
   logger.info('content-script', 'Fallback modal created and displayed')
 }
 
-function showEventConfirmation(eventData: any) {
-  logger.info('content-script', 'showEventConfirmation called', { eventData })
-  currentEventData = eventData
+// referenceDate is only sent for AI results: edits to those are kept as
+// examples for later prompts (see corrections.ts), compared against
+// extractedEvents (the events themselves unless a draft with edits is
+// reopened). provider is what read the events, kept in the history.
+function showEventConfirmation(
+  events: any[],
+  {
+    notice,
+    referenceDate,
+    provider,
+    draftId = createDraftId(),
+    extractedEvents = events,
+  }: {
+    notice?: string
+    referenceDate?: string
+    provider?: ExtractionSource
+    draftId?: string
+    extractedEvents?: CalendarEventData[]
+  } = {},
+) {
+  logger.info('content-script', 'showEventConfirmation called', { eventCount: events.length, events, notice })
+  currentEvents = events
+  extractionPending = false
 
   // First ensure the modal exists, create it if it doesn't
   let overlay = document.getElementById(MODAL_OVERLAY_ID)
@@ -818,12 +900,27 @@ function showEventConfirmation(eventData: any) {
     loadingIndicator.style.display = 'none'
   }
 
+  // Kept with the user's edits until added, so a cancelled or lost dialog can
+  // be finished later from the popup or the "reopen last draft" shortcut
+  const saveCurrentDraft = (draftEvents: CalendarEventData[]) =>
+    saveDraft({
+      id: draftId,
+      events: draftEvents,
+      extractedEvents,
+      notice,
+      referenceDate,
+      provider,
+      pageUrl: window.location.href,
+      pageTitle: document.title,
+    })
+  saveCurrentDraft(events)
+
   // Create confirmation content
   const confirmationContent = document.createElement('div')
 
   // Title
   const title = document.createElement('h2')
-  title.textContent = 'Confirm Event Details'
+  title.textContent = events.length > 1 ? `Confirm ${events.length} Events` : 'Confirm Event Details'
   title.style.cssText = `
     margin: 0 0 20px 0 !important;
     fontSize: 20px !important;
@@ -833,9 +930,35 @@ function showEventConfirmation(eventData: any) {
   `
   confirmationContent.appendChild(title)
 
-  // Create editable form fields
-  const formFields = createEditableEventForm(eventData)
-  confirmationContent.appendChild(formFields)
+  // Explains results that did not come from the AI (e.g. local parser fallback)
+  if (notice) {
+    const noticeEl = document.createElement('div')
+    noticeEl.textContent = notice
+    noticeEl.style.cssText = `
+      margin: -8px 0 16px 0 !important;
+      padding: 10px 12px !important;
+      background: #fff3cd !important;
+      border: 1px solid #ffeaa7 !important;
+      border-radius: 6px !important;
+      color: #856404 !important;
+      font-size: 13px !important;
+      line-height: 1.4 !important;
+      font-family: inherit !important;
+    `
+    confirmationContent.appendChild(noticeEl)
+  }
+
+  // Create editable form fields, one form per extracted event
+  const eventEntries = events.map((eventData, index) => createEventEntry(eventData, index, events.length))
+  for (const entry of eventEntries) {
+    confirmationContent.appendChild(entry.element)
+  }
+  confirmationContent.addEventListener('change', () => {
+    saveCurrentDraft(eventEntries.map((entry) => collectFormData(entry.form)))
+  })
+
+  const getSelectedEntries = () => eventEntries.filter((entry) => !entry.checkbox || entry.checkbox.checked)
+  const getSelectedEvents = () => getSelectedEntries().map((entry) => collectFormData(entry.form))
 
   // Check if we should show review prompt
   shouldShowReviewPrompt().then(async shouldShow => {
@@ -851,41 +974,150 @@ function showEventConfirmation(eventData: any) {
   const buttonContainer = document.createElement('div')
   buttonContainer.style.display = 'flex'
   buttonContainer.style.justifyContent = 'flex-end'
+  buttonContainer.style.alignItems = 'center'
   buttonContainer.style.marginTop = '24px'
 
+  const targetPicker = createCalendarTargetPicker()
+
   const cancelButton = document.createElement('button')
   cancelButton.textContent = 'Cancel'
   cancelButton.className = 'modal-button modal-button-secondary'
   cancelButton.onclick = hideConfirmationModal
 
   const confirmButton = document.createElement('button')
-  confirmButton.textContent = 'Add to Calendar'
   confirmButton.className = 'modal-button modal-button-primary'
+  const updateConfirmButton = () => {
+    const selectedCount = getSelectedEntries().length
+    confirmButton.textContent = events.length > 1 ? `Add ${selectedCount} to Calendar` : 'Add to Calendar'
+    confirmButton.disabled = selectedCount === 0
+  }
+  for (const entry of eventEntries) {
+    entry.checkbox?.addEventListener('change', updateConfirmButton)
+  }
+  updateConfirmButton()
+
+  // Set once the user chose "Add anyway" for the events found in the history
+  let duplicatesConfirmed = false
+  let duplicateWarning: HTMLElement | null = null
+
   confirmButton.onclick = async () => {
     // Collect data from form inputs
-    const updatedEventData = collectFormData(formFields)
+    const selectedEvents = getSelectedEvents()
 
-    // Validate required fields
-    if (!updatedEventData.title.trim()) {
-      alert('Please enter an event title')
+    if (selectedEvents.length === 0) {
+      alert('Please select at least one event')
       return
     }
 
-    if (!updatedEventData.startDate) {
-      alert('Please enter a start date and time')
-      return
+    // Validate required fields
+    for (const updatedEventData of selectedEvents) {
+      if (!updatedEventData.title.trim()) {
+        alert('Please enter an event title')
+        return
+      }
+
+      if (!updatedEventData.startDate) {
+        alert(`Please enter a start date and time for "${updatedEventData.title}"`)
+        return
+      }
     }
 
-    logger.info('content-script', 'User confirmed event with data', { updatedEventData })
+    if (!duplicatesConfirmed) {
+      const history = await getHistory()
+      const duplicates: { entry: ReturnType<typeof createEventEntry>; existing: HistoryEntry }[] = []
+      for (const entry of getSelectedEntries()) {
+        const existing = findDuplicateEntry(collectFormData(entry.form), history)
+        if (existing) duplicates.push({ entry, existing })
+      }
+
+      if (duplicates.length > 0) {
+        logger.info('content-script', 'Events look like ones already added', { count: duplicates.length })
+        duplicateWarning?.remove()
+        duplicateWarning = createDuplicateWarning(
+          duplicates.map((item) => item.existing),
+          () => {
+            duplicatesConfirmed = true
+            duplicateWarning?.remove()
+            confirmButton.click()
+          },
+          () => {
+            openHistoryEntries(duplicates.map((item) => item.existing))
+            // Only the events that are not duplicates are left to add
+            for (const { entry } of duplicates) {
+              if (entry.checkbox) {
+                entry.checkbox.checked = false
+                entry.checkbox.dispatchEvent(new Event('change'))
+              }
+            }
+            duplicateWarning?.remove()
+            if (eventEntries.length === 1 || getSelectedEntries().length === 0) {
+              deleteDraft(draftId)
+              hideConfirmationModal()
+            }
+          },
+        )
+        confirmationContent.insertBefore(duplicateWarning, buttonContainer)
+        duplicateWarning.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+        return
+      }
+    }
 
-    // Increment successful events counter
-    await incrementSuccessfulEvents()
+    logger.info('content-script', 'User confirmed events with data', { selectedEvents })
+
+    if (referenceDate) {
+      for (const entry of getSelectedEntries()) {
+        const extracted = extractedEvents[eventEntries.indexOf(entry)]
+        const corrected = collectFormData(entry.form)
+        if (extracted && corrected.originalText && getChangedFields(extracted, corrected).length > 0) {
+          await addCorrection({
+            originalText: corrected.originalText,
+            referenceDate,
+            extracted: pickCorrectionValues(extracted),
+            corrected: pickCorrectionValues(corrected),
+          })
+        }
+      }
+    }
 
-    openGoogleCalendar(updatedEventData)
+    // Increment successful events counter once per added event
+    for (let i = 0; i < selectedEvents.length; i++) {
+      await incrementSuccessfulEvents()
+    }
+
+    const target = targetPicker.value as CalendarTargetType
+
+    // Several events for a file target go into one .ics file instead of one download each
+    if (target === CalendarTargetType.Ics && selectedEvents.length > 1) {
+      downloadIcsFile(selectedEvents)
+      addToHistory(selectedEvents, target, getHistorySource(provider))
+    } else {
+      for (const updatedEventData of selectedEvents) {
+        openGoogleCalendar(updatedEventData, target, provider)
+      }
+    }
+    deleteDraft(draftId)
     hideConfirmationModal()
   }
 
+  const downloadButton = document.createElement('button')
+  downloadButton.textContent = 'Download .ics'
+  downloadButton.className = 'modal-button modal-button-secondary'
+  downloadButton.onclick = () => {
+    const selectedEvents = getSelectedEvents()
+
+    if (selectedEvents.length === 0 || selectedEvents.some((eventData) => !eventData.startDate)) {
+      alert('Please enter a start date and time')
+      return
+    }
+
+    downloadIcsFile(selectedEvents)
+    addToHistory(selectedEvents, CalendarTargetType.Ics, getHistorySource(provider))
+    deleteDraft(draftId)
+  }
+
+  buttonContainer.appendChild(targetPicker)
   buttonContainer.appendChild(cancelButton)
+  buttonContainer.appendChild(downloadButton)
   buttonContainer.appendChild(confirmButton)
   confirmationContent.appendChild(buttonContainer)
 
@@ -894,8 +1126,241 @@ function showEventConfirmation(eventData: any) {
   modal.appendChild(confirmationContent)
 }
 
+// Preview of an AI answer that is still streaming in: the fields read so far,
+// read-only, with the ones still to come marked. Replaced by the editable
+// forms of showEventConfirmation once the answer is done.
+function showPartialEvents(events: any[], pendingFields: string[][]) {
+  const modal = document.getElementById(CONFIRMATION_MODAL_ID)
+  // The user closed the dialog, or the final result is already shown
+  if (!modal || currentEvents) return
+
+  const loadingIndicator = document.getElementById(LOADING_INDICATOR_ID)
+  if (loadingIndicator) {
+    loadingIndicator.style.display = 'none'
+  }
+
+  const previewContent = document.createElement('div')
+
+  const title = document.createElement('h2')
+  title.textContent = 'Reading the event…'
+  title.style.cssText = `
+    margin: 0 0 8px 0 !important;
+    font-size: 20px !important;
+    font-weight: 600 !important;
+    color: #111827 !important;
+    font-family: inherit !important;
+  `
+  previewContent.appendChild(title)
+
+  const hint = document.createElement('div')
+  hint.textContent = 'Fields fill in as the AI answers. You can edit them once it is done.'
+  hint.style.cssText = `
+    margin: 0 0 16px 0 !important;
+    color: #6b7280 !important;
+    font-size: 13px !important;
+    font-family: inherit !important;
+  `
+  previewContent.appendChild(hint)
+
+  events.forEach((eventData, index) => {
+    const entry = createEventEntry({ ...eventData, pendingFields: pendingFields[index] || [] }, index, events.length)
+    entry.form.querySelectorAll('input, textarea, select, button').forEach((element) => {
+      ;(element as HTMLInputElement).disabled = true
+    })
+    if (entry.checkbox) entry.checkbox.disabled = true
+    previewContent.appendChild(entry.element)
+  })
+
+  const buttonContainer = document.createElement('div')
+  buttonContainer.style.display = 'flex'
+  buttonContainer.style.justifyContent = 'flex-end'
+  buttonContainer.style.marginTop = '24px'
+
+  const cancelButton = document.createElement('button')
+  cancelButton.textContent = 'Cancel'
+  cancelButton.className = 'modal-button modal-button-secondary'
+  cancelButton.style.marginRight = '0'
+  cancelButton.onclick = hideConfirmationModal
+  buttonContainer.appendChild(cancelButton)
+  previewContent.appendChild(buttonContainer)
+
+  modal.innerHTML = ''
+  modal.appendChild(previewContent)
+}
+
+// Shown when the AI takes longer than usual: the extraction keeps running
+// unless the user cancels it
+function showExtractionSlow() {
+  const loadingIndicator = document.getElementById(LOADING_INDICATOR_ID)
+  // Closed, or already showing streamed fields or a result
+  if (!loadingIndicator || loadingIndicator.style.display === 'none' || !extractionPending) return
+  if (loadingIndicator.querySelector('[data-slow-notice]')) return
+
+  const notice = document.createElement('div')
+  notice.setAttribute('data-slow-notice', 'true')
+  notice.style.cssText = `
+    margin-top: 16px !important;
+    text-align: center !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+  `
+
+  const message = document.createElement('div')
+  message.textContent = 'Still working… The AI is taking longer than usual.'
+  message.style.marginBottom = '12px'
+  notice.appendChild(message)
+
+  const keepWaitingButton = document.createElement('button')
+  keepWaitingButton.textContent = 'Keep waiting'
+  keepWaitingButton.className = 'modal-button modal-button-primary'
+  keepWaitingButton.onclick = () => {
+    message.textContent = 'Still working…'
+    keepWaitingButton.remove()
+  }
+
+  const cancelButton = document.createElement('button')
+  cancelButton.textContent = 'Cancel'
+  cancelButton.className = 'modal-button modal-button-secondary'
+  cancelButton.onclick = hideConfirmationModal
+
+  notice.appendChild(cancelButton)
+  notice.appendChild(keepWaitingButton)
+
+  // The notice has its own cancel button
+  loadingIndicator.querySelectorAll('button').forEach((button) => button.remove())
+  loadingIndicator.appendChild(notice)
+}
+
+// The History tab of the options page, showing only these entries with where
+// they came from; the background opens it, extension pages are not
+// reachable from the page
+function openHistoryEntries(entries: HistoryEntry[]) {
+  Browser.runtime
+    .sendMessage({ action: 'openHistoryEntries', ids: entries.map((entry) => entry.id) })
+    .catch((error) => {
+      logger.error('content-script', 'Failed to open the history', { error: error.message }, error)
+    })
+}
+
+// Warning shown above the buttons when events to add are already in the
+// history, with links to the earlier entries
+function createDuplicateWarning(
+  existingEntries: HistoryEntry[],
+  onAddAnyway: () => void,
+  onOpenExisting: () => void,
+): HTMLElement {
+  const warning = document.createElement('div')
+  warning.style.cssText = `
+    margin: 16px 0 0 0 !important;
+    padding: 10px 12px !important;
+    background: #fff3cd !important;
+    border: 1px solid #ffeaa7 !important;
+    border-radius: 6px !important;
+    color: #856404 !important;
+    font-size: 13px !important;
+    line-height: 1.4 !important;
+    font-family: inherit !important;
+  `
+
+  const heading = document.createElement('div')
+  heading.textContent =
+    existingEntries.length > 1 ? 'These events look like ones you already added:' : 'This event looks like one you already added:'
+  heading.style.cssText = 'font-weight: 600 !important; margin-bottom: 6px !important;'
+  warning.appendChild(heading)
+
+  const list = document.createElement('ul')
+  list.style.cssText = 'margin: 0 0 10px 0 !important; padding-left: 18px !important;'
+  for (const existing of existingEntries) {
+    const item = document.createElement('li')
+    const details = `"${existing.event.title}" on ${existing.event.startDate.replace('T', ' ')}, added to ${
+      getCalendarTarget(existing.target).name
+    } ${new Date(existing.createdAt).toLocaleDateString()}`
+    item.appendChild(document.createTextNode(details + ' '))
+    const link = document.createElement('a')
+    link.href = '#'
+    link.textContent = 'Show in history'
+    link.style.cssText = 'color: #856404 !important; text-decoration: underline !important;'
+    link.onclick = (e) => {
+      e.preventDefault()
+      openHistoryEntries([existing])
+    }
+    item.appendChild(link)
+    list.appendChild(item)
+  }
+  warning.appendChild(list)
+
+  const actions = document.createElement('div')
+  actions.style.cssText = 'display: flex !important; justify-content: flex-end !important; gap: 8px !important;'
+
+  const openExistingButton = document.createElement('button')
+  openExistingButton.textContent = 'Open existing in history'
+  openExistingButton.className = 'modal-button modal-button-secondary'
+  openExistingButton.onclick = onOpenExisting
+
+  const addAnywayButton = document.createElement('button')
+  addAnywayButton.textContent = 'Add anyway'
+  addAnywayButton.className = 'modal-button modal-button-primary'
+  addAnywayButton.onclick = onAddAnyway
+
+  actions.appendChild(openExistingButton)
+  actions.appendChild(addAnywayButton)
+  warning.appendChild(actions)
+
+  return warning
+}
+
+// Wraps the editable form of one event; with several events each one gets a
+// card with a checkbox so the user can choose which ones to add.
+function createEventEntry(
+  eventData: any,
+  index: number,
+  eventCount: number,
+): { element: HTMLElement; form: HTMLElement; checkbox: HTMLInputElement | null } {
+  const form = createEditableEventForm(eventData)
+  if (eventCount === 1) {
+    return { element: form, form, checkbox: null }
+  }
+
+  const card = document.createElement('div')
+  card.style.cssText = `
+    border: 1px solid #e5e7eb !important;
+    border-radius: 8px !important;
+    padding: 16px !important;
+    margin-bottom: 16px !important;
+    background: #ffffff !important;
+  `
+
+  const header = document.createElement('label')
+  header.style.cssText = `
+    display: flex !important;
+    align-items: center !important;
+    gap: 8px !important;
+    margin-bottom: 12px !important;
+    font-weight: 600 !important;
+    color: #111827 !important;
+    font-size: 14px !important;
+    cursor: pointer !important;
+  `
+
+  const checkbox = document.createElement('input')
+  checkbox.type = 'checkbox'
+  checkbox.checked = true
+  checkbox.addEventListener('change', () => {
+    form.style.opacity = checkbox.checked ? '1' : '0.5'
+  })
+
+  header.appendChild(checkbox)
+  header.appendChild(document.createTextNode(`Event ${index + 1} of ${eventCount}`))
+  card.appendChild(header)
+  card.appendChild(form)
+
+  return { element: card, form, checkbox }
+}
+
 function showErrorInModal(message: string) {
   console.log(`[Content Script] showErrorInModal called with message: "${message}"`)
+  extractionPending = false
 
   const modal = document.getElementById(CONFIRMATION_MODAL_ID)
   if (!modal) {
@@ -944,6 +1409,13 @@ function showErrorInModal(message: string) {
 }
 
 function hideConfirmationModal() {
+  if (extractionPending) {
+    extractionPending = false
+    Browser.runtime.sendMessage({ action: 'cancelExtraction' }).catch((error) => {
+      logger.warn('content-script', 'Could not cancel the extraction', undefined, error)
+    })
+  }
+
   const overlay = document.getElementById(MODAL_OVERLAY_ID)
   if (overlay) {
     console.log('[Content Script] Hiding confirmation modal.')
@@ -959,7 +1431,7 @@ function hideConfirmationModal() {
     }, 300)
   }
 
-  currentEventData = null
+  currentEvents = null
 }
 
 // Utility functions
@@ -991,20 +1463,21 @@ function formatDateForInput(dateString: string | null, isDateTime: boolean = tru
   if (!dateString) return ''
 
   try {
-    const date = new Date(dateString)
-    if (isNaN(date.getTime())) return ''
+    // Local time throughout; numeric dates ("03/04/2025") follow the date order setting
+    const date = parseLocalDate(dateString, numericDateOrder)
+    if (!date) return ''
 
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
     if (isDateTime) {
       // Return datetime-local format (YYYY-MM-DDTHH:MM)
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
       const hours = String(date.getHours()).padStart(2, '0')
       const minutes = String(date.getMinutes()).padStart(2, '0')
       return `${year}-${month}-${day}T${hours}:${minutes}`
     } else {
       // Return date format (YYYY-MM-DD)
-      return date.toISOString().split('T')[0]
+      return `${year}-${month}-${day}`
     }
   } catch (e) {
     return ''
@@ -1078,29 +1551,507 @@ function createEditableEventForm(eventData: any): HTMLElement {
     return fieldDiv
   }
 
+  // All-day events use date inputs, timed events datetime-local inputs
+  const isAllDay = isAllDayDate(eventData.startDate)
+  const dateInputType = isAllDay ? 'date' : 'datetime-local'
+
   // Create form fields
   const titleField = createFormField('Event Title', 'text', eventData.title || '', 'Enter event title', true)
-  const startDateField = createFormField('Start Date & Time', 'datetime-local', formatDateForInput(eventData.startDate), '', true)
-  const endDateField = createFormField('End Date & Time', 'datetime-local', formatDateForInput(eventData.endDate), 'Optional')
+  const startDateField = createFormField(isAllDay ? 'Start Date' : 'Start Date & Time', dateInputType, formatDateForInput(eventData.startDate, !isAllDay), '', true)
+  const endDateField = createFormField(isAllDay ? 'End Date' : 'End Date & Time', dateInputType, formatDateForInput(eventData.endDate, !isAllDay), 'Optional')
   const locationField = createFormField('Location', 'text', eventData.location || '', 'Optional')
   const descriptionField = createFormField('Description', 'textarea', eventData.description || '', 'Optional')
+  const allDayField = createAllDayToggle(isAllDay, startDateField, endDateField)
+  const recurrenceField = createRecurrenceEditor(eventData.recurrence)
+  const attendeeField = createAttendeeEditor(eventData.attendees)
+  const timeZoneField = createTimeZoneField(eventData.timeZone, startDateField.querySelector('input') as HTMLInputElement)
+
+  // Flag fields the extraction was unsure about instead of silently emptying them
+  const fieldErrors = eventData.fieldErrors || {}
+  const flaggableFields: Record<string, HTMLElement> = {
+    title: titleField,
+    startDate: startDateField,
+    endDate: endDateField,
+    location: locationField,
+    description: descriptionField,
+    attendees: attendeeField,
+    timeZone: timeZoneField,
+    recurrence: recurrenceField,
+  }
+  // Fields of a streaming answer the AI has not written yet (see showPartialEvents)
+  const pendingFields: string[] = eventData.pendingFields || []
+  for (const [fieldName, fieldElement] of Object.entries(flaggableFields)) {
+    if (pendingFields.includes(fieldName)) markPendingField(fieldElement)
+    else if (fieldErrors[fieldName]) flagField(fieldElement, fieldErrors[fieldName])
+  }
 
   // Store references to inputs for later access
+  ;(form as any).originalText = eventData.originalText || ''
   ;(form as any).titleInput = titleField.querySelector('input')
   ;(form as any).startDateInput = startDateField.querySelector('input')
   ;(form as any).endDateInput = endDateField.querySelector('input')
   ;(form as any).locationInput = locationField.querySelector('input')
   ;(form as any).descriptionInput = descriptionField.querySelector('textarea')
+  ;(form as any).recurrenceEditor = recurrenceField
+  ;(form as any).timeZoneSelect = timeZoneField.querySelector('select')
+  ;(form as any).attendeeEditor = attendeeField
 
   form.appendChild(titleField)
+  form.appendChild(allDayField)
   form.appendChild(startDateField)
   form.appendChild(endDateField)
+  form.appendChild(timeZoneField)
+  form.appendChild(recurrenceField)
   form.appendChild(locationField)
+  form.appendChild(attendeeField)
   form.appendChild(descriptionField)
 
   return form
 }
 
+// Marks a form field as needing attention, with the validation message below it
+function flagField(field: HTMLElement, message: string) {
+  field.style.borderLeft = '3px solid #f59e0b'
+  field.style.paddingLeft = '8px'
+
+  const warning = document.createElement('div')
+  warning.textContent = `⚠️ ${message}`
+  warning.style.cssText = `
+    color: #b45309 !important;
+    font-size: 12px !important;
+    font-family: inherit !important;
+  `
+  field.appendChild(warning)
+}
+
+// Marks a form field the AI is still writing while its answer streams in
+function markPendingField(field: HTMLElement) {
+  field.style.borderLeft = '3px solid #93c5fd'
+  field.style.paddingLeft = '8px'
+  field.style.opacity = '0.6'
+
+  const note = document.createElement('div')
+  note.textContent = '⏳ Waiting for the AI…'
+  note.style.cssText = `
+    color: #2563eb !important;
+    font-size: 12px !important;
+    font-family: inherit !important;
+  `
+  field.appendChild(note)
+}
+
+// Checkbox that switches the date inputs between all-day and timed mode
+function createAllDayToggle(isAllDay: boolean, startDateField: HTMLElement, endDateField: HTMLElement): HTMLElement {
+  const toggleLabel = document.createElement('label')
+  toggleLabel.style.cssText = `
+    display: flex !important;
+    align-items: center !important;
+    gap: 8px !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+    cursor: pointer !important;
+  `
+
+  const checkbox = document.createElement('input')
+  checkbox.type = 'checkbox'
+  checkbox.checked = isAllDay
+
+  checkbox.addEventListener('change', () => {
+    const fields: [HTMLElement, string, string][] = [
+      [startDateField, 'Start Date', '09:00'],
+      [endDateField, 'End Date', '10:00'],
+    ]
+    for (const [field, labelText, defaultTime] of fields) {
+      const input = field.querySelector('input') as HTMLInputElement
+      const label = field.querySelector('label') as HTMLLabelElement
+      const value = input.value
+      const required = input.required
+
+      if (checkbox.checked) {
+        input.type = 'date'
+        input.value = value ? value.split('T')[0] : ''
+        label.textContent = labelText + (required ? ' *' : '')
+      } else {
+        input.type = 'datetime-local'
+        input.value = value ? `${value}T${defaultTime}` : ''
+        label.textContent = `${labelText} & Time` + (required ? ' *' : '')
+      }
+    }
+  })
+
+  toggleLabel.appendChild(checkbox)
+  toggleLabel.appendChild(document.createTextNode('All-day event'))
+  return toggleLabel
+}
+
+// Timezone the start/end inputs are written in, with a hint showing the
+// start time in the user's own zone
+function createTimeZoneField(initialTimeZone: string | null | undefined, startDateInput: HTMLInputElement): HTMLElement {
+  const localTimeZone = getLocalTimeZone()
+  const selectedTimeZone = isValidTimeZone(initialTimeZone) ? initialTimeZone : localTimeZone
+
+  const fieldDiv = document.createElement('div')
+  fieldDiv.style.cssText = `
+    display: flex !important;
+    flex-direction: column !important;
+    gap: 4px !important;
+  `
+
+  const label = document.createElement('label')
+  label.textContent = 'Time Zone'
+  label.style.cssText = `
+    font-weight: 600 !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+  `
+
+  const select = document.createElement('select')
+  select.style.cssText = `
+    padding: 8px 12px !important;
+    border: 1px solid #d1d5db !important;
+    border-radius: 6px !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+    background: #ffffff !important;
+    color: #000000 !important;
+    box-sizing: border-box !important;
+  `
+  const zones = listTimeZones()
+  for (const zone of [localTimeZone, selectedTimeZone]) {
+    if (!zones.includes(zone)) zones.unshift(zone)
+  }
+  for (const zone of zones) {
+    const option = document.createElement('option')
+    option.value = zone
+    option.textContent = zone === localTimeZone ? `${zone} (your time zone)` : zone
+    select.appendChild(option)
+  }
+  select.value = selectedTimeZone
+
+  const hint = document.createElement('div')
+  hint.style.cssText = `
+    color: #6b7280 !important;
+    font-size: 12px !important;
+    font-family: inherit !important;
+  `
+
+  const updateHint = () => {
+    const start = isAllDayDate(startDateInput.value) ? null : parseDateTimeInZone(startDateInput.value, select.value)
+    if (!start || select.value === localTimeZone) {
+      hint.style.display = 'none'
+      return
+    }
+    hint.textContent = `Starts ${formatTimeInZone(start, localTimeZone)} in your time zone (${localTimeZone})`
+    hint.style.display = 'block'
+  }
+  select.addEventListener('change', updateHint)
+  startDateInput.addEventListener('input', updateHint)
+  startDateInput.addEventListener('change', updateHint)
+  updateHint()
+
+  fieldDiv.appendChild(label)
+  fieldDiv.appendChild(select)
+  fieldDiv.appendChild(hint)
+  return fieldDiv
+}
+
+// Guest chips with an input to add more ("bob@corp.com", "Bob" or
+// "Bob <bob@corp.com>"); the returned element exposes getValue() for collectFormData
+function createAttendeeEditor(initialValue: any): HTMLElement & { getValue: () => EventAttendee[] } {
+  let attendees = normalizeAttendees(initialValue)
+
+  const container = document.createElement('div') as unknown as HTMLElement & { getValue: () => EventAttendee[] }
+  container.style.cssText = `
+    display: flex !important;
+    flex-direction: column !important;
+    gap: 4px !important;
+  `
+
+  const label = document.createElement('label')
+  label.textContent = 'Guests'
+  label.style.cssText = `
+    font-weight: 600 !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+  `
+
+  const chipBox = document.createElement('div')
+  chipBox.style.cssText = `
+    display: flex !important;
+    flex-wrap: wrap !important;
+    align-items: center !important;
+    gap: 6px !important;
+    padding: 6px 8px !important;
+    border: 1px solid #d1d5db !important;
+    border-radius: 6px !important;
+    background: #ffffff !important;
+    box-sizing: border-box !important;
+  `
+
+  const input = document.createElement('input')
+  input.type = 'text'
+  input.placeholder = 'Add guest email or name'
+  input.style.cssText = `
+    flex: 1 !important;
+    min-width: 160px !important;
+    border: none !important;
+    outline: none !important;
+    padding: 2px !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+    background: transparent !important;
+    color: #000000 !important;
+  `
+
+  const hint = document.createElement('div')
+  hint.textContent = 'Guests without an email address are listed in the description'
+  hint.style.cssText = `
+    color: #6b7280 !important;
+    font-size: 12px !important;
+    font-family: inherit !important;
+  `
+
+  const renderChips = () => {
+    chipBox.querySelectorAll('[data-attendee-chip]').forEach((chip) => chip.remove())
+    attendees.forEach((attendee, index) => {
+      const chip = document.createElement('span')
+      chip.setAttribute('data-attendee-chip', 'true')
+      chip.title = attendee.email ? formatAttendee(attendee) : 'No email address: will not be invited'
+      chip.style.cssText = `
+        display: inline-flex !important;
+        align-items: center !important;
+        gap: 4px !important;
+        padding: 2px 8px !important;
+        border-radius: 12px !important;
+        font-size: 13px !important;
+        font-family: inherit !important;
+        background: ${attendee.email ? '#e0e7ff' : '#f3f4f6'} !important;
+        color: ${attendee.email ? '#3730a3' : '#4b5563'} !important;
+      `
+      chip.appendChild(document.createTextNode(attendee.name || attendee.email || ''))
+
+      const removeButton = document.createElement('button')
+      removeButton.type = 'button'
+      removeButton.textContent = '×'
+      removeButton.setAttribute('aria-label', `Remove ${formatAttendee(attendee)}`)
+      removeButton.style.cssText = `
+        border: none !important;
+        background: transparent !important;
+        color: inherit !important;
+        cursor: pointer !important;
+        font-size: 14px !important;
+        line-height: 1 !important;
+        padding: 0 !important;
+      `
+      removeButton.addEventListener('click', () => {
+        attendees = attendees.filter((_, i) => i !== index)
+        renderChips()
+      })
+      chip.appendChild(removeButton)
+
+      chipBox.insertBefore(chip, input)
+    })
+  }
+
+  // Adds whatever has been typed; commas and semicolons separate several
+  // guests. Text that is not a valid guest (e.g. "bob@") stays in the input.
+  const commitInput = () => {
+    const parts = input.value.split(/[,;]/).filter((part) => part.trim())
+    const parsed = parts.map(parseAttendee)
+    const added = parsed.filter((attendee): attendee is EventAttendee => attendee !== null)
+    if (added.length === 0) return
+    attendees = normalizeAttendees([...attendees, ...added])
+    input.value = parts.filter((_, i) => parsed[i] === null).join(', ')
+    renderChips()
+  }
+
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' || event.key === ',' || event.key === ';') {
+      event.preventDefault()
+      commitInput()
+    } else if (event.key === 'Backspace' && !input.value && attendees.length > 0) {
+      attendees = attendees.slice(0, -1)
+      renderChips()
+    }
+  })
+  input.addEventListener('blur', commitInput)
+  chipBox.addEventListener('click', () => input.focus())
+
+  chipBox.appendChild(input)
+  renderChips()
+
+  container.appendChild(label)
+  container.appendChild(chipBox)
+  container.appendChild(hint)
+
+  container.getValue = () => {
+    commitInput()
+    return attendees
+  }
+
+  return container
+}
+
+const RECURRENCE_LABELS: Record<RecurrenceFrequency, { option: string; unit: string }> = {
+  DAILY: { option: 'Daily', unit: 'day(s)' },
+  WEEKLY: { option: 'Weekly', unit: 'week(s)' },
+  MONTHLY: { option: 'Monthly', unit: 'month(s)' },
+  YEARLY: { option: 'Yearly', unit: 'year(s)' },
+}
+
+// Recurrence editor (frequency, interval, weekdays, until/count); the returned
+// element exposes getValue() for collectFormData
+function createRecurrenceEditor(initialValue: any): HTMLElement & { getValue: () => EventRecurrence | null } {
+  const recurrence = normalizeRecurrence(initialValue)
+  const controlStyle = `
+    padding: 6px 10px !important;
+    border: 1px solid #d1d5db !important;
+    border-radius: 6px !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+    background: #ffffff !important;
+    color: #000000 !important;
+    box-sizing: border-box !important;
+  `
+  const rowStyle = `
+    display: flex !important;
+    align-items: center !important;
+    flex-wrap: wrap !important;
+    gap: 8px !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+  `
+
+  const container = document.createElement('div') as unknown as HTMLElement & { getValue: () => EventRecurrence | null }
+  container.style.cssText = `
+    display: flex !important;
+    flex-direction: column !important;
+    gap: 8px !important;
+  `
+
+  const label = document.createElement('label')
+  label.textContent = 'Repeats'
+  label.style.cssText = `
+    font-weight: 600 !important;
+    color: #374151 !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+  `
+
+  const frequencySelect = document.createElement('select')
+  frequencySelect.style.cssText = controlStyle
+  const noneOption = document.createElement('option')
+  noneOption.value = ''
+  noneOption.textContent = 'Does not repeat'
+  frequencySelect.appendChild(noneOption)
+  for (const frequency of RECURRENCE_FREQUENCIES) {
+    const option = document.createElement('option')
+    option.value = frequency
+    option.textContent = RECURRENCE_LABELS[frequency].option
+    frequencySelect.appendChild(option)
+  }
+  frequencySelect.value = recurrence?.frequency || ''
+
+  const details = document.createElement('div')
+  details.style.cssText = `
+    display: flex !important;
+    flex-direction: column !important;
+    gap: 8px !important;
+  `
+
+  // Every N days/weeks/...
+  const intervalRow = document.createElement('div')
+  intervalRow.style.cssText = rowStyle
+  const intervalInput = document.createElement('input')
+  intervalInput.type = 'number'
+  intervalInput.min = '1'
+  intervalInput.value = String(recurrence?.interval || 1)
+  intervalInput.style.cssText = controlStyle + 'width: 70px !important;'
+  const intervalUnit = document.createElement('span')
+  intervalRow.appendChild(document.createTextNode('Every'))
+  intervalRow.appendChild(intervalInput)
+  intervalRow.appendChild(intervalUnit)
+
+  // Weekdays (weekly only)
+  const weekdayRow = document.createElement('div')
+  weekdayRow.style.cssText = rowStyle
+  const weekdayCheckboxes = WEEKDAY_CODES.map((code) => {
+    const weekdayLabel = document.createElement('label')
+    weekdayLabel.style.cssText = 'display: flex !important; align-items: center !important; gap: 2px !important; cursor: pointer !important;'
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.value = code
+    checkbox.checked = !!recurrence?.byDay?.includes(code)
+    weekdayLabel.appendChild(checkbox)
+    weekdayLabel.appendChild(document.createTextNode(code.charAt(0) + code.charAt(1).toLowerCase()))
+    weekdayRow.appendChild(weekdayLabel)
+    return checkbox
+  })
+
+  // Ends: never / on date / after N occurrences
+  const endRow = document.createElement('div')
+  endRow.style.cssText = rowStyle
+  const endSelect = document.createElement('select')
+  endSelect.style.cssText = controlStyle
+  for (const [value, text] of [['never', 'Never ends'], ['until', 'Ends on'], ['count', 'Ends after']]) {
+    const option = document.createElement('option')
+    option.value = value
+    option.textContent = text
+    endSelect.appendChild(option)
+  }
+  const untilInput = document.createElement('input')
+  untilInput.type = 'date'
+  untilInput.value = recurrence?.until || ''
+  untilInput.style.cssText = controlStyle
+  const countInput = document.createElement('input')
+  countInput.type = 'number'
+  countInput.min = '1'
+  countInput.value = String(recurrence?.count || 10)
+  countInput.style.cssText = controlStyle + 'width: 70px !important;'
+  const countUnit = document.createElement('span')
+  countUnit.textContent = 'occurrences'
+  endSelect.value = recurrence?.until ? 'until' : recurrence?.count ? 'count' : 'never'
+  endRow.appendChild(endSelect)
+  endRow.appendChild(untilInput)
+  endRow.appendChild(countInput)
+  endRow.appendChild(countUnit)
+
+  details.appendChild(intervalRow)
+  details.appendChild(weekdayRow)
+  details.appendChild(endRow)
+
+  const updateVisibility = () => {
+    const frequency = frequencySelect.value as RecurrenceFrequency | ''
+    details.style.display = frequency ? 'flex' : 'none'
+    intervalUnit.textContent = frequency ? RECURRENCE_LABELS[frequency].unit : ''
+    weekdayRow.style.display = frequency === 'WEEKLY' ? 'flex' : 'none'
+    untilInput.style.display = endSelect.value === 'until' ? '' : 'none'
+    countInput.style.display = endSelect.value === 'count' ? '' : 'none'
+    countUnit.style.display = endSelect.value === 'count' ? '' : 'none'
+  }
+  frequencySelect.addEventListener('change', updateVisibility)
+  endSelect.addEventListener('change', updateVisibility)
+  updateVisibility()
+
+  container.appendChild(label)
+  container.appendChild(frequencySelect)
+  container.appendChild(details)
+
+  container.getValue = () =>
+    normalizeRecurrence({
+      frequency: frequencySelect.value,
+      interval: intervalInput.value,
+      byDay: frequencySelect.value === 'WEEKLY' ? weekdayCheckboxes.filter((checkbox) => checkbox.checked).map((checkbox) => checkbox.value) : null,
+      until: endSelect.value === 'until' ? untilInput.value : null,
+      count: endSelect.value === 'count' ? countInput.value : null,
+    })
+
+  return container
+}
+
 function collectFormData(formElement: any): any {
   return {
     title: formElement.titleInput?.value || '',
@@ -1108,17 +2059,81 @@ function collectFormData(formElement: any): any {
     endDate: formElement.endDateInput?.value || '',
     location: formElement.locationInput?.value || '',
     description: formElement.descriptionInput?.value || '',
-    originalText: currentEventData?.originalText || ''
+    recurrence: formElement.recurrenceEditor?.getValue() || null,
+    attendees: formElement.attendeeEditor?.getValue() || [],
+    // The local zone is implied, so only keep explicit other zones
+    timeZone: formElement.timeZoneSelect && formElement.timeZoneSelect.value !== getLocalTimeZone() ? formElement.timeZoneSelect.value : null,
+    originalText: formElement.originalText || ''
+  }
+}
+
+// Calendar target picker, preselected with the default target from the options page
+function createCalendarTargetPicker(): HTMLSelectElement {
+  const picker = document.createElement('select')
+  picker.title = 'Calendar to add the event to'
+  picker.style.cssText = `
+    margin-right: auto !important;
+    padding: 8px 12px !important;
+    border: 1px solid #d1d5db !important;
+    border-radius: 6px !important;
+    font-size: 14px !important;
+    font-family: inherit !important;
+    background: #ffffff !important;
+    color: #000000 !important;
+  `
+
+  for (const target of CALENDAR_TARGETS) {
+    const option = document.createElement('option')
+    option.value = target.type
+    option.textContent = target.name
+    picker.appendChild(option)
+  }
+
+  getUserConfig().then((config) => {
+    picker.value = config.calendarTarget
+  }).catch((error) => {
+    logger.warn('content-script', 'Could not load default calendar target', undefined, error)
+  })
+
+  return picker
+}
+
+// Where events added from this page came from, for the history
+function getHistorySource(provider?: ExtractionSource): HistorySource {
+  return { sourceUrl: window.location.href, pageTitle: document.title, provider }
+}
+
+function downloadIcsFile(events: CalendarEventData[]) {
+  const output = buildIcsFileOutput(events)
+  if (output?.type !== 'file') {
+    alert('Could not create a calendar file. Please check the start date.')
+    return
   }
+
+  const blob = new Blob([output.content], { type: `${output.mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = output.filename
+  link.style.display = 'none'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+  logger.info('content-script', 'Downloaded events as .ics file', { eventCount: events.length })
 }
 
-function openGoogleCalendar(eventData: any) {
-  console.log('[Content Script] Opening Google Calendar with event data:', eventData)
+function openGoogleCalendar(eventData: any, target?: CalendarTargetType, provider?: ExtractionSource) {
+  console.log('[Content Script] Opening calendar with event data:', eventData, target)
 
   // Send message to background script to handle calendar URL generation
+  // (it records the event in the history with this tab as its source)
   Browser.runtime.sendMessage({
     action: 'openCalendar',
-    eventData: eventData
+    eventData: eventData,
+    target: target,
+    provider: provider
   }).catch(error => {
     console.error('[Content Script] Error sending calendar message:', error)
   })
@@ -1132,6 +2147,7 @@ Browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
     if (message.action === 'showModal') {
       showConfirmationModal()
+      extractionPending = true
 
       // Verify modal was created and add fallback
       setTimeout(() => {
@@ -1149,7 +2165,17 @@ Browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
     } else if (message.action === 'hideModal') {
       hideConfirmationModal()
     } else if (message.action === 'showEventConfirmation') {
-      showEventConfirmation(message.eventData)
+      showEventConfirmation(message.events || [message.eventData], {
+        notice: message.notice,
+        referenceDate: message.referenceDate,
+        provider: message.provider,
+        draftId: message.draftId,
+        extractedEvents: message.extractedEvents
+      })
+    } else if (message.action === 'showExtractionSlow') {
+      showExtractionSlow()
+    } else if (message.action === 'showPartialEvents') {
+      showPartialEvents(message.events || [], message.pendingFields || [])
     } else if (message.action === 'showExtractionError') {
       logger.info('content-script', 'Showing extraction error modal', {
         originalText: message.originalText,
@@ -1168,6 +2194,31 @@ Browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
       showErrorModal(message.errorType)
     } else if (message.action === 'showError') {
       showErrorInModal(message.message)
+    } else if (message.action === 'getStructuredEvents') {
+      const events = extractStructuredEvents()
+      logger.info('content-script', 'Structured events found on page', { eventCount: events.length })
+      sendResponse({ events })
+      return true
+    } else if (message.action === 'getEmailContext') {
+      const context = getEmailContext()
+      if (context) {
+        logger.info('content-script', 'Selection is in an email', {
+          source: context.source,
+          sentAt: context.sentAt,
+          recipientCount: context.recipients.length
+        })
+      }
+      sendResponse({ context })
+      return true
+    } else if (message.action === 'getPageContent') {
+      const page = extractPageContent()
+      logger.info('content-script', 'Page content collected', { textLength: page.text.length })
+      sendResponse(page)
+      return true
+    } else if (message.action === 'getSelectionText') {
+      // For keyboard commands, which get no selection from the browser
+      sendResponse({ text: window.getSelection()?.toString() || '' })
+      return true
     } else if (message.action === 'ping') {
       // Respond to ping from background script
       logger.debug('content-script', 'Responding to ping')
@@ -1184,11 +2235,19 @@ Browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
 logger.info('content-script', 'Content script loaded and listener attached')
 
 // --- pagehide Listener ---
+// Hiding the modal also cancels an extraction still running for it
 window.addEventListener('pagehide', () => {
   logger.info('content-script', 'pagehide event detected, attempting to hide modal')
   hideConfirmationModal()
 })
 
+// Esc closes the confirmation modal (and cancels a running extraction)
+document.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape' && document.getElementById(MODAL_OVERLAY_ID)) {
+    hideConfirmationModal()
+  }
+})
+
 // --- Debug functions for testing (available in browser console) ---
 if (typeof window !== 'undefined') {
   (window as any).extensionDebug = {
@@ -1206,7 +2265,7 @@ if (typeof window !== 'undefined') {
         originalText: 'Test meeting tomorrow at 3 PM'
       }
       logger.info('content-script', 'Testing event confirmation with test data')
-      showEventConfirmation(testEventData)
+      showEventConfirmation([testEventData])
     },
     hideModal: () => {
       logger.info('content-script', 'Hiding modal via debug function')
@@ -0,0 +1,98 @@
+/**
+ * Collects the readable text of the page for extraction when nothing is
+ * selected: the title, the description and the headings and text blocks of
+ * the main content, without navigation, footers, forms or hidden elements.
+ */
+
+export interface PageContent {
+  title: string
+  url: string
+  text: string
+}
+
+// More than enough for a few prompt chunks; the rest of a long page is
+// rarely about the event it is named after
+const MAX_PAGE_TEXT_LENGTH = 40000
+// Below this the block walk probably missed the content (div-only layouts)
+const MIN_BLOCK_TEXT_LENGTH = 200
+
+const MAIN_CONTENT_SELECTOR = 'main, [role="main"], article'
+const BLOCK_SELECTOR =
+  'h1, h2, h3, h4, h5, h6, p, li, dt, dd, th, td, time, address, blockquote, pre, figcaption'
+const EXCLUDED_SELECTOR = [
+  'nav',
+  'footer',
+  'aside',
+  'form',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[hidden]',
+  '[aria-hidden="true"]',
+  // The extension's own modal
+  '[id^="extension-"]',
+].join(', ')
+
+const cleanText = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim()
+
+function isExcluded(element: Element, root: Element): boolean {
+  const excluded = element.closest(EXCLUDED_SELECTOR)
+  // A <main> inside a <form> (common in app shells) still counts
+  return !!excluded && !excluded.contains(root)
+}
+
+/**
+ * Text blocks in document order. Blocks containing other blocks (an <li>
+ * wrapping a <p>) are skipped so no text appears twice.
+ */
+function collectBlocks(root: Element): string[] {
+  const lines: string[] = []
+  root.querySelectorAll(BLOCK_SELECTOR).forEach((element) => {
+    if (isExcluded(element, root) || element.querySelector(BLOCK_SELECTOR)) return
+    const text = cleanText(element.textContent)
+    if (!text) return
+    // Keep headings recognizable, they usually carry the event name
+    lines.push(/^H[1-6]$/.test(element.tagName) ? `## ${text}` : text)
+  })
+  return lines
+}
+
+function getMetaContent(root: Document, selector: string): string {
+  return cleanText(root.querySelector(selector)?.getAttribute('content'))
+}
+
+export function extractPageContent(root: Document = document): PageContent {
+  const title = cleanText(root.title) || getMetaContent(root, 'meta[property="og:title"]')
+  const description =
+    getMetaContent(root, 'meta[name="description"]') ||
+    getMetaContent(root, 'meta[property="og:description"]')
+
+  const mainContent = root.querySelector(MAIN_CONTENT_SELECTOR) || root.body
+  let lines = mainContent ? collectBlocks(mainContent) : []
+  if (lines.join('\n').length < MIN_BLOCK_TEXT_LENGTH && root.body) {
+    // innerText skips hidden elements and keeps the rendered line breaks
+    lines = (root.body.innerText || root.body.textContent || '')
+      .split('\n')
+      .map(cleanText)
+      .filter(Boolean)
+  }
+
+  // Repeated lines are menus, "Read more" links and the like
+  const seen = new Set<string>()
+  const body = lines.filter((line) => {
+    if (seen.has(line)) return false
+    seen.add(line)
+    return true
+  })
+
+  const text = [title && `# ${title}`, description, ...body]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_PAGE_TEXT_LENGTH)
+
+  return { title, url: root.location?.href || '', text }
+}
@@ -0,0 +1,219 @@
+/**
+ * Reads events that the page already describes in machine-readable form:
+ * schema.org Event JSON-LD, schema.org microdata and hCalendar
+ * (microformats v1 "vevent" and v2 "h-event"). Used before the AI when
+ * "Add to calendar" is invoked on a page without a selection.
+ */
+
+export interface StructuredEvent {
+  title: string
+  startDate: string
+  endDate: string
+  location: string
+  description: string
+}
+
+const MAX_EVENTS = 20
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+/**
+ * schema.org dates are ISO 8601. Values with a UTC offset are exact instants
+ * and are converted to local time; values without one are kept as written.
+ */
+function toEventDate(value: unknown): string {
+  if (typeof value !== 'string') return ''
+  const text = value.trim()
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text
+
+  const match = text.match(
+    /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  )
+  if (!match) return ''
+
+  if (!match[5]) return `${match[1]}T${match[2]}:${match[3]}:${match[4] || '00'}`
+
+  const date = new Date(text)
+  if (isNaN(date.getTime())) return ''
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  )
+}
+
+const UTC_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i
+
+/**
+ * Start and end dates; an end without a UTC offset ("...T23:00") is read
+ * in the start's offset so both describe the same local clock
+ */
+function toEventRange(
+  startValue: unknown,
+  endValue: unknown,
+): { startDate: string; endDate: string } {
+  const start = typeof startValue === 'string' ? startValue.trim() : ''
+  let end = typeof endValue === 'string' ? endValue.trim() : ''
+  const startOffset = start.includes('T') ? start.match(UTC_OFFSET_PATTERN)?.[1] : undefined
+  if (startOffset && end.includes('T') && !UTC_OFFSET_PATTERN.test(end)) end += startOffset
+  return { startDate: toEventDate(start), endDate: toEventDate(end) }
+}
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+
+function isEventType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type]
+  // Event and its subtypes (MusicEvent, BusinessEvent, ...), with or without a schema.org prefix
+  return types.some((value) => typeof value === 'string' && /(^|[/:])\w*Event$/.test(value))
+}
+
+function formatAddress(address: any): string {
+  if (typeof address === 'string') return cleanText(address)
+  if (!address || typeof address !== 'object') return ''
+  return ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode', 'addressCountry']
+    .map((key) => cleanText(typeof address[key] === 'object' ? address[key]?.name : address[key]))
+    .filter(Boolean)
+    .join(', ')
+}
+
+function formatJsonLdLocation(location: any): string {
+  if (Array.isArray(location)) {
+    return location.map(formatJsonLdLocation).filter(Boolean).join(' / ')
+  }
+  if (typeof location === 'string') return cleanText(location)
+  if (!location || typeof location !== 'object') return ''
+
+  // VirtualLocation only has a URL
+  if (location['@type'] === 'VirtualLocation') return cleanText(location.url)
+
+  const name = cleanText(location.name)
+  const address = formatAddress(location.address)
+  return [name, address && address !== name ? address : ''].filter(Boolean).join(', ')
+}
+
+function fromJsonLd(node: any): StructuredEvent {
+  const url = cleanText(node.url)
+  const description = cleanText(node.description)
+  return {
+    title: cleanText(node.name),
+    ...toEventRange(node.startDate, node.endDate),
+    location: formatJsonLdLocation(node.location),
+    description: [description, url].filter(Boolean).join('\n\n'),
+  }
+}
+
+function collectJsonLdEvents(node: any, events: StructuredEvent[]) {
+  if (Array.isArray(node)) {
+    node.forEach((item) => collectJsonLdEvents(item, events))
+    return
+  }
+  if (!node || typeof node !== 'object') return
+
+  if (isEventType(node['@type'])) events.push(fromJsonLd(node))
+  if (node['@graph']) collectJsonLdEvents(node['@graph'], events)
+  // ItemList of events, e.g. on venue listing pages
+  if (Array.isArray(node.itemListElement)) {
+    node.itemListElement.forEach((item: any) => collectJsonLdEvents(item?.item ?? item, events))
+  }
+}
+
+function extractJsonLd(root: ParentNode): StructuredEvent[] {
+  const events: StructuredEvent[] = []
+  root.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      collectJsonLdEvents(JSON.parse(script.textContent || ''), events)
+    } catch (error) {
+      // Invalid JSON-LD is common; skip the block
+    }
+  })
+  return events
+}
+
+/**
+ * Value of a microdata property: content/datetime attributes first, then text
+ */
+function getItemPropValue(scope: Element, property: string): string {
+  const element = Array.from(scope.querySelectorAll(`[itemprop~="${property}"]`)).find(
+    // Ignore properties of nested items (e.g. the Place's own "name")
+    (candidate) => candidate.parentElement?.closest('[itemscope]') === scope,
+  )
+  if (!element) return ''
+  return cleanText(
+    element.getAttribute('content') ||
+      element.getAttribute('datetime') ||
+      (element.hasAttribute('itemscope') ? '' : element.textContent),
+  )
+}
+
+function extractMicrodata(root: ParentNode): StructuredEvent[] {
+  return Array.from(root.querySelectorAll('[itemscope][itemtype]'))
+    .filter((scope) => isEventType((scope.getAttribute('itemtype') || '').split(/\s+/)))
+    .map((scope) => {
+      let location = getItemPropValue(scope, 'location')
+      const place = scope.querySelector('[itemprop~="location"][itemscope]')
+      if (place) {
+        const address = place.querySelector('[itemprop~="address"]')
+        location = [getItemPropValue(place, 'name'), cleanText(address?.textContent)]
+          .filter(Boolean)
+          .join(', ')
+      }
+      return {
+        title: getItemPropValue(scope, 'name'),
+        ...toEventRange(getItemPropValue(scope, 'startDate'), getItemPropValue(scope, 'endDate')),
+        location,
+        description: getItemPropValue(scope, 'description'),
+      }
+    })
+}
+
+/**
+ * Raw value of an hCalendar date property: datetime/title attributes (abbr
+ * and time patterns), then the value-class pattern, then text
+ */
+function getMicroformatDate(scope: Element, selector: string): string {
+  const element = scope.querySelector(selector)
+  if (!element) return ''
+  const valueElement = element.querySelector('.value')
+  return (
+    element.getAttribute('datetime') ||
+    element.getAttribute('title') ||
+    valueElement?.getAttribute('datetime') ||
+    valueElement?.getAttribute('title') ||
+    cleanText(valueElement?.textContent || element.textContent)
+  )
+}
+
+function getMicroformatText(scope: Element, selector: string): string {
+  const element = scope.querySelector(selector)
+  return element ? cleanText(element.getAttribute('title') || element.textContent) : ''
+}
+
+function extractMicroformats(root: ParentNode): StructuredEvent[] {
+  return Array.from(root.querySelectorAll('.vevent, .h-event')).map((scope) => ({
+    title: getMicroformatText(scope, '.summary, .p-name'),
+    ...toEventRange(
+      getMicroformatDate(scope, '.dtstart, .dt-start'),
+      getMicroformatDate(scope, '.dtend, .dt-end'),
+    ),
+    location: getMicroformatText(scope, '.location, .p-location'),
+    description: getMicroformatText(scope, '.description, .p-description, .e-content'),
+  }))
+}
+
+/**
+ * Returns the structured events on the page, without duplicates (pages
+ * often carry the same event as JSON-LD and microdata) and only those with
+ * a usable start date.
+ */
+export function extractStructuredEvents(root: ParentNode = document): StructuredEvent[] {
+  const seen = new Set<string>()
+  return [...extractJsonLd(root), ...extractMicrodata(root), ...extractMicroformats(root)]
+    .filter((event) => {
+      if (!event.startDate) return false
+      const key = `${event.title.toLowerCase()}|${event.startDate}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, MAX_EVENTS)
+}
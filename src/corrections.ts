@@ -0,0 +1,168 @@
+import Browser from 'webextension-polyfill'
+import { CalendarEventData } from './calendar-event'
+import { ProviderType } from './config'
+import { ExtractionSource } from './history'
+import { logger } from './logging'
+
+/**
+ * Corrections the user made in the confirmation form, kept on the device and
+ * sent back to the AI as personal few-shot examples for similar texts.
+ */
+
+const CORRECTIONS_KEY = 'extraction_corrections'
+export const MAX_STORED_CORRECTIONS = 50
+// Examples per prompt; more mostly costs tokens
+export const MAX_PROMPT_CORRECTIONS = 3
+// Long selections make poor examples and bloat every prompt they are used in
+const MAX_EXAMPLE_TEXT_LENGTH = 600
+
+export const CORRECTION_FIELDS = [
+  'title',
+  'startDate',
+  'endDate',
+  'location',
+  'description',
+] as const
+
+export type CorrectionField = typeof CORRECTION_FIELDS[number]
+export type CorrectionValues = Pick<CalendarEventData, CorrectionField>
+
+export interface ExtractionCorrection {
+  id: string
+  originalText: string
+  /** Local "YYYY-MM-DD" the text was read against, for relative dates */
+  referenceDate: string
+  /** What the AI extracted */
+  extracted: CorrectionValues
+  /** What the user added to the calendar */
+  corrected: CorrectionValues
+  createdAt: number
+}
+
+// Form inputs drop seconds ("2025-03-04T15:00"), the AI usually sends them
+const normalizeValue = (field: CorrectionField, value: string | null | undefined) => {
+  const text = (value || '').trim()
+  return field === 'startDate' || field === 'endDate'
+    ? text.replace(/^(.*T\d{2}:\d{2}):00$/, '$1')
+    : text
+}
+
+export function pickCorrectionValues(eventData: Partial<CalendarEventData>): CorrectionValues {
+  return {
+    title: eventData.title || '',
+    startDate: eventData.startDate || '',
+    endDate: eventData.endDate || '',
+    location: eventData.location || '',
+    description: eventData.description || '',
+  }
+}
+
+/**
+ * The reference date sent with extracted events, which turns edits into
+ * corrections. Only AI results get one: edits to the rule-based parser or to
+ * page data would teach later prompts the parser's mistakes.
+ */
+export function getCorrectionReferenceDate(
+  provider: ExtractionSource | null | undefined,
+  referenceDate: string,
+): string | undefined {
+  return provider && provider !== ProviderType.LOCAL && provider !== 'structured-data'
+    ? referenceDate
+    : undefined
+}
+
+/**
+ * Fields the user changed before adding the event
+ */
+export function getChangedFields(
+  extracted: Partial<CalendarEventData>,
+  corrected: Partial<CalendarEventData>,
+): CorrectionField[] {
+  return CORRECTION_FIELDS.filter(
+    (field) => normalizeValue(field, extracted[field]) !== normalizeValue(field, corrected[field]),
+  )
+}
+
+export async function getCorrections(): Promise<ExtractionCorrection[]> {
+  try {
+    const result = await Browser.storage.local.get(CORRECTIONS_KEY)
+    return Array.isArray(result[CORRECTIONS_KEY]) ? result[CORRECTIONS_KEY] : []
+  } catch (error) {
+    logger.error('corrections', 'Failed to load corrections', undefined, error as Error)
+    return []
+  }
+}
+
+async function saveCorrections(corrections: ExtractionCorrection[]): Promise<void> {
+  await Browser.storage.local.set({ [CORRECTIONS_KEY]: corrections })
+}
+
+/**
+ * Stores a correction, newest first. A newer correction of the same text
+ * replaces the older one.
+ */
+export async function addCorrection(
+  correction: Omit<ExtractionCorrection, 'id' | 'createdAt'>,
+): Promise<void> {
+  if (!correction.originalText.trim() || correction.originalText.length > MAX_EXAMPLE_TEXT_LENGTH) {
+    return
+  }
+  try {
+    const corrections = await getCorrections()
+    const stored: ExtractionCorrection = {
+      ...correction,
+      id: `correction-${Date.now()}`,
+      createdAt: Date.now(),
+    }
+    await saveCorrections(
+      [
+        stored,
+        ...corrections.filter(
+          (item) =>
+            item.originalText !== correction.originalText ||
+            item.extracted.title !== correction.extracted.title,
+        ),
+      ].slice(0, MAX_STORED_CORRECTIONS),
+    )
+    logger.info('corrections', 'Correction saved', {
+      changedFields: getChangedFields(correction.extracted, correction.corrected),
+    })
+  } catch (error) {
+    logger.error('corrections', 'Failed to save correction', undefined, error as Error)
+  }
+}
+
+export async function deleteCorrection(id: string): Promise<void> {
+  const corrections = await getCorrections()
+  await saveCorrections(corrections.filter((item) => item.id !== id))
+}
+
+export async function clearCorrections(): Promise<void> {
+  await Browser.storage.local.remove(CORRECTIONS_KEY)
+}
+
+const tokenize = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [])
+
+/**
+ * The corrections most similar to the text (shared words), newest first among
+ * equally similar ones. Corrections without any shared word are not used.
+ */
+export function selectRelevantCorrections(
+  corrections: ExtractionCorrection[],
+  text: string,
+  limit = MAX_PROMPT_CORRECTIONS,
+): ExtractionCorrection[] {
+  const words = tokenize(text)
+  return corrections
+    .map((correction) => {
+      const correctionWords = tokenize(correction.originalText)
+      const shared = Array.from(correctionWords).filter((word) => words.has(word)).length
+      // Jaccard similarity, so long examples do not win by size alone
+      const score = shared / (words.size + correctionWords.size - shared || 1)
+      return { correction, score }
+    })
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || b.correction.createdAt - a.correction.createdAt)
+    .slice(0, limit)
+    .map((item) => item.correction)
+}
@@ -0,0 +1,314 @@
+import { FormEvent, ReactNode, useCallback, useEffect, useState } from 'react'
+import Browser from 'webextension-polyfill'
+import '../base.css'
+import { CalendarEventData, isAllDayDate } from '../calendar-event'
+import { buildIcsFileOutput, CALENDAR_TARGETS } from '../calendar-targets'
+import { CalendarTargetType, getUserConfig } from '../config'
+import { deleteDraft, ExtractionDraft, getDrafts, saveDraft } from '../drafts'
+import { addToHistory, HistorySource } from '../history'
+import logo from '../logo.png'
+
+const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 text-sm box-border'
+
+function getDraftIdFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get('id')
+}
+
+function describeDraft(draft: ExtractionDraft): string {
+  const [first] = draft.events
+  const title = first?.title || 'Untitled event'
+  return draft.events.length > 1 ? `${title} (+${draft.events.length - 1} more)` : title
+}
+
+function downloadIcs(events: CalendarEventData[]) {
+  const output = buildIcsFileOutput(events)
+  if (output?.type !== 'file') return false
+  const url = URL.createObjectURL(
+    new Blob([output.content], { type: `${output.mimeType};charset=utf-8` }),
+  )
+  const link = document.createElement('a')
+  link.href = url
+  link.download = output.filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+  return true
+}
+
+function Field(props: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-gray-600">
+      {props.label}
+      {props.children}
+    </label>
+  )
+}
+
+function EventEditor(props: {
+  event: CalendarEventData
+  selected: boolean | null
+  onChange: (event: CalendarEventData) => void
+  onSelect: (selected: boolean) => void
+}) {
+  const { event, onChange } = props
+  const dateType = isAllDayDate(event.startDate) ? 'date' : 'datetime-local'
+  const update = (field: string) => (e: FormEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...event, [field]: e.currentTarget.value })
+
+  return (
+    <div
+      className={`flex flex-col gap-2 border border-gray-200 rounded-lg p-4 ${
+        props.selected === false ? 'opacity-50' : ''
+      }`}
+    >
+      {props.selected !== null && (
+        <label className="flex flex-row items-center gap-2 text-sm font-semibold">
+          <input
+            type="checkbox"
+            checked={props.selected}
+            onChange={(e) => props.onSelect((e.target as HTMLInputElement).checked)}
+          />
+          Add this event
+        </label>
+      )}
+      <Field label="Title">
+        <input className={inputClassName} value={event.title} onInput={update('title')} />
+      </Field>
+      <div className="flex flex-row gap-2">
+        <Field label="Start">
+          <input
+            type={dateType}
+            className={inputClassName}
+            value={event.startDate}
+            onInput={update('startDate')}
+          />
+        </Field>
+        <Field label="End">
+          <input
+            type={dateType}
+            className={inputClassName}
+            value={event.endDate || ''}
+            onInput={update('endDate')}
+          />
+        </Field>
+      </div>
+      {event.timeZone && <p className="m-0 text-xs text-gray-500">Times in {event.timeZone}</p>}
+      <Field label="Location">
+        <input
+          className={inputClassName}
+          value={event.location || ''}
+          onInput={update('location')}
+        />
+      </Field>
+      <Field label="Description">
+        <textarea
+          className={inputClassName}
+          rows={3}
+          value={event.description || ''}
+          onInput={update('description')}
+        />
+      </Field>
+    </div>
+  )
+}
+
+function DraftEditor(props: { draft: ExtractionDraft; onDone: () => void }) {
+  const { draft } = props
+  const [events, setEvents] = useState<CalendarEventData[]>(draft.events)
+  const [selected, setSelected] = useState<boolean[]>(draft.events.map(() => true))
+  const [target, setTarget] = useState<CalendarTargetType>(CalendarTargetType.Google)
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    getUserConfig().then((config) => setTarget(config.calendarTarget))
+  }, [])
+
+  const updateEvent = (index: number, event: CalendarEventData) => {
+    setEvents(events.map((item, i) => (i === index ? event : item)))
+    setStatus('')
+  }
+
+  const save = useCallback(async () => {
+    await saveDraft({ ...draft, events })
+    setStatus('Draft saved')
+  }, [draft, events])
+
+  const discard = useCallback(async () => {
+    if (!confirm('Discard this draft?')) return
+    await deleteDraft(draft.id)
+    props.onDone()
+  }, [draft.id, props])
+
+  const addToCalendar = useCallback(async () => {
+    const selectedEvents = events.filter((_, index) => selected[index])
+    if (selectedEvents.some((event) => !event.title?.trim() || !event.startDate)) {
+      setStatus('Every event needs a title and a start date')
+      return
+    }
+
+    const historySource: HistorySource = {
+      sourceUrl: draft.pageUrl,
+      pageTitle: draft.pageTitle,
+      provider: draft.provider,
+    }
+    // Several events for a file target go into one .ics file, as in the page dialog
+    if (target === CalendarTargetType.Ics && selectedEvents.length > 1) {
+      if (!downloadIcs(selectedEvents)) {
+        setStatus('Could not create a calendar file. Please check the start dates.')
+        return
+      }
+      await addToHistory(selectedEvents, target, historySource)
+    } else {
+      for (const eventData of selectedEvents) {
+        await Browser.runtime.sendMessage({
+          action: 'openCalendar',
+          eventData,
+          target,
+          historySource,
+        })
+      }
+    }
+    await deleteDraft(draft.id)
+    props.onDone()
+  }, [draft, events, props, selected, target])
+
+  const selectedCount = selected.filter(Boolean).length
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="m-0 text-xs text-gray-500">
+        Saved {new Date(draft.savedAt).toLocaleString()}
+        {draft.pageUrl && (
+          <>
+            {' from '}
+            <a href={draft.pageUrl} target="_blank" rel="noreferrer">
+              {draft.pageTitle || draft.pageUrl}
+            </a>
+          </>
+        )}
+      </p>
+      {draft.notice && (
+        <p className="m-0 p-2 rounded bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm">
+          {draft.notice}
+        </p>
+      )}
+      {events.map((event, index) => (
+        <EventEditor
+          key={index}
+          event={event}
+          selected={events.length > 1 ? selected[index] : null}
+          onChange={(value) => updateEvent(index, value)}
+          onSelect={(value) => setSelected(selected.map((item, i) => (i === index ? value : item)))}
+        />
+      ))}
+      <div className="flex flex-row items-center gap-2">
+        <select
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+          title="Calendar to add the event to"
+          value={target}
+          onChange={(e) => setTarget((e.target as HTMLSelectElement).value as CalendarTargetType)}
+        >
+          {CALENDAR_TARGETS.map((item) => (
+            <option key={item.type} value={item.type}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">{status}</span>
+        <div className="grow"></div>
+        <button className="rounded border border-gray-300 px-3 py-1 text-sm" onClick={discard}>
+          Discard
+        </button>
+        <button className="rounded border border-gray-300 px-3 py-1 text-sm" onClick={save}>
+          Save draft
+        </button>
+        <button
+          className="rounded bg-black text-white px-3 py-1 text-sm disabled:opacity-50"
+          disabled={selectedCount === 0}
+          onClick={addToCalendar}
+        >
+          {events.length > 1 ? `Add ${selectedCount} to Calendar` : 'Add to Calendar'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function App() {
+  const [drafts, setDrafts] = useState<ExtractionDraft[] | null>(null)
+  const [draftId, setDraftId] = useState(getDraftIdFromUrl())
+
+  const loadDrafts = useCallback(async () => {
+    setDrafts(await getDrafts())
+  }, [])
+
+  useEffect(() => {
+    loadDrafts()
+  }, [loadDrafts])
+
+  const openDraft = useCallback((id: string | null) => {
+    history.replaceState(null, '', id ? `?id=${encodeURIComponent(id)}` : window.location.pathname)
+    setDraftId(id)
+  }, [])
+
+  const draft = drafts?.find((item) => item.id === draftId)
+
+  return (
+    <div className="flex flex-col gap-4 max-w-2xl mx-auto my-8 px-4 font-sans">
+      <div className="flex flex-row items-center gap-2">
+        <img src={logo} className="w-6 h-6 rounded-sm" />
+        <h1 className="text-lg font-semibold m-0">
+          {draft ? describeDraft(draft) : 'Drafts waiting to be added'}
+        </h1>
+        <div className="grow"></div>
+        {draft && (
+          <a className="text-sm underline cursor-pointer" onClick={() => openDraft(null)}>
+            All drafts
+          </a>
+        )}
+      </div>
+
+      {drafts &&
+        (draft ? (
+          <DraftEditor
+            key={draft.id}
+            draft={draft}
+            onDone={async () => {
+              openDraft(null)
+              await loadDrafts()
+            }}
+          />
+        ) : drafts.length === 0 ? (
+          <p className="m-0 text-sm text-gray-500">
+            {draftId
+              ? 'This draft was already added or discarded.'
+              : 'No drafts. Events you extract but do not add yet show up here.'}
+          </p>
+        ) : (
+          <ul className="m-0 p-0 list-none flex flex-col gap-2">
+            {drafts.map((item) => (
+              <li
+                key={item.id}
+                className="flex flex-row items-center gap-2 border border-gray-200 rounded-lg p-3"
+              >
+                <div className="grow min-w-0">
+                  <div className="truncate text-sm font-semibold">{describeDraft(item)}</div>
+                  <div className="truncate text-xs text-gray-500">
+                    {new Date(item.savedAt).toLocaleString()}
+                    {item.pageTitle && ` · ${item.pageTitle}`}
+                  </div>
+                </div>
+                <button
+                  className="rounded border border-gray-300 px-3 py-1 text-sm"
+                  onClick={() => openDraft(item.id)}
+                >
+                  Open
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  )
+}
+
+export default App
@@ -0,0 +1,108 @@
+import Browser from 'webextension-polyfill'
+import { CalendarEventData } from './calendar-event'
+import { ExtractionSource } from './history'
+import { logger } from './logging'
+
+/**
+ * Extraction results shown for confirmation, kept until their events are
+ * added or the draft is discarded, so a closed dialog (Cancel, leaving the
+ * page) does not lose the result. Newest first; the popup lists them and the
+ * drafts page finishes them.
+ */
+
+const DRAFTS_KEY = 'extraction_drafts'
+export const MAX_DRAFTS = 20
+
+export interface ExtractionDraft {
+  id: string
+  /** As shown in the confirmation dialog, with the user's edits */
+  events: CalendarEventData[]
+  /** The events as extracted, before any edit; corrections are compared against these */
+  extractedEvents?: CalendarEventData[]
+  notice?: string
+  /** Set for AI results, see showEventConfirmation in the content script */
+  referenceDate?: string
+  provider?: ExtractionSource
+  pageUrl: string
+  pageTitle?: string
+  savedAt: number
+}
+
+export type DraftInput = Omit<ExtractionDraft, 'id' | 'savedAt'> & { id?: string }
+
+export const createDraftId = () => `draft-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export async function getDrafts(): Promise<ExtractionDraft[]> {
+  try {
+    const result = await Browser.storage.local.get(DRAFTS_KEY)
+    return Array.isArray(result[DRAFTS_KEY]) ? result[DRAFTS_KEY] : []
+  } catch (error) {
+    logger.error('drafts', 'Failed to load drafts', undefined, error as Error)
+    return []
+  }
+}
+
+export async function getDraft(id: string): Promise<ExtractionDraft | null> {
+  return (await getDrafts()).find((draft) => draft.id === id) || null
+}
+
+export async function getLastDraft(): Promise<ExtractionDraft | null> {
+  return (await getDrafts())[0] || null
+}
+
+// Storage has no transactions: each write reads the list and stores it
+// again, so writes from this page are queued to keep a save from the next
+// form change from bringing back a draft deleted on confirm
+let pendingWrite: Promise<unknown> = Promise.resolve()
+
+function queueDraftWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = pendingWrite.then(write)
+  pendingWrite = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Saves the draft as the newest one, replacing the draft with the same id.
+ * Returns the id, new for drafts saved the first time.
+ */
+export function saveDraft(input: DraftInput): Promise<string> {
+  const draft: ExtractionDraft = { ...input, id: input.id || createDraftId(), savedAt: Date.now() }
+  return queueDraftWrite(async () => {
+    try {
+      const drafts = await getDrafts()
+      await Browser.storage.local.set({
+        [DRAFTS_KEY]: [draft, ...drafts.filter((item) => item.id !== draft.id)].slice(
+          0,
+          MAX_DRAFTS,
+        ),
+      })
+    } catch (error) {
+      logger.error('drafts', 'Failed to save draft', undefined, error as Error)
+    }
+    return draft.id
+  })
+}
+
+export function deleteDraft(id: string): Promise<void> {
+  return queueDraftWrite(async () => {
+    try {
+      const drafts = await getDrafts()
+      await Browser.storage.local.set({ [DRAFTS_KEY]: drafts.filter((draft) => draft.id !== id) })
+    } catch (error) {
+      logger.error('drafts', 'Failed to delete draft', undefined, error as Error)
+    }
+  })
+}
+
+export async function clearDrafts(): Promise<void> {
+  await Browser.storage.local.remove(DRAFTS_KEY)
+}
+
+/** Calls back with the drafts whenever they change, e.g. to update the badge */
+export function onDraftsChanged(callback: (drafts: ExtractionDraft[]) => void) {
+  Browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[DRAFTS_KEY]) {
+      callback(Array.isArray(changes[DRAFTS_KEY].newValue) ? changes[DRAFTS_KEY].newValue : [])
+    }
+  })
+}
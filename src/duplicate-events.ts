@@ -0,0 +1,112 @@
+import { CalendarEventData, isAllDayDate } from './calendar-event'
+import { HistoryEntry } from './history'
+import { parseDateTimeInZone } from './timezones'
+
+/**
+ * Finds events in the history that look like the one about to be added, e.g.
+ * the same invite forwarded in several email threads. Events are duplicates
+ * when their times overlap and their titles are similar; a matching location
+ * lowers how similar the titles must be, a different one raises it.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const TITLE_SIMILARITY = 0.5
+const TITLE_SIMILARITY_SAME_LOCATION = 0.3
+const TITLE_SIMILARITY_OTHER_LOCATION = 0.8
+
+// Words mail clients and calendars add to titles of the same event
+const IGNORED_TITLE_WORDS = new Set([
+  're',
+  'fw',
+  'fwd',
+  'invitation',
+  'invite',
+  'updated',
+  'accepted',
+  'reminder',
+])
+
+const tokenize = (text: string | null | undefined) =>
+  new Set(
+    ((text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+      (word) => !IGNORED_TITLE_WORDS.has(word),
+    ),
+  )
+
+/**
+ * Share of words the two texts have in common (0-1). A text whose words all
+ * appear in the other counts as the same, e.g. "Standup" and "Team standup".
+ */
+export function getTextSimilarity(
+  a: string | null | undefined,
+  b: string | null | undefined,
+): number {
+  const wordsA = tokenize(a)
+  const wordsB = tokenize(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length
+  if (shared === Math.min(wordsA.size, wordsB.size)) return 1
+  return (2 * shared) / (wordsA.size + wordsB.size)
+}
+
+/**
+ * Start and end of the event in ms. A missing or invalid end lasts an hour,
+ * or the whole day for all-day events.
+ */
+export function getEventInterval(
+  event: Pick<CalendarEventData, 'startDate' | 'endDate' | 'timeZone'>,
+) {
+  const parse = (value: string | null | undefined) => {
+    if (value && isAllDayDate(value)) {
+      const [year, month, day] = value.split('-').map(Number)
+      return new Date(year, month - 1, day).getTime()
+    }
+    return parseDateTimeInZone(value, event.timeZone)?.getTime() ?? null
+  }
+  const start = parse(event.startDate)
+  if (start === null) return null
+  const minimumEnd = start + (isAllDayDate(event.startDate) ? DAY_MS : HOUR_MS)
+  const end = parse(event.endDate)
+  return { start, end: end !== null && end > start ? end : minimumEnd }
+}
+
+function isDuplicate(event: CalendarEventData, entry: HistoryEntry): boolean {
+  const interval = getEventInterval(event)
+  const other = getEventInterval(entry.event)
+  const overlaps = !!interval && !!other && interval.start < other.end && other.start < interval.end
+  if (!overlaps) return false
+
+  let threshold = TITLE_SIMILARITY
+  if (event.location?.trim() && entry.event.location?.trim()) {
+    threshold =
+      getTextSimilarity(event.location, entry.event.location) >= 0.5
+        ? TITLE_SIMILARITY_SAME_LOCATION
+        : TITLE_SIMILARITY_OTHER_LOCATION
+  }
+  return getTextSimilarity(event.title, entry.event.title) >= threshold
+}
+
+/**
+ * The history entry the event most likely duplicates, or null. Among several
+ * matches the most similar title wins, then the most recently added.
+ */
+export function findDuplicateEntry(
+  event: CalendarEventData,
+  history: HistoryEntry[],
+): HistoryEntry | null {
+  let best: { entry: HistoryEntry; score: number } | null = null
+  for (const entry of history) {
+    if (!isDuplicate(event, entry)) continue
+    const score = getTextSimilarity(event.title, entry.event.title)
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && entry.createdAt > best.entry.createdAt)
+    ) {
+      best = { entry, score }
+    }
+  }
+  return best?.entry ?? null
+}
@@ -2,3 +2,8 @@ declare module '*.png' {
   const value: any
   export = value
 }
+
+// Missing from the DOM types of TypeScript 4.9
+interface OffscreenCanvas {
+  convertToBlob(options?: { type?: string; quality?: number }): Promise<Blob>
+}
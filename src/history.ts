@@ -0,0 +1,172 @@
+import Browser from 'webextension-polyfill'
+import { CalendarEventData } from './calendar-event'
+import { CalendarTargetType, ProviderType } from './config'
+import { logger } from './logging'
+
+/**
+ * Events the user added to a calendar, newest first, with where they came
+ * from, so they can be found and opened again (popup, History tab)
+ */
+
+const HISTORY_KEY = 'event_history'
+export const MAX_HISTORY_ENTRIES = 500
+// The original text is kept for search; long page selections are cut
+const MAX_STORED_TEXT_LENGTH = 2000
+
+/** What read the event: an AI provider, the local parser or page markup */
+export type ExtractionSource = ProviderType | 'structured-data'
+
+export const EXTRACTION_SOURCE_TEXT: Record<ExtractionSource, string> = {
+  [ProviderType.GPT3]: 'OpenAI',
+  [ProviderType.GEMINI]: 'Gemini',
+  [ProviderType.LOCAL]: 'Local parser',
+  'structured-data': 'Page event data',
+}
+
+export interface HistorySource {
+  sourceUrl?: string | null
+  pageTitle?: string | null
+  provider?: ExtractionSource | null
+}
+
+export interface HistoryEntry extends HistorySource {
+  id: string
+  event: CalendarEventData
+  target: CalendarTargetType
+  createdAt: number
+}
+
+export interface HistoryFilter {
+  /** Only these entries, e.g. the ones a duplicate warning points to */
+  ids?: string[] | null
+  query?: string
+  target?: CalendarTargetType | null
+  provider?: ExtractionSource | null
+  /** Only entries added at or after this time */
+  since?: number | null
+}
+
+/** Address of the History tab of the options page, showing only the given entries */
+export function getHistoryPageUrl(ids: string[]): string {
+  const params = new URLSearchParams({ tab: 'history' })
+  for (const id of ids) params.append('entry', id)
+  return Browser.runtime.getURL(`options.html?${params}`)
+}
+
+export async function getHistory(): Promise<HistoryEntry[]> {
+  try {
+    const result = await Browser.storage.local.get(HISTORY_KEY)
+    return Array.isArray(result[HISTORY_KEY]) ? result[HISTORY_KEY] : []
+  } catch (error) {
+    logger.error('history', 'Failed to load event history', undefined, error as Error)
+    return []
+  }
+}
+
+// Storage has no transactions: each write reads the list and stores it
+// again, so writes from this page are queued to keep parallel additions
+// (one openCalendar message per selected event) from losing entries
+let pendingWrite: Promise<unknown> = Promise.resolve()
+
+function queueHistoryWrite(write: () => Promise<void>): Promise<void> {
+  const result = pendingWrite.then(write)
+  pendingWrite = result.catch(() => undefined)
+  return result
+}
+
+const createHistoryId = (createdAt: number) =>
+  `event-${createdAt}-${Math.random().toString(36).slice(2, 8)}`
+
+export function addToHistory(
+  events: CalendarEventData[],
+  target: CalendarTargetType,
+  source: HistorySource = {},
+): Promise<void> {
+  return queueHistoryWrite(async () => {
+    try {
+      const createdAt = Date.now()
+      const entries: HistoryEntry[] = events.map((event) => ({
+        id: createHistoryId(createdAt),
+        event: { ...event, originalText: event.originalText?.slice(0, MAX_STORED_TEXT_LENGTH) },
+        target,
+        createdAt,
+        sourceUrl: source.sourceUrl || null,
+        pageTitle: source.pageTitle || null,
+        provider: source.provider || null,
+      }))
+      const history = await getHistory()
+      await Browser.storage.local.set({
+        [HISTORY_KEY]: [...entries, ...history].slice(0, MAX_HISTORY_ENTRIES),
+      })
+    } catch (error) {
+      logger.error('history', 'Failed to save event history', undefined, error as Error)
+    }
+  })
+}
+
+export function deleteHistoryEntry(id: string): Promise<void> {
+  return queueHistoryWrite(async () => {
+    const history = await getHistory()
+    await Browser.storage.local.set({ [HISTORY_KEY]: history.filter((entry) => entry.id !== id) })
+  })
+}
+
+export async function clearHistory(): Promise<void> {
+  await Browser.storage.local.remove(HISTORY_KEY)
+}
+
+/**
+ * Entries matching the filter. The query matches every word anywhere in the
+ * event, its original text or the page it came from.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const words = (filter.query || '').toLowerCase().split(/\s+/).filter(Boolean)
+  return entries.filter((entry) => {
+    if (filter.ids && !filter.ids.includes(entry.id)) return false
+    if (filter.target && entry.target !== filter.target) return false
+    if (filter.provider && entry.provider !== filter.provider) return false
+    if (filter.since && entry.createdAt < filter.since) return false
+    const haystack = [
+      entry.event.title,
+      entry.event.location,
+      entry.event.description,
+      entry.event.originalText,
+      entry.pageTitle,
+      entry.sourceUrl,
+    ]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase()
+    return words.every((word) => haystack.includes(word))
+  })
+}
+
+const CSV_COLUMNS: [string, (entry: HistoryEntry) => string | null | undefined][] = [
+  ['Title', (entry) => entry.event.title],
+  ['Start', (entry) => entry.event.startDate],
+  ['End', (entry) => entry.event.endDate],
+  ['Location', (entry) => entry.event.location],
+  ['Description', (entry) => entry.event.description],
+  ['Time zone', (entry) => entry.event.timeZone],
+  ['Calendar', (entry) => entry.target],
+  ['Extracted by', (entry) => entry.provider],
+  ['Added', (entry) => new Date(entry.createdAt).toISOString()],
+  ['Page title', (entry) => entry.pageTitle],
+  ['Page URL', (entry) => entry.sourceUrl],
+  ['Original text', (entry) => entry.event.originalText],
+]
+
+const escapeCsvValue = (value: string | null | undefined) => {
+  // Text from web pages starting with =, +, - or @ would run as a formula
+  // in spreadsheets; the quote makes it plain text
+  const text = /^[=+\-@\t\r]/.test(value || '') ? `'${value}` : value || ''
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildHistoryCsv(entries: HistoryEntry[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...entries.map((entry) => CSV_COLUMNS.map(([, getValue]) => getValue(entry))),
+  ]
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid'
+import { EventAttendee } from './attendees'
+import { buildEventDetails, CalendarEventData, isAllDayDate } from './calendar-event'
+import { buildRRule } from './recurrence'
+import { parseDateTimeInZone } from './timezones'
+
+/**
+ * RFC 5545 (iCalendar) serializer used for the "Download .ics" output.
+ *
+ * Timed events are written in UTC (the form values are wall-clock times in
+ * the event's timezone or the local one), all-day events as VALUE=DATE with an exclusive DTEND.
+ */
+
+const PRODUCT_ID = '-//ChatGPT for Google Calendar//Event Export//EN'
+const UID_DOMAIN = 'chatgpt-google-calendar.extension'
+const MAX_LINE_OCTETS = 75
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * Folds a content line so that no physical line exceeds 75 octets
+ * (RFC 5545 section 3.1). Multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line
+  }
+
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length
+    if (currentOctets + charOctets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += charOctets
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function formatUtcDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  )
+}
+
+function parseDateOnly(dateString: string): Date | null {
+  const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  return isNaN(date.getTime()) ? null : date
+}
+
+function formatDateValue(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getTime())
+  next.setUTCDate(next.getUTCDate() + days)
+  return next
+}
+
+/**
+ * Returns the DTSTART/DTEND lines for an event, or null if the start date
+ * cannot be parsed.
+ */
+function buildDateLines(eventData: CalendarEventData): string[] | null {
+  if (isAllDayDate(eventData.startDate)) {
+    const start = parseDateOnly(eventData.startDate)
+    if (!start) return null
+
+    // DTEND is exclusive for all-day events; a timed or missing end date
+    // collapses to a single day.
+    const end = isAllDayDate(eventData.endDate) ? parseDateOnly(eventData.endDate) : null
+    const exclusiveEnd = addDays(end && end >= start ? end : start, 1)
+
+    return [
+      `DTSTART;VALUE=DATE:${formatDateValue(start)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(exclusiveEnd)}`,
+    ]
+  }
+
+  const start = parseDateTimeInZone(eventData.startDate, eventData.timeZone)
+  if (!start) return null
+
+  let end = parseDateTimeInZone(eventData.endDate, eventData.timeZone)
+  if (!end || end < start) {
+    end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS)
+  }
+
+  return [`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`]
+}
+
+/**
+ * ATTENDEE line for a guest with an email address (RFC 5545 section 3.8.4.1)
+ */
+function buildAttendeeLine(attendee: EventAttendee): string | null {
+  if (!attendee.email) return null
+  // CN is a quoted parameter value, which cannot contain double quotes
+  const commonName = attendee.name ? `;CN="${attendee.name.replace(/"/g, "'")}"` : ''
+  return `ATTENDEE${commonName};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${attendee.email}`
+}
+
+function buildEventLines(eventData: CalendarEventData, timestamp: string): string[] | null {
+  const dateLines = buildDateLines(eventData)
+  if (!dateLines) return null
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uuidv4()}@${UID_DOMAIN}`,
+    `DTSTAMP:${timestamp}`,
+    ...dateLines,
+    `SUMMARY:${escapeIcsText(eventData.title || 'Event from Text')}`,
+  ]
+
+  const rrule = buildRRule(
+    eventData.recurrence,
+    isAllDayDate(eventData.startDate),
+    eventData.timeZone,
+  )
+  if (rrule) lines.push(`RRULE:${rrule}`)
+
+  if (eventData.location) lines.push(`LOCATION:${escapeIcsText(eventData.location)}`)
+
+  for (const attendee of eventData.attendees || []) {
+    const attendeeLine = buildAttendeeLine(attendee)
+    if (attendeeLine) lines.push(attendeeLine)
+  }
+
+  const details = buildEventDetails(eventData)
+  if (details) lines.push(`DESCRIPTION:${escapeIcsText(details)}`)
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Serializes events into a VCALENDAR document. Events whose start date
+ * cannot be parsed are skipped; returns null if no event could be written.
+ */
+export function buildIcsCalendar(events: CalendarEventData[]): string | null {
+  const timestamp = formatUtcDateTime(new Date())
+  const eventLines = events
+    .map((eventData) => buildEventLines(eventData, timestamp))
+    .filter((lines): lines is string[] => lines !== null)
+
+  if (eventLines.length === 0) {
+    return null
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...eventLines.flat(),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Builds a file-system friendly .ics file name from the event title
+ */
+export function buildIcsFilename(title: string | null | undefined): string {
+  const base = (title || 'event')
+    .trim()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${base || 'event'}.ics`
+}
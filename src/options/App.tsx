@@ -1,22 +1,53 @@
-import { CssBaseline, GeistProvider, Tabs, Text, useToasts } from '@geist-ui/core'
+import {
+  CssBaseline,
+  GeistProvider,
+  Radio,
+  Select,
+  Tabs,
+  Text,
+  Toggle,
+  useToasts,
+} from '@geist-ui/core'
 import { useCallback, useEffect, useMemo, useState } from 'preact/hooks'
 import '../base.css'
-import { getUserConfig, Language, Theme, TriggerMode, updateUserConfig } from '../config'
+import {
+  CalendarTargetType,
+  CALENDAR_TARGET_TEXT,
+  DateOrder,
+  DATE_ORDER_TEXT,
+  getUserConfig,
+  Language,
+  LANGUAGE_TEXT,
+  Theme,
+  TriggerMode,
+  updateUserConfig,
+} from '../config'
 import logo from '../logo.png'
 import { detectSystemColorScheme, getExtensionVersion } from '../utils'
+import CorrectionsPanel from './CorrectionsPanel'
 import DebugPanel from './DebugPanel'
+import HistoryPanel from './HistoryPanel'
 import OnboardingPanel from './OnboardingPanel'
+import PromptEditor from './PromptEditor'
 import ProviderSelect from './ProviderSelect'
 
 function OptionsPage(props: { theme: Theme; onThemeChange: (theme: Theme) => void }) {
   const [triggerMode, setTriggerMode] = useState<TriggerMode>(TriggerMode.Always)
   const [language, setLanguage] = useState<Language>(Language.Auto)
+  const [translateEventText, setTranslateEventText] = useState(false)
+  const [calendarTarget, setCalendarTarget] = useState<CalendarTargetType>(
+    CalendarTargetType.Google,
+  )
+  const [dateOrder, setDateOrder] = useState<DateOrder>(DateOrder.Auto)
   const { setToast } = useToasts()
 
   useEffect(() => {
     getUserConfig().then((config) => {
       setTriggerMode(config.triggerMode)
       setLanguage(config.language)
+      setTranslateEventText(config.translateEventText)
+      setCalendarTarget(config.calendarTarget)
+      setDateOrder(config.dateOrder)
     })
   }, [])
 
@@ -40,12 +71,40 @@ function OptionsPage(props: { theme: Theme; onThemeChange: (theme: Theme) => voi
 
   const onLanguageChange = useCallback(
     (language: Language) => {
+      setLanguage(language)
       updateUserConfig({ language })
       setToast({ text: 'Changes saved', type: 'success' })
     },
     [setToast],
   )
 
+  const onTranslateEventTextChange = useCallback(
+    (translate: boolean) => {
+      setTranslateEventText(translate)
+      updateUserConfig({ translateEventText: translate })
+      setToast({ text: 'Changes saved', type: 'success' })
+    },
+    [setToast],
+  )
+
+  const onCalendarTargetChange = useCallback(
+    (target: CalendarTargetType) => {
+      setCalendarTarget(target)
+      updateUserConfig({ calendarTarget: target })
+      setToast({ text: 'Changes saved', type: 'success' })
+    },
+    [setToast],
+  )
+
+  const onDateOrderChange = useCallback(
+    (order: DateOrder) => {
+      setDateOrder(order)
+      updateUserConfig({ dateOrder: order })
+      setToast({ text: 'Changes saved', type: 'success' })
+    },
+    [setToast],
+  )
+
   return (
     <div className="container mx-auto">
       <nav className="flex flex-row justify-between items-center mt-5 px-2">
@@ -55,7 +114,7 @@ function OptionsPage(props: { theme: Theme; onThemeChange: (theme: Theme) => voi
         </div>
       </nav>
       <main className="w-[800px] mx-auto mt-14">
-        <Tabs initialValue="getting-started">
+        <Tabs initialValue={new URLSearchParams(location.search).get('tab') || 'getting-started'}>
           <Tabs.Item label="Getting Started" value="getting-started">
             <div className="mt-5">
               <OnboardingPanel />
@@ -69,6 +128,99 @@ function OptionsPage(props: { theme: Theme; onThemeChange: (theme: Theme) => voi
               <ProviderSelect />
             </div>
           </Tabs.Item>
+          <Tabs.Item label="Prompt" value="prompt">
+            <div className="mt-5">
+              <Text h3 className="mt-5 mb-0">
+                Language
+              </Text>
+              <Text p className="my-1">
+                Text in any language is read, e.g. &quot;mañana a las 3&quot;. The language also
+                sets the example added to the prompt and how numeric dates are read.
+              </Text>
+              <Select
+                scale={2 / 3}
+                value={language}
+                onChange={(val) => onLanguageChange(val as Language)}
+              >
+                {Object.entries(LANGUAGE_TEXT).map(([value, title]) => (
+                  <Select.Option key={value} value={value}>
+                    {title}
+                  </Select.Option>
+                ))}
+              </Select>
+              <div className="flex flex-row gap-2 items-center mt-3">
+                <Toggle
+                  checked={translateEventText}
+                  onChange={(event) => onTranslateEventTextChange(event.target.checked)}
+                />
+                <Text span>Translate event titles and descriptions into this language</Text>
+              </div>
+              <Text h3 className="mt-5 mb-0">
+                Extraction Prompt
+              </Text>
+              <PromptEditor language={language} translate={translateEventText} />
+            </div>
+          </Tabs.Item>
+          <Tabs.Item label="Corrections" value="corrections">
+            <div className="mt-5">
+              <Text h3 className="mt-5 mb-0">
+                Your Corrections
+              </Text>
+              <CorrectionsPanel />
+            </div>
+          </Tabs.Item>
+          <Tabs.Item label="Calendar" value="calendar">
+            <div className="mt-5">
+              <Text h3 className="mt-5 mb-0">
+                Default Calendar
+              </Text>
+              <Text p className="my-1">
+                Where &quot;Add to Calendar&quot; sends confirmed events. You can still pick another
+                calendar in the confirmation dialog.
+              </Text>
+              <Radio.Group
+                value={calendarTarget}
+                onChange={(val) => onCalendarTargetChange(val as CalendarTargetType)}
+              >
+                {Object.entries(CALENDAR_TARGET_TEXT).map(([value, texts]) => {
+                  return (
+                    <Radio key={value} value={value}>
+                      {texts.title}
+                      <Radio.Description>{texts.desc}</Radio.Description>
+                    </Radio>
+                  )
+                })}
+              </Radio.Group>
+              <Text h3 className="mt-5 mb-0">
+                Date Format
+              </Text>
+              <Text p className="my-1">
+                How numeric dates like &quot;03/04&quot; are read in selected text and in the
+                confirmation dialog.
+              </Text>
+              <Radio.Group
+                value={dateOrder}
+                onChange={(val) => onDateOrderChange(val as DateOrder)}
+              >
+                {Object.entries(DATE_ORDER_TEXT).map(([value, texts]) => {
+                  return (
+                    <Radio key={value} value={value}>
+                      {texts.title}
+                      <Radio.Description>{texts.desc}</Radio.Description>
+                    </Radio>
+                  )
+                })}
+              </Radio.Group>
+            </div>
+          </Tabs.Item>
+          <Tabs.Item label="History" value="history">
+            <div className="mt-5">
+              <Text h3 className="mt-5 mb-0">
+                Event History
+              </Text>
+              <HistoryPanel />
+            </div>
+          </Tabs.Item>
           <Tabs.Item label="Debug Logs" value="debug">
             <div className="mt-5">
               <DebugPanel />
@@ -0,0 +1,110 @@
+import { Button, Card, Text, useToasts } from '@geist-ui/core'
+import { FC, useCallback, useEffect, useState } from 'react'
+import {
+  clearCorrections,
+  deleteCorrection,
+  ExtractionCorrection,
+  getChangedFields,
+  getCorrections,
+} from '../corrections'
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  startDate: 'Start',
+  endDate: 'End',
+  location: 'Location',
+  description: 'Description',
+}
+
+const CorrectionsPanel: FC = () => {
+  const [corrections, setCorrections] = useState<ExtractionCorrection[]>([])
+  const { setToast } = useToasts()
+
+  const loadCorrections = useCallback(async () => {
+    setCorrections(await getCorrections())
+  }, [])
+
+  useEffect(() => {
+    loadCorrections()
+  }, [loadCorrections])
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deleteCorrection(id)
+        await loadCorrections()
+        setToast({ text: 'Correction deleted', type: 'success' })
+      } catch (error) {
+        console.error('Failed to delete correction:', error)
+        setToast({ text: 'Failed to delete correction', type: 'error' })
+      }
+    },
+    [loadCorrections, setToast],
+  )
+
+  const clearAll = useCallback(async () => {
+    if (!confirm('Delete all saved corrections?')) return
+    try {
+      await clearCorrections()
+      setCorrections([])
+      setToast({ text: 'Corrections cleared', type: 'success' })
+    } catch (error) {
+      console.error('Failed to clear corrections:', error)
+      setToast({ text: 'Failed to clear corrections', type: 'error' })
+    }
+  }, [setToast])
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-row gap-2 items-center">
+        <Text p className="my-1">
+          When you edit an extracted event before adding it, the text and your changes are saved on
+          this device. The most similar ones are sent with later requests as examples, so the AI
+          picks up your conventions.
+        </Text>
+        <div className="grow"></div>
+        <Button scale={2 / 3} type="error" onClick={clearAll} disabled={corrections.length === 0}>
+          Clear all
+        </Button>
+      </div>
+
+      {corrections.length === 0 ? (
+        <Card>
+          <Text p className="text-center text-gray-500">
+            No corrections yet.
+          </Text>
+        </Card>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {corrections.map((correction) => (
+            <Card key={correction.id}>
+              <div className="flex flex-row gap-2 items-start">
+                <div className="grow">
+                  <Text small className="text-gray-500">
+                    {new Date(correction.createdAt).toLocaleString()}
+                  </Text>
+                  <Text p className="my-1" style={{ whiteSpace: 'pre-wrap' }}>
+                    {correction.originalText}
+                  </Text>
+                  <ul className="text-sm my-1">
+                    {getChangedFields(correction.extracted, correction.corrected).map((field) => (
+                      <li key={field}>
+                        {FIELD_LABELS[field]}: <s>{correction.extracted[field] || '(empty)'}</s> →{' '}
+                        {correction.corrected[field] || '(empty)'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <Button scale={1 / 2} auto ghost type="error" onClick={() => remove(correction.id)}>
+                  Delete
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CorrectionsPanel
@@ -0,0 +1,277 @@
+import { Button, Card, Input, Select, Text, useToasts } from '@geist-ui/core'
+import { FC, useCallback, useEffect, useMemo, useState } from 'react'
+import Browser from 'webextension-polyfill'
+import { CalendarTargetType, CALENDAR_TARGET_TEXT } from '../config'
+import {
+  buildHistoryCsv,
+  clearHistory,
+  deleteHistoryEntry,
+  ExtractionSource,
+  EXTRACTION_SOURCE_TEXT,
+  filterHistory,
+  getHistory,
+  HistoryEntry,
+} from '../history'
+import { buildIcsCalendar } from '../ics'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PERIODS: Record<string, { title: string; days: number | null }> = {
+  all: { title: 'Any time', days: null },
+  week: { title: 'Last 7 days', days: 7 },
+  month: { title: 'Last 30 days', days: 30 },
+  quarter: { title: 'Last 90 days', days: 90 },
+}
+
+function downloadText(content: string, mimeType: string, filename: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+const HistoryPanel: FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [query, setQuery] = useState('')
+  const [target, setTarget] = useState('all')
+  const [provider, setProvider] = useState('all')
+  const [period, setPeriod] = useState('all')
+  // Entries picked by the link in the duplicate warning
+  const [ids, setIds] = useState<string[] | null>(() => {
+    const entryIds = new URLSearchParams(location.search).getAll('entry')
+    return entryIds.length ? entryIds : null
+  })
+  const { setToast } = useToasts()
+
+  const loadHistory = useCallback(async () => {
+    setEntries(await getHistory())
+  }, [])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const filteredEntries = useMemo(() => {
+    const days = PERIODS[period].days
+    return filterHistory(entries, {
+      ids,
+      query,
+      target: target === 'all' ? null : (target as CalendarTargetType),
+      provider: provider === 'all' ? null : (provider as ExtractionSource),
+      since: days ? Date.now() - days * DAY_MS : null,
+    })
+  }, [entries, ids, period, provider, query, target])
+
+  const reopen = useCallback((entry: HistoryEntry) => {
+    Browser.runtime.sendMessage({
+      action: 'openCalendar',
+      eventData: entry.event,
+      target: entry.target,
+      fromHistory: true,
+    })
+  }, [])
+
+  // Opens the event as a new one to edit in the calendar, and records the copy
+  const duplicate = useCallback(
+    async (entry: HistoryEntry) => {
+      await Browser.runtime.sendMessage({
+        action: 'openCalendar',
+        eventData: entry.event,
+        target: entry.target,
+        historySource: {
+          sourceUrl: entry.sourceUrl,
+          pageTitle: entry.pageTitle,
+          provider: entry.provider,
+        },
+      })
+      await loadHistory()
+    },
+    [loadHistory],
+  )
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deleteHistoryEntry(id)
+        await loadHistory()
+      } catch (error) {
+        console.error('Failed to delete history entry:', error)
+        setToast({ text: 'Failed to delete the event', type: 'error' })
+      }
+    },
+    [loadHistory, setToast],
+  )
+
+  const clearAll = useCallback(async () => {
+    if (!confirm('Delete the whole event history?')) return
+    try {
+      await clearHistory()
+      setEntries([])
+      setToast({ text: 'History cleared', type: 'success' })
+    } catch (error) {
+      console.error('Failed to clear history:', error)
+      setToast({ text: 'Failed to clear history', type: 'error' })
+    }
+  }, [setToast])
+
+  const exportEntries = useCallback(
+    (format: 'ics' | 'csv' | 'json') => {
+      const date = new Date().toISOString().split('T')[0]
+      if (format === 'ics') {
+        const content = buildIcsCalendar(filteredEntries.map((entry) => entry.event))
+        if (!content) {
+          setToast({ text: 'Could not create a calendar file', type: 'error' })
+          return
+        }
+        downloadText(content, 'text/calendar;charset=utf-8', `event-history-${date}.ics`)
+      } else if (format === 'csv') {
+        downloadText(buildHistoryCsv(filteredEntries), 'text/csv', `event-history-${date}.csv`)
+      } else {
+        const content = JSON.stringify(filteredEntries, null, 2)
+        downloadText(content, 'application/json', `event-history-${date}.json`)
+      }
+    },
+    [filteredEntries, setToast],
+  )
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Text p className="my-1">
+        Every event you add to a calendar, with the text and page it came from.
+      </Text>
+
+      <div className="flex flex-row gap-2 flex-wrap items-center">
+        <Input
+          scale={2 / 3}
+          width="100%"
+          placeholder="Search titles, places, original text and pages"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <Select scale={2 / 3} value={period} onChange={(value) => setPeriod(value as string)}>
+          {Object.entries(PERIODS).map(([value, { title }]) => (
+            <Select.Option key={value} value={value}>
+              {title}
+            </Select.Option>
+          ))}
+        </Select>
+        <Select scale={2 / 3} value={target} onChange={(value) => setTarget(value as string)}>
+          <Select.Option value="all">All calendars</Select.Option>
+          {Object.entries(CALENDAR_TARGET_TEXT).map(([value, texts]) => (
+            <Select.Option key={value} value={value}>
+              {texts.title}
+            </Select.Option>
+          ))}
+        </Select>
+        <Select scale={2 / 3} value={provider} onChange={(value) => setProvider(value as string)}>
+          <Select.Option value="all">Any source</Select.Option>
+          {Object.entries(EXTRACTION_SOURCE_TEXT).map(([value, title]) => (
+            <Select.Option key={value} value={value}>
+              {title}
+            </Select.Option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="flex flex-row gap-2 items-center">
+        <Text p className="text-sm text-gray-600 m-0">
+          Showing {filteredEntries.length} of {entries.length} events
+          {ids && (
+            <>
+              {' · '}
+              <a
+                href="#"
+                onClick={(event) => {
+                  event.preventDefault()
+                  setIds(null)
+                }}
+              >
+                Show all
+              </a>
+            </>
+          )}
+        </Text>
+        <div className="grow"></div>
+        <Button scale={2 / 3} auto onClick={() => exportEntries('ics')}>
+          Export .ics
+        </Button>
+        <Button scale={2 / 3} auto onClick={() => exportEntries('csv')}>
+          CSV
+        </Button>
+        <Button scale={2 / 3} auto onClick={() => exportEntries('json')}>
+          JSON
+        </Button>
+        <Button scale={2 / 3} auto type="error" onClick={clearAll} disabled={entries.length === 0}>
+          Clear
+        </Button>
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <Card>
+          <Text p className="text-center text-gray-500">
+            {entries.length === 0 ? 'No events added yet.' : 'No events match the filters.'}
+          </Text>
+        </Card>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {filteredEntries.map((entry) => (
+            <Card key={entry.id}>
+              <div className="flex flex-row gap-2 items-start">
+                <div className="grow min-w-0">
+                  <Text b>{entry.event.title}</Text>
+                  <Text small className="block text-gray-600">
+                    {[
+                      entry.event.startDate.replace('T', ' '),
+                      entry.event.location,
+                      CALENDAR_TARGET_TEXT[entry.target]?.title,
+                      entry.provider && EXTRACTION_SOURCE_TEXT[entry.provider],
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                  <Text small className="block text-gray-500">
+                    Added {new Date(entry.createdAt).toLocaleString()}
+                    {entry.sourceUrl && (
+                      <>
+                        {' from '}
+                        <a href={entry.sourceUrl} target="_blank" rel="noreferrer">
+                          {entry.pageTitle || entry.sourceUrl}
+                        </a>
+                      </>
+                    )}
+                  </Text>
+                  {entry.event.originalText && (
+                    <Text
+                      small
+                      className="block text-gray-500 mt-1"
+                      style={{ whiteSpace: 'pre-wrap', maxHeight: '4.5em', overflow: 'hidden' }}
+                    >
+                      {entry.event.originalText}
+                    </Text>
+                  )}
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Button scale={1 / 2} auto onClick={() => reopen(entry)}>
+                    Open
+                  </Button>
+                  <Button scale={1 / 2} auto onClick={() => duplicate(entry)}>
+                    Duplicate
+                  </Button>
+                  <Button scale={1 / 2} auto ghost type="error" onClick={() => remove(entry.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
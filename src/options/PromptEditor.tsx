@@ -0,0 +1,233 @@
+import { Button, Code, Input, Note, Select, Text, Textarea, useToasts } from '@geist-ui/core'
+import { FC, useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  buildPrompt,
+  DEFAULT_PROMPT_TEMPLATE,
+  findUnknownPlaceholders,
+  PROMPT_PLACEHOLDERS,
+} from '../background/prompt'
+import {
+  getPromptTemplateSettings,
+  getUserConfig,
+  Language,
+  PromptTemplate,
+  PromptTemplateSettings,
+  savePromptTemplateSettings,
+} from '../config'
+import { ExtractionCorrection, getCorrections, selectRelevantCorrections } from '../corrections'
+import { buildTemporalContext, TemporalContext } from '../temporal-context'
+
+// Select value of the built-in prompt, which cannot be edited in place
+const DEFAULT_TEMPLATE_ID = 'default'
+const DEFAULT_SAMPLE_TEXT = 'Team meeting Thursday 3 PM Zoom'
+
+// The language settings are edited next to the editor, so they come from the page
+const PromptEditor: FC<{ language: Language; translate: boolean }> = ({ language, translate }) => {
+  const [settings, setSettings] = useState<PromptTemplateSettings>({
+    templates: [],
+    activeTemplateId: null,
+  })
+  const [selectedId, setSelectedId] = useState(DEFAULT_TEMPLATE_ID)
+  const [name, setName] = useState('')
+  const [template, setTemplate] = useState(DEFAULT_PROMPT_TEMPLATE)
+  const [sampleText, setSampleText] = useState(DEFAULT_SAMPLE_TEXT)
+  const [temporalContext, setTemporalContext] = useState<TemporalContext | null>(null)
+  const [corrections, setCorrections] = useState<ExtractionCorrection[]>([])
+  const { setToast } = useToasts()
+
+  const selectTemplate = useCallback((id: string, templates: PromptTemplate[]) => {
+    const selected = templates.find((item) => item.id === id)
+    setSelectedId(selected ? selected.id : DEFAULT_TEMPLATE_ID)
+    setName(selected ? selected.name : '')
+    setTemplate(selected ? selected.template : DEFAULT_PROMPT_TEMPLATE)
+  }, [])
+
+  useEffect(() => {
+    getPromptTemplateSettings()
+      .then((loaded) => {
+        setSettings(loaded)
+        selectTemplate(loaded.activeTemplateId || DEFAULT_TEMPLATE_ID, loaded.templates)
+      })
+      .catch((error) => {
+        console.error('Failed to load prompt templates:', error)
+        setToast({ text: 'Failed to load prompt templates', type: 'error' })
+      })
+    getUserConfig()
+      .then((config) => setTemporalContext(buildTemporalContext(new Date(), config)))
+      .catch(console.error)
+    getCorrections().then(setCorrections)
+  }, [selectTemplate, setToast])
+
+  const persist = useCallback(
+    async (updated: PromptTemplateSettings, message: string) => {
+      try {
+        await savePromptTemplateSettings(updated)
+        setSettings(updated)
+        setToast({ text: message, type: 'success' })
+      } catch (error) {
+        console.error('Failed to save prompt templates:', error)
+        setToast({ text: 'Failed to save prompt templates', type: 'error' })
+      }
+    },
+    [setToast],
+  )
+
+  const saveAsNewVersion = useCallback(async () => {
+    const created: PromptTemplate = {
+      id: `prompt-${Date.now()}`,
+      name: name.trim() || `My prompt ${settings.templates.length + 1}`,
+      template,
+      updatedAt: Date.now(),
+    }
+    const templates = [...settings.templates, created]
+    await persist({ ...settings, templates }, `Saved "${created.name}"`)
+    selectTemplate(created.id, templates)
+  }, [name, persist, selectTemplate, settings, template])
+
+  const save = useCallback(async () => {
+    if (selectedId === DEFAULT_TEMPLATE_ID) {
+      await saveAsNewVersion()
+      return
+    }
+    const templates = settings.templates.map((item) =>
+      item.id === selectedId
+        ? { ...item, name: name.trim() || item.name, template, updatedAt: Date.now() }
+        : item,
+    )
+    await persist({ ...settings, templates }, 'Changes saved')
+  }, [name, persist, saveAsNewVersion, selectedId, settings, template])
+
+  const activate = useCallback(async () => {
+    const activeTemplateId = selectedId === DEFAULT_TEMPLATE_ID ? null : selectedId
+    await persist({ ...settings, activeTemplateId }, 'Now used for extraction')
+  }, [persist, selectedId, settings])
+
+  const remove = useCallback(async () => {
+    if (!confirm(`Delete the prompt version "${name}"?`)) return
+    const templates = settings.templates.filter((item) => item.id !== selectedId)
+    const activeTemplateId =
+      settings.activeTemplateId === selectedId ? null : settings.activeTemplateId
+    await persist({ templates, activeTemplateId }, 'Prompt version deleted')
+    selectTemplate(DEFAULT_TEMPLATE_ID, templates)
+  }, [name, persist, selectTemplate, selectedId, settings])
+
+  const unknownPlaceholders = useMemo(() => findUnknownPlaceholders(template), [template])
+  const preview = useMemo(
+    () =>
+      temporalContext
+        ? buildPrompt(sampleText, temporalContext, {
+            template,
+            corrections: selectRelevantCorrections(corrections, sampleText),
+            language,
+            translate,
+          })
+        : '',
+    [corrections, language, sampleText, template, temporalContext, translate],
+  )
+
+  const isDefaultSelected = selectedId === DEFAULT_TEMPLATE_ID
+  const activeId = settings.activeTemplateId || DEFAULT_TEMPLATE_ID
+
+  return (
+    <div className="flex flex-col gap-3">
+      <Text p className="my-1">
+        Edit the instructions and examples sent to the AI provider, for example to prefix titles
+        with project codes. Save several versions and pick the one used for extraction.
+      </Text>
+
+      <div className="flex flex-row gap-2 items-center">
+        <Select
+          scale={2 / 3}
+          value={selectedId}
+          onChange={(value) => selectTemplate(value as string, settings.templates)}
+        >
+          <Select.Option value={DEFAULT_TEMPLATE_ID}>
+            Built-in default{activeId === DEFAULT_TEMPLATE_ID ? ' (in use)' : ''}
+          </Select.Option>
+          {settings.templates.map((item) => (
+            <Select.Option key={item.id} value={item.id}>
+              {item.name}
+              {activeId === item.id ? ' (in use)' : ''}
+            </Select.Option>
+          ))}
+        </Select>
+        <Input
+          scale={2 / 3}
+          placeholder="Version name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+      </div>
+
+      <Textarea
+        width="100%"
+        rows={18}
+        resize="vertical"
+        value={template}
+        onChange={(event) => setTemplate(event.target.value)}
+        style={{ fontFamily: 'monospace', fontSize: '12px' }}
+      />
+
+      {unknownPlaceholders.length > 0 && (
+        <Note type="warning" label="Unknown placeholders">
+          {unknownPlaceholders.map((placeholder) => `\${${placeholder}}`).join(', ')} will be sent
+          as written.
+        </Note>
+      )}
+      {!template.includes('${text}') && (
+        <Note type="secondary" label="Note">
+          The template has no {'${text}'} placeholder, so the selected text is added at the end.
+        </Note>
+      )}
+
+      <div className="flex flex-row gap-2 flex-wrap">
+        <Button scale={2 / 3} type="success" onClick={save}>
+          {isDefaultSelected ? 'Save as new version' : 'Save'}
+        </Button>
+        {!isDefaultSelected && (
+          <Button scale={2 / 3} onClick={saveAsNewVersion}>
+            Save as new version
+          </Button>
+        )}
+        <Button scale={2 / 3} onClick={activate} disabled={activeId === selectedId}>
+          Use for extraction
+        </Button>
+        <Button scale={2 / 3} onClick={() => setTemplate(DEFAULT_PROMPT_TEMPLATE)}>
+          Reset to default
+        </Button>
+        {!isDefaultSelected && (
+          <Button scale={2 / 3} type="error" ghost onClick={remove}>
+            Delete version
+          </Button>
+        )}
+      </div>
+
+      <Text h4 className="mt-5 mb-0">
+        Placeholders
+      </Text>
+      <ul className="text-sm">
+        {Object.entries(PROMPT_PLACEHOLDERS).map(([placeholder, description]) => (
+          <li key={placeholder}>
+            <Code>{`\${${placeholder}}`}</Code> {description}
+          </li>
+        ))}
+      </ul>
+
+      <Text h4 className="mt-5 mb-0">
+        Preview
+      </Text>
+      <Input
+        scale={2 / 3}
+        width="100%"
+        label="Sample text"
+        value={sampleText}
+        onChange={(event) => setSampleText(event.target.value)}
+      />
+      <Code block style={{ whiteSpace: 'pre-wrap', maxHeight: '400px', overflow: 'auto' }}>
+        {preview}
+      </Code>
+    </div>
+  )
+}
+
+export default PromptEditor
@@ -1,7 +1,8 @@
-import { Button, Input, Select, Spinner, Tabs, useInput, useToasts } from '@geist-ui/core'
+import { Button, Input, Select, Spinner, Tabs, Text, Toggle, useInput, useToasts } from '@geist-ui/core'
 import { FC, useCallback, useState, useEffect } from 'react'
 import useSWR from 'swr'
 import { getProviderConfigs, ProviderConfigs, ProviderType, saveProviderConfigs, getKeyConfigInfo } from '../config'
+import { EXTRACTION_SOURCE_TEXT } from '../history'
 import { isDefaultKey } from '../secure-keys'
 
 interface ConfigProps {
@@ -22,6 +23,7 @@ const ConfigPanel: FC<ConfigProps> = ({ config, models }) => {
   const { bindings: geminiApiKeyBindings } = useInput(config.configs[ProviderType.GEMINI]?.apiKey ?? '')
   const [gpt3Model, setGpt3Model] = useState(config.configs[ProviderType.GPT3]?.model ?? models.gpt3[0])
   const [geminiModel, setGeminiModel] = useState(config.configs[ProviderType.GEMINI]?.model ?? models.gemini[0])
+  const [fallbacks, setFallbacks] = useState<ProviderType[]>(config.fallbacks)
   const [keyConfigInfo, setKeyConfigInfo] = useState<{
     isUsingDefault: boolean
     provider: ProviderType
@@ -104,9 +106,27 @@ const ConfigPanel: FC<ConfigProps> = ({ config, models }) => {
         model: geminiModel,
         apiKey: geminiApiKeyBindings.value,
       } : config.configs[ProviderType.GEMINI],
-    })
+    }, fallbacks)
     setToast({ text: 'Changes saved', type: 'success' })
-  }, [gpt3ApiKeyBindings.value, geminiApiKeyBindings.value, gpt3Model, geminiModel, models, setToast, tab, config.configs])
+  }, [gpt3ApiKeyBindings.value, geminiApiKeyBindings.value, gpt3Model, geminiModel, models, setToast, tab, config.configs, fallbacks])
+
+  // Fallbacks in their order, then the providers not in the chain
+  const otherProviders = Object.values(ProviderType).filter((type) => type !== tab)
+  const fallbackRows = [
+    ...fallbacks.filter((type) => type !== tab),
+    ...otherProviders.filter((type) => !fallbacks.includes(type)),
+  ]
+
+  const toggleFallback = (type: ProviderType, enabled: boolean) => {
+    setFallbacks(enabled ? [...fallbacks, type] : fallbacks.filter((item) => item !== type))
+  }
+
+  const moveFallbackUp = (type: ProviderType) => {
+    const chain = fallbacks.filter((item) => item !== tab)
+    const index = chain.indexOf(type)
+    if (index < 1) return
+    setFallbacks([...chain.slice(0, index - 1), type, chain[index - 1], ...chain.slice(index + 1)])
+  }
 
   return (
     <div className="flex flex-col gap-3">
@@ -203,7 +223,55 @@ const ConfigPanel: FC<ConfigProps> = ({ config, models }) => {
             </span>
           </div>
         </Tabs.Item>
+        <Tabs.Item label="Local (no AI)" value={ProviderType.LOCAL}>
+          <div className="flex flex-col gap-2">
+            <span>
+              Built-in rule-based parser that runs entirely in your browser,{' '}
+              <span className="font-semibold">free and private</span>
+              <br />
+              <em style={{ color: '#28a745', fontSize: '12px' }}>
+                ✓ No API key, no network connection, selected text never leaves your device
+              </em>
+            </span>
+            <span className="italic text-xs">
+              Understands dates like "tomorrow", "next Friday", "Dec 15" or "12/15/2024" and times
+              like "3 PM" or "10:00-11:30". It finds one event per selection and is less accurate
+              than the AI providers with titles and locations. It is also used automatically when
+              the AI provider fails or times out.
+            </span>
+          </div>
+        </Tabs.Item>
       </Tabs>
+      <Text h4 className="mt-3 mb-0">
+        Fallback providers
+      </Text>
+      <span className="text-sm">
+        When {EXTRACTION_SOURCE_TEXT[tab]} does not answer, e.g. because of an invalid key, a used
+        up quota or a timeout, these providers are tried in this order. Rate limits and server
+        errors are retried a few times first.
+      </span>
+      <div className="flex flex-col gap-2">
+        {fallbackRows.map((type) => {
+          const position = fallbacks.filter((item) => item !== tab).indexOf(type)
+          return (
+            <div key={type} className="flex flex-row gap-2 items-center">
+              <Toggle
+                checked={position !== -1}
+                onChange={(event) => toggleFallback(type, event.target.checked)}
+              />
+              <span className="text-sm">
+                {position !== -1 ? `${position + 1}. ` : ''}
+                {EXTRACTION_SOURCE_TEXT[type]}
+              </span>
+              {position > 0 && (
+                <Button scale={1 / 3} auto onClick={() => moveFallbackUp(type)}>
+                  Move up
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
       <Button scale={2 / 3} ghost style={{ width: 20 }} type="success" onClick={save}>
         Save
       </Button>
@@ -1,25 +1,47 @@
-import { GearIcon, GlobeIcon } from '@primer/octicons-react'
-import { useCallback } from 'react'
+import { GearIcon } from '@primer/octicons-react'
+import { FormEvent, useCallback, useState } from 'react'
 import useSWR from 'swr'
 import Browser from 'webextension-polyfill'
 import '../base.css'
+import { CALENDAR_TARGET_TEXT, getKeyConfigInfo, ProviderType } from '../config'
+import { deleteDraft, getDrafts } from '../drafts'
+import { getHistory, HistoryEntry } from '../history'
 import logo from '../logo.png'
 
 const isChrome = /chrome/i.test(navigator.userAgent)
+const RECENT_EVENT_COUNT = 5
+
+const PROVIDER_NAMES: Record<ProviderType, string> = {
+  [ProviderType.GPT3]: 'OpenAI',
+  [ProviderType.GEMINI]: 'Gemini',
+  [ProviderType.LOCAL]: 'Local parser (no AI)',
+}
+
+function formatEventDate(startDate: string): string {
+  const [year, month, day, hours, minutes] = (startDate.match(/\d+/g) || []).map(Number)
+  const date = new Date(year, month - 1, day, hours || 0, minutes || 0)
+  if (isNaN(date.getTime())) return startDate
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    ...(hours === undefined ? {} : { hour: 'numeric', minute: '2-digit' }),
+  })
+}
 
 function App() {
-  const accessTokenQuery = useSWR(
-    'accessToken',
-    () => Browser.runtime.sendMessage({ type: 'GET_ACCESS_TOKEN' }),
-    { shouldRetryOnError: false },
-  )
+  const [text, setText] = useState('')
+  const [status, setStatus] = useState('')
+  const [error, setError] = useState('')
+  const keyInfoQuery = useSWR('keyConfigInfo', getKeyConfigInfo)
+  const historyQuery = useSWR('eventHistory', getHistory)
+  const draftsQuery = useSWR('drafts', getDrafts)
   const hideShortcutsTipQuery = useSWR('hideShortcutsTip', async () => {
     const { hideShortcutsTip } = await Browser.storage.local.get('hideShortcutsTip')
     return !!hideShortcutsTip
   })
 
   const openOptionsPage = useCallback(() => {
-    Browser.runtime.sendMessage({ type: 'OPEN_OPTIONS_PAGE' })
+    Browser.runtime.openOptionsPage()
   }, [])
 
   const openShortcutsPage = useCallback(() => {
@@ -27,18 +49,65 @@ function App() {
     Browser.tabs.create({ url: 'chrome://extensions/shortcuts' })
   }, [])
 
+  // The background runs the extraction, so it finishes even when the popup
+  // closes as the calendar opens
+  const quickAdd = useCallback(
+    (event: FormEvent) => {
+      event.preventDefault()
+      if (!text.trim()) return
+      Browser.runtime.sendMessage({ action: 'quickAdd', text }).catch((error) => {
+        // e.g. while the service worker restarts; keep the text to try again
+        console.error('Quick add failed:', error)
+        setStatus('')
+        setError(`Could not add the event: ${error.message}`)
+        setText(text)
+      })
+      setStatus(`Finding the event in "${text}"…`)
+      setError('')
+      setText('')
+    },
+    [text],
+  )
+
+  const reopen = useCallback((entry: HistoryEntry) => {
+    Browser.runtime.sendMessage({
+      action: 'openCalendar',
+      eventData: entry.event,
+      target: entry.target,
+      fromHistory: true,
+    })
+  }, [])
+
+  // Drafts are finished in their own page, the popup is too small to edit in
+  const openDraft = useCallback((id?: string) => {
+    const query = id ? `?id=${encodeURIComponent(id)}` : ''
+    Browser.tabs.create({ url: Browser.runtime.getURL(`drafts.html${query}`) })
+  }, [])
+
+  const discardDraft = useCallback(
+    async (id: string) => {
+      await deleteDraft(id)
+      draftsQuery.mutate()
+    },
+    [draftsQuery],
+  )
+
+  const keyInfo = keyInfoQuery.data
+  const drafts = draftsQuery.data || []
+  const recentEvents = (historyQuery.data || []).slice(0, RECENT_EVENT_COUNT)
+
   return (
-    <div className="flex flex-col h-full">
-      <div className="mb-2 flex flex-row items-center px-1">
+    <div className="flex flex-col gap-3 p-1">
+      <div className="flex flex-row items-center px-1">
         <img src={logo} className="w-5 h-5 rounded-sm" />
-        <p className="text-sm font-semibold m-0 ml-1">ChatGPT for Google</p>
+        <p className="text-sm font-semibold m-0 ml-1">ChatGPT for Google Calendar</p>
         <div className="grow"></div>
         <span className="cursor-pointer leading-[0]" onClick={openOptionsPage}>
           <GearIcon size={16} />
         </span>
       </div>
       {isChrome && !hideShortcutsTipQuery.isLoading && !hideShortcutsTipQuery.data && (
-        <p className="m-0 mb-2">
+        <p className="m-0">
           Tip:{' '}
           <a onClick={openShortcutsPage} className="underline cursor-pointer">
             setup shortcuts
@@ -46,28 +115,110 @@ function App() {
           for faster access.
         </p>
       )}
-      {(() => {
-        if (accessTokenQuery.isLoading) {
-          return (
-            <div className="grow justify-center items-center flex animate-bounce">
-              <GlobeIcon size={24} />
-            </div>
-          )
-        }
-        if (accessTokenQuery.data) {
-          return <iframe src="https://chat.openai.com" className="grow border-none" />
-        }
-        return (
-          <div className="grow flex flex-col justify-center">
-            <p className="text-base px-2 text-center">
-              Please login and pass Cloudflare check at{' '}
-              <a href="https://chat.openai.com" target="_blank" rel="noreferrer">
-                chat.openai.com
-              </a>
-            </p>
+
+      <form className="flex flex-row gap-2" onSubmit={quickAdd}>
+        <input
+          className="grow border border-gray-300 rounded px-2 py-1 text-sm"
+          placeholder="Lunch with Dana friday 12:30 at Nopa"
+          value={text}
+          onInput={(event) => setText((event.target as HTMLInputElement).value)}
+          autoFocus
+        />
+        <button
+          type="submit"
+          className="rounded bg-black text-white px-3 py-1 text-sm disabled:opacity-50"
+          disabled={!text.trim()}
+        >
+          Add
+        </button>
+      </form>
+      {status && <p className="m-0 text-xs text-gray-500">{status}</p>}
+      {error && <p className="m-0 text-xs text-red-600">{error}</p>}
+
+      {keyInfo && (
+        <p className="m-0 text-xs text-gray-600">
+          Provider: {PROVIDER_NAMES[keyInfo.provider]}
+          {keyInfo.provider !== ProviderType.LOCAL &&
+            (keyInfo.hasUserKey
+              ? ' · your API key'
+              : keyInfo.isUsingDefault
+              ? ' · shared default key'
+              : ' · no API key set')}
+          {' · '}
+          <a onClick={openOptionsPage} className="underline cursor-pointer">
+            change
+          </a>
+        </p>
+      )}
+
+      {drafts.length > 0 && (
+        <div>
+          <div className="flex flex-row items-center mb-1">
+            <p className="text-sm font-semibold m-0">Drafts ({drafts.length})</p>
+            <div className="grow"></div>
+            <a onClick={() => openDraft()} className="text-xs underline cursor-pointer">
+              view all
+            </a>
           </div>
-        )
-      })()}
+          <ul className="m-0 p-0 list-none flex flex-col gap-1">
+            {drafts.slice(0, RECENT_EVENT_COUNT).map((draft) => (
+              <li key={draft.id} className="flex flex-row items-center gap-2 text-sm">
+                <div className="grow min-w-0">
+                  <div className="truncate">
+                    {draft.events[0]?.title || 'Untitled event'}
+                    {draft.events.length > 1 && ` (+${draft.events.length - 1} more)`}
+                  </div>
+                  <div className="truncate text-xs text-gray-500">
+                    {draft.pageTitle || draft.pageUrl}
+                  </div>
+                </div>
+                <button
+                  className="rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  title="Finish editing and add to the calendar"
+                  onClick={() => openDraft(draft.id)}
+                >
+                  Finish
+                </button>
+                <button
+                  className="rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  title="Discard the draft"
+                  onClick={() => discardDraft(draft.id)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm font-semibold m-0 mb-1">Recently added</p>
+        {recentEvents.length === 0 ? (
+          <p className="m-0 text-xs text-gray-500">Events you add to a calendar show up here.</p>
+        ) : (
+          <ul className="m-0 p-0 list-none flex flex-col gap-1">
+            {recentEvents.map((entry) => (
+              <li key={entry.id} className="flex flex-row items-center gap-2 text-sm">
+                <div className="grow min-w-0">
+                  <div className="truncate">{entry.event.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatEventDate(entry.event.startDate)} ·{' '}
+                    {CALENDAR_TARGET_TEXT[entry.target]?.title}
+                  </div>
+                </div>
+                <button
+                  className="rounded border border-gray-300 px-2 py-0.5 text-xs"
+                  title="Open the event in the calendar again"
+                  onClick={() => reopen(entry)}
+                >
+                  Open
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   )
 }
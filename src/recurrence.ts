@@ -0,0 +1,109 @@
+import { parseDateTimeInZone } from './timezones'
+
+/**
+ * Recurrence rules for repeating events (a subset of RFC 5545 RRULE that
+ * Google Calendar, iCalendar clients and the extraction prompt all share).
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface EventRecurrence {
+  frequency: RecurrenceFrequency
+  interval?: number
+  /** Two-letter weekday codes ("MO", "TU", ...) */
+  byDay?: string[]
+  /** Last possible occurrence date, "YYYY-MM-DD" */
+  until?: string
+  count?: number
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+]
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+/**
+ * Validates a recurrence object coming from the AI or from storage.
+ * Returns null when there is no usable recurrence.
+ */
+export function normalizeRecurrence(value: any): EventRecurrence | null {
+  if (!value || typeof value !== 'object') return null
+
+  const frequency = typeof value.frequency === 'string' ? value.frequency.toUpperCase() : ''
+  if (!RECURRENCE_FREQUENCIES.includes(frequency as RecurrenceFrequency)) return null
+
+  const recurrence: EventRecurrence = { frequency: frequency as RecurrenceFrequency }
+
+  const interval = Number(value.interval)
+  if (Number.isInteger(interval) && interval > 1) recurrence.interval = interval
+
+  if (Array.isArray(value.byDay)) {
+    const byDay = value.byDay
+      .map((day: unknown) => (typeof day === 'string' ? day.trim().toUpperCase().slice(0, 2) : ''))
+      .filter((day: string) => WEEKDAY_CODES.includes(day))
+    if (byDay.length > 0) {
+      // Keep Monday-first order so the same rule always renders the same way
+      recurrence.byDay = WEEKDAY_CODES.filter((code) => byDay.includes(code))
+    }
+  }
+
+  if (typeof value.until === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value.until)) {
+    recurrence.until = value.until.slice(0, 10)
+  } else {
+    const count = Number(value.count)
+    if (Number.isInteger(count) && count > 0) recurrence.count = count
+  }
+
+  return recurrence
+}
+
+/**
+ * Formats UNTIL: a DATE for all-day events, otherwise the end of that day
+ * in the event's timezone (or the local one), converted to UTC so it matches
+ * the UTC DTSTART/dates we emit.
+ */
+function formatUntil(until: string, allDay: boolean, timeZone?: string | null): string | null {
+  const match = until.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  if (allDay) return `${match[1]}${match[2]}${match[3]}`
+
+  const endOfDay = parseDateTimeInZone(`${match[1]}-${match[2]}-${match[3]}T23:59:59`, timeZone)
+  if (!endOfDay) return null
+  return (
+    `${endOfDay.getUTCFullYear()}${pad(endOfDay.getUTCMonth() + 1)}${pad(endOfDay.getUTCDate())}` +
+    `T${pad(endOfDay.getUTCHours())}${pad(endOfDay.getUTCMinutes())}${pad(
+      endOfDay.getUTCSeconds(),
+    )}Z`
+  )
+}
+
+/**
+ * Builds the RRULE value, e.g. "FREQ=WEEKLY;BYDAY=TU;UNTIL=20250630T235959Z"
+ */
+export function buildRRule(
+  recurrence: EventRecurrence | null | undefined,
+  allDay: boolean,
+  timeZone?: string | null,
+): string | null {
+  const normalized = normalizeRecurrence(recurrence)
+  if (!normalized) return null
+
+  const parts = [`FREQ=${normalized.frequency}`]
+  if (normalized.interval) parts.push(`INTERVAL=${normalized.interval}`)
+  if (normalized.byDay) parts.push(`BYDAY=${normalized.byDay.join(',')}`)
+
+  const until = normalized.until ? formatUntil(normalized.until, allDay, timeZone) : null
+  if (until) {
+    parts.push(`UNTIL=${until}`)
+  } else if (normalized.count) {
+    parts.push(`COUNT=${normalized.count}`)
+  }
+
+  return parts.join(';')
+}
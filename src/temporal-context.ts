@@ -0,0 +1,167 @@
+import { DateOrder, Language } from './config'
+import { getLocalTimeZone } from './timezones'
+
+/**
+ * The date conventions a request is read with: the reference day and time,
+ * the user's timezone, the first day of the week and whether "03/04" is
+ * day-first or month-first. Built for every extraction so it never goes stale
+ * in a long-lived service worker.
+ */
+
+export type NumericDateOrder = DateOrder.DayMonth | DateOrder.MonthDay
+
+export interface TemporalContext {
+  /** Local "YYYY-MM-DD" of the reference date */
+  date: string
+  /** Local "HH:mm" of the reference date */
+  time: string
+  weekday: string
+  year: number
+  timeZone: string
+  weekStart: string
+  dateOrder: NumericDateOrder
+}
+
+const LANGUAGE_LOCALES: Record<Language, string | null> = {
+  [Language.Auto]: null,
+  [Language.English]: 'en-US',
+  [Language.Chinese]: 'zh-CN',
+  [Language.Spanish]: 'es-ES',
+  [Language.French]: 'fr-FR',
+  [Language.Korean]: 'ko-KR',
+  [Language.Japanese]: 'ja-JP',
+  [Language.German]: 'de-DE',
+  [Language.Portuguese]: 'pt-BR',
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+// Regions whose week starts on Sunday, for browsers without Intl week info
+const SUNDAY_FIRST_REGIONS = new Set([
+  'US',
+  'CA',
+  'MX',
+  'BR',
+  'JP',
+  'KR',
+  'TW',
+  'HK',
+  'IL',
+  'IN',
+  'PH',
+  'ZA',
+  'SA',
+])
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+const getBrowserLocale = () => (typeof navigator !== 'undefined' && navigator.language) || 'en-US'
+
+/**
+ * Locale for a language setting. The browser locale wins when it is the same
+ * language, so English in the UK reads dates as en-GB, not en-US.
+ */
+export function getLocaleForLanguage(language: Language, browserLocale = getBrowserLocale()) {
+  const locale = LANGUAGE_LOCALES[language]
+  if (!locale) return browserLocale
+  return browserLocale.split('-')[0] === locale.split('-')[0] ? browserLocale : locale
+}
+
+/**
+ * The language a setting stands for: the browser language for Auto, or
+ * English when that is not one of the supported languages
+ */
+export function resolveLanguage(
+  language: Language,
+  browserLocale = getBrowserLocale(),
+): Exclude<Language, Language.Auto> {
+  if (language !== Language.Auto) return language
+  const code = browserLocale.split('-')[0].toLowerCase()
+  const match = (Object.keys(LANGUAGE_LOCALES) as Language[]).find(
+    (item) => LANGUAGE_LOCALES[item]?.split('-')[0] === code,
+  )
+  return (match as Exclude<Language, Language.Auto>) || Language.English
+}
+
+/**
+ * Whether numeric dates are day-first or month-first: the explicit setting,
+ * otherwise the order the locale formats dates in
+ */
+export function resolveDateOrder(dateOrder: DateOrder, locale: string): NumericDateOrder {
+  if (dateOrder !== DateOrder.Auto) return dateOrder
+  try {
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 11, 31))
+    const dayIndex = parts.findIndex((part) => part.type === 'day')
+    const monthIndex = parts.findIndex((part) => part.type === 'month')
+    return dayIndex < monthIndex ? DateOrder.DayMonth : DateOrder.MonthDay
+  } catch (error) {
+    return DateOrder.MonthDay
+  }
+}
+
+/**
+ * First day of the week for the locale, e.g. "Monday"
+ */
+export function getWeekStart(locale: string): string {
+  try {
+    const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number }
+      weekInfo?: { firstDay: number }
+    }
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo
+    // firstDay is 1 (Monday) to 7 (Sunday)
+    if (weekInfo) return WEEKDAYS[weekInfo.firstDay % 7]
+    const region = intlLocale.maximize().region
+    return region && SUNDAY_FIRST_REGIONS.has(region) ? 'Sunday' : 'Monday'
+  } catch (error) {
+    return 'Monday'
+  }
+}
+
+export function buildTemporalContext(
+  referenceDate: Date,
+  settings: { dateOrder: DateOrder; language: Language },
+): TemporalContext {
+  const locale = getLocaleForLanguage(settings.language)
+  return {
+    date: `${referenceDate.getFullYear()}-${pad(referenceDate.getMonth() + 1)}-${pad(
+      referenceDate.getDate(),
+    )}`,
+    time: `${pad(referenceDate.getHours())}:${pad(referenceDate.getMinutes())}`,
+    weekday: WEEKDAYS[referenceDate.getDay()],
+    year: referenceDate.getFullYear(),
+    timeZone: getLocalTimeZone(),
+    weekStart: getWeekStart(locale),
+    dateOrder: resolveDateOrder(settings.dateOrder, locale),
+  }
+}
+
+/**
+ * Parses a date string as local time. "YYYY-MM-DD" stays on that day (the
+ * Date constructor would read it as UTC) and numeric dates such as
+ * "03/04/2025 14:30" follow the date order. Anything else goes to the Date
+ * constructor.
+ */
+export function parseLocalDate(dateString: string, dateOrder: NumericDateOrder): Date | null {
+  const text = dateString.trim()
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+
+  match = text.match(
+    /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[\sT,]+(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?)?$/i,
+  )
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    const [day, month] = dateOrder === DateOrder.DayMonth ? [first, second] : [second, first]
+    let hours = Number(match[4] || 0)
+    const meridiem = match[6]?.toLowerCase()
+    if (meridiem?.startsWith('p') && hours < 12) hours += 12
+    if (meridiem?.startsWith('a') && hours === 12) hours = 0
+    const date = new Date(year, month - 1, day, hours, Number(match[5] || 0))
+    // Rejects 31/02 and the like instead of rolling over
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+  }
+
+  const date = new Date(text)
+  return isNaN(date.getTime()) ? null : date
+}
@@ -0,0 +1,140 @@
+/**
+ * IANA timezone helpers built on Intl, so wall-clock times extracted from
+ * text ("3 PM EST") can be converted to the right instant.
+ */
+
+// Shown first in the timezone selector and used when the browser cannot
+// list all supported zones
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Asia/Seoul',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch (e) {
+    return 'UTC'
+  }
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone.trim()) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+/**
+ * All zones the browser knows about, common ones first
+ */
+export function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as
+    | ((key: string) => string[])
+    | undefined
+  const allZones = supportedValuesOf ? supportedValuesOf('timeZone') : []
+  return [...COMMON_TIME_ZONES, ...allZones.filter((zone) => !COMMON_TIME_ZONES.includes(zone))]
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant)
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour') % 24, // some engines report midnight as 24
+    get('minute'),
+    get('second'),
+  )
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+/**
+ * Parses a "YYYY-MM-DDTHH:mm[:ss]" wall-clock time. Without a timezone the
+ * browser's local zone is used, matching new Date(...) for such strings.
+ */
+export function parseDateTimeInZone(
+  dateTimeString: string | null | undefined,
+  timeZone?: string | null,
+): Date | null {
+  if (!dateTimeString) return null
+
+  const match = dateTimeString.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/)
+  if (!match || !isValidTimeZone(timeZone)) {
+    const date = new Date(dateTimeString)
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  const [year, month, day, hours, minutes, seconds = '0'] = match.slice(1).map((v) => v ?? '0')
+  const wallClockAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  )
+
+  // The offset depends on the instant (DST), so correct the first guess once
+  let result = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone)
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone)
+  result = wallClockAsUtc - correctedOffset
+
+  const date = new Date(result)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * The wall-clock time of an instant in the given zone, as
+ * "YYYY-MM-DDTHH:mm:ss"; the inverse of parseDateTimeInZone
+ */
+export function formatDateTimeInZone(instant: Date, timeZone: string): string {
+  const wallClock = new Date(instant.getTime() + getTimeZoneOffsetMs(instant, timeZone))
+  return wallClock.toISOString().slice(0, 19)
+}
+
+/**
+ * Formats an instant as a short time in the given zone, e.g. "9:00 PM"
+ */
+export function formatTimeInZone(instant: Date, timeZone?: string | null): string {
+  return instant.toLocaleString(undefined, {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
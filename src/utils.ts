@@ -47,9 +47,10 @@ export function formatDateTimeForGoogle(
     }
     const isAllDay = /^\d{4}-\d{2}-\d{2}$/.test(dtString)
     if (isAllDay) {
-      const year = date.getFullYear().toString()
-      const month = (date.getMonth() + 1).toString().padStart(2, '0')
-      const day = date.getDate().toString().padStart(2, '0')
+      // Date-only strings are parsed as UTC midnight, so read them back in UTC
+      const year = date.getUTCFullYear().toString()
+      const month = (date.getUTCMonth() + 1).toString().padStart(2, '0')
+      const day = date.getUTCDate().toString().padStart(2, '0')
       return `${year}${month}${day}`
     } else {
       const year = date.getUTCFullYear().toString()
@@ -0,0 +1,131 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Attendee Extraction
+ * Tests attendee parsing, normalization, the ICS ATTENDEE lines and the guests
+ * of calendar links
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { normalizeAttendees, parseAttendee } = loadSource('attendees.ts')
+const { buildIcsCalendar } = loadSource('ics.ts')
+const { getCalendarTarget } = loadSource('calendar-targets.ts')
+
+const EVENT = {
+  title: 'Planning',
+  startDate: '2024-12-05T15:00:00',
+  endDate: '2024-12-05T16:00:00',
+}
+
+const tests = [
+  {
+    name: '"with alice@corp.com and Bob" keeps both guests',
+    run() {
+      const attendees = normalizeAttendees([
+        { name: null, email: 'alice@corp.com' },
+        { name: 'Bob', email: null },
+      ])
+      if (JSON.stringify(attendees) !== '[{"email":"alice@corp.com"},{"name":"Bob"}]') {
+        throw new Error(`Unexpected attendees: ${JSON.stringify(attendees)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Mail client format "Name <email>" is parsed',
+    run() {
+      const attendee = parseAttendee('"Bob Smith" <bob@corp.com>')
+      if (attendee.name !== 'Bob Smith' || attendee.email !== 'bob@corp.com') {
+        throw new Error(`Unexpected attendee: ${JSON.stringify(attendee)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Duplicate emails are dropped case-insensitively',
+    run() {
+      const attendees = normalizeAttendees(['alice@corp.com', 'Alice@Corp.com'])
+      if (attendees.length !== 1) {
+        throw new Error(`Expected 1 attendee, got ${attendees.length}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Malformed addresses are rejected',
+    run() {
+      if (parseAttendee('bob@') !== null || parseAttendee('   ') !== null) {
+        throw new Error('Malformed input accepted')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'ATTENDEE lines are only written for guests with an email',
+    run() {
+      const attendees = normalizeAttendees([
+        { name: 'Bob "B" Smith', email: 'bob@corp.com' },
+        'Carl',
+      ])
+      // Long lines are folded; unfold them before comparing
+      const lines = buildIcsCalendar([{ ...EVENT, attendees }])
+        .replace(/\r\n /g, '')
+        .split('\r\n')
+        .filter((line) => line.startsWith('ATTENDEE'))
+      const expected =
+        'ATTENDEE;CN="Bob \'B\' Smith";ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:bob@corp.com'
+      if (lines.length !== 1 || lines[0] !== expected) {
+        throw new Error(`Unexpected lines: ${lines.join(' | ')}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Calendar links invite the guests with an email',
+    run() {
+      const attendees = normalizeAttendees(['Alice <alice@corp.com>', 'Bob', 'carl@corp.com'])
+      const google = new URL(getCalendarTarget('google').build({ ...EVENT, attendees }).url)
+      if (google.searchParams.get('add') !== 'alice@corp.com,carl@corp.com') {
+        throw new Error(`Google guests: ${google.searchParams.get('add')}`)
+      }
+      const outlook = new URL(getCalendarTarget('outlook').build({ ...EVENT, attendees }).url)
+      if (outlook.searchParams.get('to') !== 'alice@corp.com,carl@corp.com') {
+        throw new Error(`Outlook guests: ${outlook.searchParams.get('to')}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runAttendeeTests() {
+  console.log('🧪 Running Attendee Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Attendee Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All attendee tests passed!')
+  } else {
+    console.log('⚠️  Some attendee tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runAttendeeTests, tests }
+
+if (require.main === module) runAttendeeTests()
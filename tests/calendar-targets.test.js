@@ -0,0 +1,220 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Calendar Targets
+ * Tests the Outlook, Office 365 and Yahoo links, the .ics file output for one
+ * or several events and its download URL
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { buildFileDataUrl, buildIcsFileOutput, getCalendarTarget } =
+  loadSource('calendar-targets.ts')
+
+const EVENT = {
+  title: 'Planning',
+  startDate: '2024-12-05T15:00:00',
+  endDate: '2024-12-05T16:30:00',
+  location: 'Room 4',
+  description: 'Quarterly planning',
+  timeZone: 'Europe/Berlin',
+}
+
+const ALL_DAY_EVENT = {
+  ...EVENT,
+  startDate: '2024-12-05',
+  endDate: '2024-12-07',
+  timeZone: null,
+}
+
+// The parameters of the link a target opens for the event
+function buildLink(type, eventData) {
+  const output = getCalendarTarget(type).build(eventData)
+  if (!output || output.type !== 'url') {
+    throw new Error(`Expected a link, got ${JSON.stringify(output)}`)
+  }
+  const url = new URL(output.url)
+  return { url, params: Object.fromEntries(url.searchParams) }
+}
+
+function expectParams(params, expected) {
+  for (const [name, value] of Object.entries(expected)) {
+    if (params[name] !== value) {
+      throw new Error(`Expected ${name}=${value}, got ${params[name]}`)
+    }
+  }
+}
+
+const tests = [
+  {
+    name: 'Outlook - timed events are sent in UTC',
+    run() {
+      const { url, params } = buildLink('outlook', EVENT)
+      if (url.origin + url.pathname !== 'https://outlook.live.com/calendar/0/deeplink/compose') {
+        throw new Error(`Unexpected link: ${url}`)
+      }
+      expectParams(params, {
+        path: '/calendar/action/compose',
+        rru: 'addevent',
+        subject: 'Planning',
+        startdt: '2024-12-05T14:00:00.000Z',
+        enddt: '2024-12-05T15:30:00.000Z',
+        location: 'Room 4',
+        body: 'Quarterly planning',
+      })
+      if ('allday' in params) throw new Error('Timed event marked as all-day')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Outlook - a missing end lasts one hour',
+    run() {
+      const { params } = buildLink('outlook', { ...EVENT, endDate: '' })
+      expectParams(params, { enddt: '2024-12-05T15:00:00.000Z' })
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Office 365 - all-day events end the day after their last day',
+    run() {
+      const { url, params } = buildLink('office365', ALL_DAY_EVENT)
+      if (url.hostname !== 'outlook.office.com') throw new Error(`Unexpected host: ${url.hostname}`)
+      expectParams(params, { startdt: '2024-12-05', enddt: '2024-12-08', allday: 'true' })
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Yahoo - timed events use compact UTC times',
+    run() {
+      const { url, params } = buildLink('yahoo', EVENT)
+      if (url.hostname !== 'calendar.yahoo.com') throw new Error(`Unexpected host: ${url.hostname}`)
+      expectParams(params, {
+        v: '60',
+        title: 'Planning',
+        st: '20241205T140000Z',
+        et: '20241205T153000Z',
+        in_loc: 'Room 4',
+        desc: 'Quarterly planning',
+      })
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Yahoo - all-day events keep their dates',
+    run() {
+      const { params } = buildLink('yahoo', ALL_DAY_EVENT)
+      expectParams(params, { st: '20241205', et: '20241207', dur: 'allday' })
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unreadable start dates build nothing',
+    run() {
+      for (const type of ['outlook', 'office365', 'yahoo', 'ics']) {
+        if (getCalendarTarget(type).build({ ...EVENT, startDate: 'next week' }) !== null) {
+          throw new Error(`${type} built an output without a start date`)
+        }
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: '.ics - the event is a calendar file named after its title',
+    run() {
+      const output = getCalendarTarget('ics').build(EVENT)
+      if (output.type !== 'file' || output.mimeType !== 'text/calendar') {
+        throw new Error(`Unexpected output: ${output.type} ${output.mimeType}`)
+      }
+      if (output.filename !== 'Planning.ics') throw new Error(`Unexpected name: ${output.filename}`)
+      if (!output.content.startsWith('BEGIN:VCALENDAR\r\n')) throw new Error('Not a calendar')
+      if (!output.content.includes('DTSTART:20241205T140000Z')) {
+        throw new Error('Start not converted to UTC')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: '.ics - the selected events go into one file',
+    run() {
+      const output = buildIcsFileOutput([
+        EVENT,
+        { ...ALL_DAY_EVENT, title: 'Offsite' },
+        { ...EVENT, title: 'Someday', startDate: 'soon' },
+      ])
+      if (output.filename !== 'events.ics') throw new Error(`Unexpected name: ${output.filename}`)
+      const lines = output.content.replace(/\r\n /g, '').split('\r\n')
+      const summaries = lines.filter((line) => line.startsWith('SUMMARY:'))
+      if (summaries.join(',') !== 'SUMMARY:Planning,SUMMARY:Offsite') {
+        throw new Error(`Unexpected events: ${summaries.join(',')}`)
+      }
+      const uids = lines.filter((line) => line.startsWith('UID:'))
+      if (new Set(uids).size !== 2) throw new Error('Events share a UID')
+      if (lines.filter((line) => line === 'BEGIN:VCALENDAR').length !== 1) {
+        throw new Error('Expected a single calendar')
+      }
+      if (buildIcsFileOutput([{ ...EVENT, startDate: 'soon' }]) !== null) {
+        throw new Error('A file without events was built')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: '.ics - the download URL holds the whole file',
+    run() {
+      const output = getCalendarTarget('ics').build({ ...EVENT, title: 'Q&A #1, 50% off' })
+      const url = buildFileDataUrl(output)
+      const prefix = 'data:text/calendar;charset=utf-8,'
+      if (!url.startsWith(prefix)) throw new Error(`Unexpected URL: ${url.slice(0, 40)}`)
+      if (/[\s#%&]/.test(url.slice(prefix.length).replace(/%[0-9A-F]{2}/g, ''))) {
+        throw new Error('Unescaped characters in the URL')
+      }
+      if (decodeURIComponent(url.slice(prefix.length)) !== output.content) {
+        throw new Error('The URL does not decode to the file content')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unknown targets fall back to Google Calendar',
+    run() {
+      for (const type of ['apple', null, undefined]) {
+        if (getCalendarTarget(type).type !== 'google') {
+          throw new Error(`${type} did not fall back to Google`)
+        }
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runCalendarTargetTests() {
+  console.log('🧪 Running Calendar Target Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Calendar Target Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All calendar target tests passed!')
+  } else {
+    console.log('⚠️  Some calendar target tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runCalendarTargetTests, tests }
+
+if (require.main === module) runCalendarTargetTests()
@@ -0,0 +1,173 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Extraction Corrections
+ * Tests which edits count as corrections, how they are stored and which
+ * corrections are used as examples
+ */
+
+const { createMemoryBrowser, loadSource } = require('./source-loader')
+
+const browser = createMemoryBrowser()
+const {
+  addCorrection,
+  getChangedFields,
+  getCorrectionReferenceDate,
+  getCorrections,
+  selectRelevantCorrections,
+} = loadSource('corrections.ts', browser)
+
+const correction = (id, originalText, createdAt) => ({ id, originalText, createdAt })
+
+const stored = (originalText, title) => ({
+  originalText,
+  referenceDate: '2025-03-03',
+  extracted: {
+    title,
+    startDate: '2025-03-04T15:00:00',
+    endDate: '',
+    location: '',
+    description: '',
+  },
+  corrected: {
+    title: `PRJ-42 ${title}`,
+    startDate: '2025-03-04T15:00',
+    endDate: '',
+    location: '',
+    description: '',
+  },
+})
+
+const tests = [
+  {
+    name: 'Dropped seconds are not a correction',
+    run() {
+      const changed = getChangedFields(
+        { title: 'Standup', startDate: '2025-03-04T10:00:00', location: null },
+        { title: 'Standup', startDate: '2025-03-04T10:00', location: '' },
+      )
+      if (changed.length !== 0) throw new Error(`Unexpected changes: ${changed}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Edited fields are reported',
+    run() {
+      const changed = getChangedFields(
+        { title: 'Review', startDate: '2025-03-04T15:00:00', location: '' },
+        { title: 'PRJ-42 Review', startDate: '2025-03-04T15:00', location: 'Room 2' },
+      )
+      if (changed.join(',') !== 'title,location') throw new Error(`Got ${changed}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The most similar corrections are used',
+    run() {
+      const selected = selectRelevantCorrections(
+        [
+          correction('lunch', 'Lunch with Anna on Friday', 3),
+          correction('review', 'Sprint review Thursday 3pm', 1),
+          correction('planning', 'Sprint planning Monday', 2),
+        ],
+        'Sprint review next Thursday',
+      )
+      if (selected.map((item) => item.id).join(',') !== 'review,planning') {
+        throw new Error(`Got ${selected.map((item) => item.id)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Newer corrections win among equally similar ones',
+    run() {
+      const selected = selectRelevantCorrections(
+        [correction('old', 'Dentist appointment', 1), correction('new', 'Dentist appointment', 2)],
+        'Dentist appointment tomorrow',
+        1,
+      )
+      if (selected[0].id !== 'new') throw new Error(`Got ${selected[0].id}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Non-Latin words are matched',
+    run() {
+      const selected = selectRelevantCorrections(
+        [correction('de', 'Besprechung übermorgen', 1)],
+        'Besprechung am Dienstag',
+      )
+      if (selected.length !== 1) throw new Error('German text was not matched')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'A newer correction of the same text replaces the older one',
+    async run() {
+      await browser.storage.local.clear()
+      await addCorrection(stored('Review Thursday 3pm', 'Review'))
+      await addCorrection(stored('Standup Monday 10am', 'Standup'))
+      await addCorrection(stored('Review Thursday 3pm', 'Review'))
+      const texts = (await getCorrections()).map((item) => item.originalText)
+      if (texts.join(' | ') !== 'Review Thursday 3pm | Standup Monday 10am') {
+        throw new Error(`Stored ${texts.join(' | ')}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Empty and very long texts are not kept as examples',
+    async run() {
+      await browser.storage.local.clear()
+      await addCorrection(stored('   ', 'Blank'))
+      await addCorrection(stored('Meeting '.repeat(100), 'Long'))
+      const corrections = await getCorrections()
+      if (corrections.length !== 0) throw new Error(`Stored ${corrections.length} corrections`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Only AI results are sent with a reference date for corrections',
+    run() {
+      const dates = ['gpt3', 'gemini', 'local', 'structured-data', null].map((provider) =>
+        getCorrectionReferenceDate(provider, '2025-03-04'),
+      )
+      if (dates.join(',') !== '2025-03-04,2025-03-04,,,') {
+        throw new Error(`Unexpected reference dates: ${dates.join(',')}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runCorrectionTests() {
+  console.log('🧪 Running Correction Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Correction Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All correction tests passed!')
+  } else {
+    console.log('⚠️  Some correction tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runCorrectionTests, tests }
+
+if (require.main === module) runCorrectionTests()
@@ -0,0 +1,162 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Extraction Drafts
+ * Tests saving, replacing, capping and deleting the drafts kept for
+ * unfinished confirmations
+ */
+
+const { createMemoryBrowser, loadSource } = require('./source-loader')
+
+const browser = createMemoryBrowser()
+const { deleteDraft, getDraft, getDrafts, getLastDraft, MAX_DRAFTS, onDraftsChanged, saveDraft } =
+  loadSource('drafts.ts', browser)
+
+const EVENT = {
+  title: 'Planning',
+  startDate: '2024-12-05T15:00',
+  endDate: '2024-12-05T16:00',
+  location: 'Room 4',
+  description: '',
+}
+
+const draftInput = (title, id) => ({
+  id,
+  events: [{ ...EVENT, title }],
+  pageUrl: 'https://mail.example.com/inbox/1',
+})
+
+const titles = (drafts) => drafts.map((draft) => draft.events[0].title).join(',')
+
+const tests = [
+  {
+    name: 'New drafts get an id and come first',
+    async run() {
+      await browser.storage.local.clear()
+      const firstId = await saveDraft(draftInput('First'))
+      const secondId = await saveDraft(draftInput('Second'))
+      if (!firstId.startsWith('draft-') || firstId === secondId) {
+        throw new Error(`Unexpected ids: ${firstId}, ${secondId}`)
+      }
+      if (titles(await getDrafts()) !== 'Second,First') throw new Error('Not newest first')
+      if ((await getLastDraft()).id !== secondId) throw new Error('Last draft is not the newest')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Saving with the same id replaces the draft and moves it first',
+    async run() {
+      await browser.storage.local.clear()
+      const id = await saveDraft(draftInput('Planning'))
+      await saveDraft(draftInput('Other'))
+      const savedId = await saveDraft(draftInput('Planning (edited)', id))
+      if (savedId !== id) throw new Error(`Expected ${id}, got ${savedId}`)
+      const drafts = await getDrafts()
+      if (titles(drafts) !== 'Planning (edited),Other') {
+        throw new Error(`Unexpected drafts: ${titles(drafts)}`)
+      }
+      if ((await getDraft(id)).events[0].title !== 'Planning (edited)') {
+        throw new Error('Draft not found by id')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: `Only the newest ${MAX_DRAFTS} drafts are kept`,
+    async run() {
+      await browser.storage.local.clear()
+      for (let index = 0; index <= MAX_DRAFTS; index++) {
+        await saveDraft(draftInput(`Draft ${index}`))
+      }
+      const drafts = await getDrafts()
+      if (drafts.length !== MAX_DRAFTS) throw new Error(`Got ${drafts.length} drafts`)
+      if (drafts[0].events[0].title !== `Draft ${MAX_DRAFTS}`) throw new Error('Newest dropped')
+      if (drafts.some((draft) => draft.events[0].title === 'Draft 0')) {
+        throw new Error('Oldest draft kept')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Deleting a draft removes only that draft',
+    async run() {
+      await browser.storage.local.clear()
+      const id = await saveDraft(draftInput('Done'))
+      await saveDraft(draftInput('Open'))
+      await deleteDraft(id)
+      await deleteDraft('draft-unknown')
+      if (titles(await getDrafts()) !== 'Open') throw new Error('Wrong draft deleted')
+      if ((await getDraft(id)) !== null) throw new Error('Deleted draft still found')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'A save overlapping a delete does not bring the draft back',
+    async run() {
+      await browser.storage.local.clear()
+      const id = await saveDraft(draftInput('Added'))
+      await Promise.all([
+        saveDraft(draftInput('Other')),
+        deleteDraft(id),
+        saveDraft(draftInput('Newest')),
+      ])
+      const drafts = await getDrafts()
+      if (titles(drafts) !== 'Newest,Other') {
+        throw new Error(`Unexpected drafts: ${titles(drafts)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Listeners get the drafts after every change',
+    async run() {
+      await browser.storage.local.clear()
+      const counts = []
+      onDraftsChanged((drafts) => counts.push(drafts.length))
+      const id = await saveDraft(draftInput('Planning'))
+      await deleteDraft(id)
+      if (counts.join(',') !== '1,0') throw new Error(`Unexpected updates: ${counts.join(',')}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Nothing to reopen without drafts',
+    async run() {
+      await browser.storage.local.clear()
+      if ((await getLastDraft()) !== null) throw new Error('Expected no draft')
+      return 'PASS'
+    },
+  },
+]
+
+async function runDraftTests() {
+  console.log('🧪 Running Draft Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Draft Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All draft tests passed!')
+  } else {
+    console.log('⚠️  Some draft tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runDraftTests, tests }
+
+if (require.main === module) runDraftTests()
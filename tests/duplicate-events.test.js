@@ -0,0 +1,192 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Duplicate Event Detection
+ * Tests matching events about to be added against the event history
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { findDuplicateEntry, getEventInterval, getTextSimilarity } =
+  loadSource('duplicate-events.ts')
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const entry = (id, event, createdAt = 1) => ({
+  id,
+  event: { endDate: '', location: '', description: '', ...event },
+  target: 'google',
+  createdAt,
+})
+
+const HISTORY = [
+  entry('standup', {
+    title: 'Weekly design review',
+    startDate: '2024-03-21T14:00',
+    endDate: '2024-03-21T15:00',
+    location: 'Room 4B',
+  }),
+  entry('offsite', { title: 'Team offsite', startDate: '2024-04-10', endDate: '2024-04-12' }),
+]
+
+const tests = [
+  {
+    name: 'Title similarity ignores case, punctuation and mail prefixes',
+    run() {
+      const score = getTextSimilarity('Fwd: Invitation: Design Review!', 'design review')
+      if (score !== 1) throw new Error(`Expected 1, got ${score}`)
+      if (getTextSimilarity('Lunch', 'Dinner') !== 0) throw new Error('Different titles matched')
+      if (getTextSimilarity('', 'Lunch') !== 0) throw new Error('Empty title matched')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Partly shared titles score between 0 and 1',
+    run() {
+      const score = getTextSimilarity('Quarterly planning sync', 'Quarterly budget sync')
+      if (Math.abs(score - 2 / 3) > 0.001) throw new Error(`Expected 0.67, got ${score}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Intervals default to an hour, or a day for all-day events',
+    run() {
+      const timed = getEventInterval({ startDate: '2024-03-21T14:00', endDate: '' })
+      if (timed.end - timed.start !== HOUR_MS) throw new Error('Timed event is not an hour')
+      const allDay = getEventInterval({ startDate: '2024-03-21', endDate: '2024-03-20' })
+      if (allDay.end - allDay.start !== DAY_MS) throw new Error('All-day event is not a day')
+      if (getEventInterval({ startDate: 'soon', endDate: '' }) !== null) {
+        throw new Error('Invalid start should have no interval')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Same invite from another thread is a duplicate',
+    run() {
+      const event = {
+        title: 'Re: Weekly design review',
+        startDate: '2024-03-21T14:00',
+        endDate: '2024-03-21T15:00',
+        location: '',
+      }
+      const found = findDuplicateEntry(event, HISTORY)
+      if (found?.id !== 'standup') throw new Error(`Got ${found?.id}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Overlapping times are required',
+    run() {
+      const event = {
+        title: 'Weekly design review',
+        startDate: '2024-03-28T14:00',
+        endDate: '2024-03-28T15:00',
+      }
+      if (findDuplicateEntry(event, HISTORY)) throw new Error('Next week matched')
+      const adjacent = { ...event, startDate: '2024-03-21T15:00', endDate: '2024-03-21T16:00' }
+      if (findDuplicateEntry(adjacent, HISTORY)) throw new Error('Back-to-back event matched')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Timed event during an all-day event overlaps it',
+    run() {
+      const event = { title: 'Team offsite dinner', startDate: '2024-04-11T19:00', endDate: '' }
+      if (findDuplicateEntry(event, HISTORY)?.id !== 'offsite') throw new Error('No match')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Same location accepts looser titles, another location needs close ones',
+    run() {
+      const base = { startDate: '2024-03-21T14:30', endDate: '2024-03-21T15:30' }
+      const sameRoom = { ...base, title: 'Review notes', location: 'Room 4B, floor 2' }
+      if (findDuplicateEntry(sameRoom, HISTORY)?.id !== 'standup') {
+        throw new Error('Same location with a looser title should match')
+      }
+      const noRoom = { ...sameRoom, location: '' }
+      if (findDuplicateEntry(noRoom, HISTORY))
+        throw new Error('Loose title without location matched')
+      const otherPlace = { ...base, title: 'Weekly design sync', location: 'Cafe Luna' }
+      if (findDuplicateEntry(otherPlace, HISTORY)) throw new Error('Other location matched')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Best match wins, newest among equals',
+    run() {
+      const history = [
+        entry('older', { title: 'Design review', startDate: '2024-03-21T14:00' }, 1),
+        entry('newer', { title: 'Design review', startDate: '2024-03-21T14:00' }, 2),
+        entry('partial', { title: 'Design sync', startDate: '2024-03-21T14:00' }, 3),
+      ]
+      const found = findDuplicateEntry(
+        { title: 'Design review', startDate: '2024-03-21T14:00' },
+        history,
+      )
+      if (found?.id !== 'newer') throw new Error(`Got ${found?.id}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Times in other zones are compared as instants',
+    run() {
+      const history = [
+        entry('call', {
+          title: 'Vendor call',
+          startDate: '2024-03-21T09:00',
+          endDate: '2024-03-21T10:00',
+          timeZone: 'America/New_York',
+        }),
+      ]
+      const sameCall = {
+        title: 'Vendor call',
+        // New York is already on summer time, London not yet
+        startDate: '2024-03-21T13:00',
+        endDate: '2024-03-21T14:00',
+        timeZone: 'Europe/London',
+      }
+      if (findDuplicateEntry(sameCall, history)?.id !== 'call') {
+        throw new Error('The same call in London time was not matched')
+      }
+      if (findDuplicateEntry({ ...sameCall, timeZone: 'America/New_York' }, history)) {
+        throw new Error('A call four hours later matched')
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runDuplicateEventTests() {
+  console.log('🧪 Running Duplicate Event Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Duplicate Event Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All duplicate event tests passed!')
+  } else {
+    console.log('⚠️  Some duplicate event tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runDuplicateEventTests, tests }
+
+if (require.main === module) runDuplicateEventTests()
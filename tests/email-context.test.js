@@ -0,0 +1,148 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Email Context
+ * Tests reading the sent date of web mail, the prompt lines about the email and
+ * completing attendees from the email
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { parseSentDate } = loadSource('content-script/email-adapters.ts')
+const { buildEmailPromptContext, completeAttendeesFromEmail, getReferenceDate } = loadSource(
+  'background/email-context.ts',
+)
+
+const context = {
+  source: 'gmail',
+  subject: 'Lunch?',
+  sender: { name: 'Alice Martin', email: 'alice@corp.com' },
+  recipients: [
+    { name: 'Bob Stone', email: 'bob@corp.com' },
+    { name: 'Bob Ray', email: 'ray@corp.com' },
+    { name: 'Carol White', email: 'carol@corp.com' },
+  ],
+  sentAt: '2025-03-04T10:12:00',
+}
+
+const tests = [
+  {
+    name: 'Gmail and Outlook send times are read',
+    run() {
+      const samples = {
+        'Tue, Mar 4, 2025, 10:12 AM (2 days ago)': '2025-03-04T10:12:00',
+        'Tue 3/4/2025 10:12 AM': '2025-03-04T10:12:00',
+        'Tuesday, March 4, 2025 at 10:12 AM': '2025-03-04T10:12:00',
+      }
+      for (const [text, expected] of Object.entries(samples)) {
+        const result = parseSentDate(text)
+        if (result !== expected) throw new Error(`"${text}" gave ${result}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Send times without a year are never in the future',
+    run() {
+      const result = parseSentDate('Dec 31, 11:59 PM')
+      if (!result || new Date(result) > new Date()) throw new Error(`Unexpected date: ${result}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unreadable send times are ignored',
+    run() {
+      if (parseSentDate('yesterday-ish') !== null || parseSentDate('') !== null) {
+        throw new Error('Expected null')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Named attendees get the address from the email',
+    run() {
+      const [eventData] = completeAttendeesFromEmail(
+        [{ title: 'Lunch', attendees: [{ name: 'Alice Martin' }, { name: 'Carol' }] }],
+        context,
+      )
+      const emails = eventData.attendees.map((attendee) => attendee.email).join(',')
+      if (emails !== 'alice@corp.com,carol@corp.com') throw new Error(`Got ${emails}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Ambiguous first names and strangers stay without an address',
+    run() {
+      const [eventData] = completeAttendeesFromEmail(
+        [{ title: 'Lunch', attendees: [{ name: 'Bob' }, { name: 'Dave' }] }],
+        context,
+      )
+      if (eventData.attendees.some((attendee) => attendee.email)) {
+        throw new Error(`Unexpected addresses: ${JSON.stringify(eventData.attendees)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Relative dates are read against the sent date',
+    run() {
+      const sentAt = getReferenceDate(context)
+      if (sentAt.getFullYear() !== 2025 || sentAt.getMonth() !== 2 || sentAt.getDate() !== 4) {
+        throw new Error(`Got ${sentAt}`)
+      }
+      const now = getReferenceDate({ ...context, sentAt: null })
+      if (Math.abs(now.getTime() - Date.now()) > 1000) throw new Error('Expected now')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The prompt names the subject, the people and the sent time',
+    run() {
+      const lines = buildEmailPromptContext(context).split('\n')
+      const expected = [
+        '- Email subject: Lunch?',
+        '- Email sender: Alice Martin <alice@corp.com>',
+        '- Email sent at: 2025-03-04T10:12:00',
+      ]
+      for (const line of expected) {
+        if (!lines.includes(line)) throw new Error(`Missing "${line}"`)
+      }
+      if (!lines[0].includes('relative to that day')) throw new Error(`Got "${lines[0]}"`)
+      const unsent = buildEmailPromptContext({ ...context, sentAt: null })
+      if (unsent.includes('relative to that day')) throw new Error('No sent date, no reference day')
+      return 'PASS'
+    },
+  },
+]
+
+async function runEmailContextTests() {
+  console.log('🧪 Running Email Context Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Email Context Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All email context tests passed!')
+  } else {
+    console.log('⚠️  Some email context tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runEmailContextTests, tests }
+
+if (require.main === module) runEmailContextTests()
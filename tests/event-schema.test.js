@@ -0,0 +1,216 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Extraction Output Repair and Validation
+ * Tests that common LLM JSON mistakes are repaired without corrupting text, how
+ * dates are coerced and which entries of the answer become events
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { coerceDate, repairJson, validateExtractedEvents } = loadSource('background/event-schema.ts')
+
+function parseRepaired(text) {
+  return JSON.parse(repairJson(text))
+}
+
+const tests = [
+  {
+    name: 'Apostrophes in double-quoted strings are kept',
+    run() {
+      const parsed = parseRepaired('{"title": "Mom\'s birthday"}')
+      if (parsed.title !== "Mom's birthday") throw new Error(`Unexpected title: ${parsed.title}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Single-quoted strings with apostrophes are converted',
+    run() {
+      const parsed = parseRepaired("{'title': 'Mom's birthday', 'location': 'Joe\\'s'}")
+      if (parsed.title !== "Mom's birthday" || parsed.location !== "Joe's") {
+        throw new Error(`Unexpected values: ${JSON.stringify(parsed)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unquoted keys, Python literals and trailing commas are fixed',
+    run() {
+      const parsed = parseRepaired('{events: [{title: "Lunch", location: None, allDay: True,},],}')
+      const event = parsed.events[0]
+      if (event.title !== 'Lunch' || event.location !== null || event.allDay !== true) {
+        throw new Error(`Unexpected event: ${JSON.stringify(parsed)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Raw newlines and double quotes inside strings are escaped',
+    run() {
+      const parsed = parseRepaired("{'description': 'Line 1\nSay \"hi\"'}")
+      if (parsed.description !== 'Line 1\nSay "hi"') {
+        throw new Error(`Unexpected description: ${JSON.stringify(parsed.description)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Comments are removed',
+    run() {
+      const parsed = parseRepaired('{"title": "A", // the title\n "location": null /* none */}')
+      if (parsed.title !== 'A' || parsed.location !== null) {
+        throw new Error(`Unexpected values: ${JSON.stringify(parsed)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates - wall-clock times are kept as written',
+    run() {
+      const { value, error } = coerceDate('2024-12-05 15:00')
+      if (value !== '2024-12-05T15:00:00' || error) throw new Error(`Got ${value} (${error})`)
+      if (coerceDate('2024-02-30').value !== '') throw new Error('Invalid dates should be empty')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates - a UTC offset is converted to the event zone',
+    run() {
+      const utc = coerceDate('2024-12-05T15:00:00Z')
+      if (utc.value !== '2024-12-05T15:00:00') throw new Error(`UTC got ${utc.value}`)
+      const paris = coerceDate('2024-12-05T15:00:00+02:00', { timeZone: 'Europe/Paris' })
+      if (paris.value !== '2024-12-05T14:00:00') throw new Error(`Paris got ${paris.value}`)
+      const newYork = coerceDate('2024-12-05T23:30-0500', { timeZone: 'Asia/Tokyo' })
+      if (newYork.value !== '2024-12-06T13:30:00') throw new Error(`Tokyo got ${newYork.value}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates - an offset without a zone keeps the event in UTC',
+    run() {
+      const [event] = validateExtractedEvents(
+        { title: 'Call', startDate: '2024-12-05T15:00:00-08:00', endDate: '2024-12-05T16:00' },
+        '',
+      )
+      if (event.timeZone !== 'UTC' || event.startDate !== '2024-12-05T23:00:00') {
+        throw new Error(`Got ${event.startDate} in ${event.timeZone}`)
+      }
+      const [zoned] = validateExtractedEvents(
+        { title: 'Call', startDate: '2024-12-05T15:00:00Z', timeZone: 'America/New_York' },
+        '',
+      )
+      if (zoned.timeZone !== 'America/New_York' || zoned.startDate !== '2024-12-05T10:00:00') {
+        throw new Error(`Got ${zoned.startDate} in ${zoned.timeZone}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates - numeric dates follow the date order',
+    run() {
+      const dayFirst = coerceDate('03/04/2025 14:30', { dateOrder: 'dayMonth' })
+      if (dayFirst.value !== '2025-04-03T14:30:00') throw new Error(`DMY got ${dayFirst.value}`)
+      const monthFirst = coerceDate('03/04/2025', { dateOrder: 'monthDay' })
+      if (monthFirst.value !== '2025-03-04') throw new Error(`MDY got ${monthFirst.value}`)
+      if (!monthFirst.error) throw new Error('Converted dates should be flagged')
+      const [event] = validateExtractedEvents(
+        { title: 'A', startDate: '13/04/2025' },
+        '',
+        'dayMonth',
+      )
+      if (event.startDate !== '2025-04-13') throw new Error(`Event got ${event.startDate}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates - month names are converted and flagged',
+    run() {
+      const { value, error } = coerceDate('Dec 5, 2024 3:00 PM', { dateOrder: 'dayMonth' })
+      if (value !== '2024-12-05T15:00:00' || !error) throw new Error(`Got ${value} (${error})`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events - the older single-object format is one event',
+    run() {
+      const events = validateExtractedEvents(
+        { title: 'Dentist', startDate: '2024-12-05T09:00:00', endDate: null },
+        'Dentist Thursday 9am',
+      )
+      if (events.length !== 1 || events[0].title !== 'Dentist') {
+        throw new Error(`Unexpected events: ${JSON.stringify(events)}`)
+      }
+      if (events[0].originalText !== 'Dentist Thursday 9am') throw new Error('Text not kept')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events - an empty list is no events',
+    run() {
+      for (const output of [{ events: [] }, [], null, 'no events']) {
+        const events = validateExtractedEvents(output, '')
+        if (events.length !== 0) throw new Error(`${JSON.stringify(output)} gave ${events.length}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events - entries that are not events are dropped, incomplete ones flagged',
+    run() {
+      const events = validateExtractedEvents(
+        {
+          events: [
+            { title: 'Keynote', startDate: '2024-12-10T09:00:00', endDate: '2024-12-10T10:00:00' },
+            'Workshop at 10:30',
+            null,
+            [{ title: 'Nested' }],
+            { title: null, startDate: null, location: null },
+            { title: 'Lunch', startDate: 'around noon', endDate: '2024-12-09T13:00:00' },
+          ],
+        },
+        '',
+      )
+      const titles = events.map((event) => event.title).join(',')
+      if (titles !== 'Keynote,Lunch') throw new Error(`Unexpected events: ${titles}`)
+      if (Object.keys(events[0].fieldErrors).length !== 0) {
+        throw new Error(`Valid event flagged: ${JSON.stringify(events[0].fieldErrors)}`)
+      }
+      if (!events[1].fieldErrors.startDate || events[1].endDate !== '2024-12-09T13:00:00') {
+        throw new Error(`Unexpected lunch: ${JSON.stringify(events[1])}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runEventSchemaTests() {
+  console.log('🧪 Running Extraction Repair Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Extraction Repair Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All extraction repair tests passed!')
+  } else {
+    console.log('⚠️  Some extraction repair tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runEventSchemaTests, tests }
+
+if (require.main === module) runEventSchemaTests()
@@ -0,0 +1,291 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for the Event History
+ * Tests storing, searching and filtering the history and exporting it as CSV
+ */
+
+const { createMemoryBrowser, loadSource } = require('./source-loader')
+
+const browser = createMemoryBrowser()
+const {
+  addToHistory,
+  buildHistoryCsv,
+  deleteHistoryEntry,
+  filterHistory,
+  getHistory,
+  MAX_HISTORY_ENTRIES,
+} = loadSource('history.ts', browser)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2024, 2, 20, 12, 0, 0)
+
+const ENTRIES = [
+  {
+    id: 'event-1',
+    event: {
+      title: 'Team standup',
+      startDate: '2024-03-21T09:00:00',
+      endDate: '2024-03-21T09:15:00',
+      location: 'Room 4',
+      originalText: 'Standup tomorrow at 9 in room 4',
+    },
+    target: 'google',
+    provider: 'gemini',
+    sourceUrl: 'https://mail.example.com/inbox/1',
+    pageTitle: 'Inbox - Work mail',
+    createdAt: NOW - DAY_MS,
+  },
+  {
+    id: 'event-2',
+    event: {
+      title: 'Jazz night',
+      startDate: '2024-04-05T20:00:00',
+      endDate: '2024-04-05T23:00:00',
+      location: 'Blue Note, New York',
+      description: 'Doors open at "7:30"',
+    },
+    target: 'outlook',
+    provider: 'structured-data',
+    sourceUrl: 'https://tickets.example.com/jazz',
+    pageTitle: 'Jazz night tickets',
+    createdAt: NOW - 40 * DAY_MS,
+  },
+  {
+    id: 'event-3',
+    event: {
+      title: 'Dentist',
+      startDate: '2024-03-25',
+      endDate: '2024-03-26',
+    },
+    target: 'google',
+    provider: null,
+    sourceUrl: null,
+    pageTitle: null,
+    createdAt: NOW - 2 * DAY_MS,
+  },
+]
+
+const ids = (entries) => entries.map((entry) => entry.id).join(',')
+
+const tests = [
+  {
+    name: 'Empty filter keeps every entry in order',
+    run() {
+      const result = ids(filterHistory(ENTRIES, {}))
+      if (result !== 'event-1,event-2,event-3') throw new Error(`Got ${result}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Query matches every word, case-insensitively',
+    run() {
+      const result = ids(filterHistory(ENTRIES, { query: 'JAZZ  new york' }))
+      if (result !== 'event-2') throw new Error(`Got ${result}`)
+      if (filterHistory(ENTRIES, { query: 'jazz standup' }).length !== 0) {
+        throw new Error('Entries should match all words')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Query searches the original text and source page',
+    run() {
+      if (ids(filterHistory(ENTRIES, { query: 'tomorrow' })) !== 'event-1') {
+        throw new Error('Original text not searched')
+      }
+      if (ids(filterHistory(ENTRIES, { query: 'work mail' })) !== 'event-1') {
+        throw new Error('Page title not searched')
+      }
+      if (ids(filterHistory(ENTRIES, { query: 'tickets.example' })) !== 'event-2') {
+        throw new Error('Page URL not searched')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Filters by calendar, provider and period',
+    run() {
+      const google = ids(filterHistory(ENTRIES, { target: 'google' }))
+      if (google !== 'event-1,event-3') throw new Error(`Target filter got ${google}`)
+      const markup = ids(filterHistory(ENTRIES, { provider: 'structured-data' }))
+      if (markup !== 'event-2') throw new Error(`Provider filter got ${markup}`)
+      const recent = ids(filterHistory(ENTRIES, { since: NOW - 30 * DAY_MS }))
+      if (recent !== 'event-1,event-3') throw new Error(`Period filter got ${recent}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Filters to the entries a duplicate warning links to',
+    run() {
+      const linked = ids(filterHistory(ENTRIES, { ids: ['event-3', 'event-2'] }))
+      if (linked !== 'event-2,event-3') throw new Error(`Id filter got ${linked}`)
+      if (filterHistory(ENTRIES, { ids: ['event-9'] }).length !== 0) {
+        throw new Error('Unknown ids should match nothing')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Null filter values are ignored',
+    run() {
+      const result = filterHistory(ENTRIES, {
+        query: '',
+        target: null,
+        provider: null,
+        since: null,
+      })
+      if (result.length !== ENTRIES.length) throw new Error(`Got ${result.length} entries`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'CSV has a header row and one row per entry',
+    run() {
+      const lines = buildHistoryCsv(ENTRIES.slice(0, 1)).split('\r\n')
+      if (lines.length !== 3 || lines[2] !== '') throw new Error(`Got ${lines.length} lines`)
+      if (!lines[0].startsWith('Title,Start,End,Location')) throw new Error('Wrong header')
+      if (!lines[1].startsWith('Team standup,2024-03-21T09:00:00,2024-03-21T09:15:00,Room 4')) {
+        throw new Error(`Wrong row: ${lines[1]}`)
+      }
+      if (!lines[1].includes(',gemini,2024-03-19T12:00:00.000Z,')) {
+        throw new Error('Provider or added date missing')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'CSV quotes commas and quotes and leaves missing values empty',
+    run() {
+      const row = buildHistoryCsv(ENTRIES).split('\r\n')[2]
+      if (!row.includes(',"Blue Note, New York",')) throw new Error('Comma not quoted')
+      if (!row.includes(',"Doors open at ""7:30""",')) throw new Error('Quotes not escaped')
+      const empty = buildHistoryCsv(ENTRIES).split('\r\n')[3]
+      if (!empty.endsWith(',,,')) throw new Error(`Missing values not empty: ${empty}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'CSV keeps line breaks inside quoted values',
+    run() {
+      const entry = {
+        ...ENTRIES[0],
+        event: { ...ENTRIES[0].event, originalText: 'Line 1\nLine 2' },
+      }
+      const csv = buildHistoryCsv([entry])
+      if (!csv.endsWith(',"Line 1\nLine 2"\r\n')) throw new Error('Line break not quoted')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'CSV turns formulas from web pages into plain text',
+    run() {
+      const entry = {
+        ...ENTRIES[0],
+        event: {
+          ...ENTRIES[0].event,
+          title: '=HYPERLINK("https://evil.example","Click")',
+          location: '+1 555 0100',
+          description: '@SUM(A1:A2)',
+          originalText: '-2+3',
+        },
+      }
+      const row = buildHistoryCsv([entry]).split('\r\n')[1]
+      if (!row.startsWith('"\'=HYPERLINK(""https://evil.example"",""Click"")",')) {
+        throw new Error(`Formula not escaped: ${row}`)
+      }
+      for (const cell of ["'+1 555 0100", "'@SUM(A1:A2)", "'-2+3"]) {
+        if (!row.includes(cell)) throw new Error(`Expected ${cell} in ${row}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Parallel additions keep every entry with its own id',
+    async run() {
+      await browser.storage.local.clear()
+      await Promise.all([
+        addToHistory([ENTRIES[0].event], 'google', { provider: 'gemini' }),
+        addToHistory([ENTRIES[1].event], 'google', { provider: 'gemini' }),
+        addToHistory([ENTRIES[2].event, ENTRIES[0].event], 'ics'),
+      ])
+      const history = await getHistory()
+      if (history.length !== 4) throw new Error(`Expected 4 entries, got ${history.length}`)
+      if (new Set(history.map((entry) => entry.id)).size !== 4) throw new Error('Ids collide')
+      if (history[0].event.title !== 'Dentist' || history[3].event.title !== 'Team standup') {
+        throw new Error('Entries not stored newest first')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Deleting an entry removes only that entry',
+    async run() {
+      await browser.storage.local.clear()
+      await addToHistory([ENTRIES[0].event, ENTRIES[0].event], 'google')
+      const [first, second] = await getHistory()
+      await deleteHistoryEntry(first.id)
+      const history = await getHistory()
+      if (history.length !== 1 || history[0].id !== second.id) {
+        throw new Error(`Expected only ${second.id} left, got ${ids(history)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The history keeps the newest entries with a shortened text',
+    async run() {
+      await browser.storage.local.clear()
+      const events = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, index) => ({
+        ...ENTRIES[2].event,
+        title: `Event ${index}`,
+      }))
+      await addToHistory(events, 'google')
+      await addToHistory([{ ...ENTRIES[0].event, originalText: 'x'.repeat(5000) }], 'google', {
+        sourceUrl: 'https://mail.example.com/inbox/1',
+      })
+      const history = await getHistory()
+      if (history.length !== MAX_HISTORY_ENTRIES) throw new Error(`Got ${history.length}`)
+      if (history[0].event.title !== 'Team standup' || history[0].pageTitle !== null) {
+        throw new Error(`Unexpected newest entry: ${JSON.stringify(history[0])}`)
+      }
+      if (history[0].event.originalText.length >= 5000) throw new Error('Text not shortened')
+      if (history[MAX_HISTORY_ENTRIES - 1].event.title !== `Event ${MAX_HISTORY_ENTRIES - 2}`) {
+        throw new Error('The oldest entry was kept')
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runHistoryTests() {
+  console.log('🧪 Running Event History Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Event History Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All event history tests passed!')
+  } else {
+    console.log('⚠️  Some event history tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runHistoryTests, tests }
+
+if (require.main === module) runHistoryTests()
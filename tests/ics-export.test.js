@@ -0,0 +1,166 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for .ics Export Feature
+ * Tests RFC 5545 text escaping, line folding and all-day/timed date lines
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { buildIcsCalendar, buildIcsFilename, escapeIcsText, foldIcsLine } = loadSource('ics.ts')
+
+const MAX_LINE_OCTETS = 75
+
+// The unfolded content lines of the calendar file for one event
+function buildLines(eventData) {
+  return buildIcsCalendar([{ title: 'Event', ...eventData }])
+    .replace(/\r\n /g, '')
+    .split('\r\n')
+}
+
+function buildDateLines(startDate, endDate, timeZone) {
+  return buildLines({ startDate, endDate, timeZone }).filter((line) => /^DT(START|END)/.test(line))
+}
+
+const tests = [
+  {
+    name: 'Escapes commas, semicolons, backslashes and newlines',
+    run() {
+      const escaped = escapeIcsText('Lunch; Bob, Alice\\Carol\nRoom 4')
+      if (escaped !== 'Lunch\\; Bob\\, Alice\\\\Carol\\nRoom 4') {
+        throw new Error(`Unexpected escaping: ${escaped}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Keeps apostrophes untouched',
+    run() {
+      const escaped = escapeIcsText("Mom's birthday")
+      if (escaped !== "Mom's birthday") {
+        throw new Error(`Unexpected escaping: ${escaped}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Short lines are not folded',
+    run() {
+      const line = 'SUMMARY:Team meeting'
+      if (foldIcsLine(line) !== line) {
+        throw new Error('Short line should be unchanged')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Long lines fold at 75 octets with a leading space',
+    run() {
+      const folded = foldIcsLine('DESCRIPTION:' + 'x'.repeat(200))
+      const physicalLines = folded.split('\r\n')
+      for (const [index, physicalLine] of physicalLines.entries()) {
+        if (new TextEncoder().encode(physicalLine).length > MAX_LINE_OCTETS) {
+          throw new Error(
+            `Line ${index} is ${new TextEncoder().encode(physicalLine).length} octets`,
+          )
+        }
+        if (index > 0 && !physicalLine.startsWith(' ')) {
+          throw new Error(`Continuation line ${index} must start with a space`)
+        }
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Folding never splits multi-byte characters',
+    run() {
+      const line = 'SUMMARY:' + 'é'.repeat(80)
+      const unfolded = foldIcsLine(line).replace(/\r\n /g, '')
+      if (unfolded !== line) {
+        throw new Error('Unfolded line does not match the original')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'All-day event uses an exclusive DTEND',
+    run() {
+      const [start, end] = buildDateLines('2025-12-25', '2025-12-25')
+      if (start !== 'DTSTART;VALUE=DATE:20251225' || end !== 'DTEND;VALUE=DATE:20251226') {
+        throw new Error(`Unexpected date lines: ${start} / ${end}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'All-day event without end date spans one day across month end',
+    run() {
+      const [start, end] = buildDateLines('2025-01-31', '')
+      if (start !== 'DTSTART;VALUE=DATE:20250131' || end !== 'DTEND;VALUE=DATE:20250201') {
+        throw new Error(`Unexpected date lines: ${start} / ${end}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Timed events are written in UTC from their zone',
+    run() {
+      const [start, end] = buildDateLines('2025-07-01T09:00', '', 'America/New_York')
+      if (start !== 'DTSTART:20250701T130000Z' || end !== 'DTEND:20250701T140000Z') {
+        throw new Error(`Unexpected date lines: ${start} / ${end}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events without a readable start are not written',
+    run() {
+      if (buildIcsCalendar([{ title: 'Someday', startDate: 'soon', endDate: '' }]) !== null) {
+        throw new Error('Expected no calendar')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'File names are built from the title',
+    run() {
+      const names = [buildIcsFilename('Team sync: Q3 / planning'), buildIcsFilename('  ')]
+      if (names.join(',') !== 'Team-sync-Q3-planning.ics,event.ics') {
+        throw new Error(`Got ${names.join(',')}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runIcsExportTests() {
+  console.log('🧪 Running .ics Export Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 .ics Export Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All .ics export tests passed!')
+  } else {
+    console.log('⚠️  Some .ics export tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runIcsExportTests, tests }
+
+if (require.main === module) runIcsExportTests()
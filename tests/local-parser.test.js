@@ -0,0 +1,159 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for the Local (no AI) Parser
+ * Tests dates, weekdays, am/pm handling in time ranges, locations and the date
+ * order on the parser itself
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { parseEventText } = loadSource('background/local-parser.ts')
+
+// Monday 2 December 2024, 9:00
+const REFERENCE_DATE = new Date(2024, 11, 2, 9, 0)
+
+// The single event read from the text
+function parse(text, dateOrder) {
+  const events = parseEventText(text, REFERENCE_DATE, dateOrder)
+  if (events.length !== 1) throw new Error(`Expected one event in "${text}", got ${events.length}`)
+  return events[0]
+}
+
+function expectDates(event, startDate, endDate) {
+  if (event.startDate !== startDate || event.endDate !== endDate) {
+    throw new Error(`Expected ${startDate} - ${endDate}, got ${event.startDate} - ${event.endDate}`)
+  }
+}
+
+const tests = [
+  {
+    name: '"Dec 5-7" is an all-day range',
+    run() {
+      const event = parse('Conference Dec 5-7')
+      expectDates(event, '2024-12-05', '2024-12-07')
+      if (event.title !== 'Conference') throw new Error(`Unexpected title: ${event.title}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: '"Thursday" on a Monday is three days ahead',
+    run() {
+      expectDates(parse('Sync Thursday'), '2024-12-05', '2024-12-05')
+      return 'PASS'
+    },
+  },
+  {
+    name: '"Monday" on a Monday is today, "next Monday" a week later',
+    run() {
+      expectDates(parse('Standup Monday'), '2024-12-02', '2024-12-02')
+      expectDates(parse('Standup next Monday'), '2024-12-09', '2024-12-09')
+      return 'PASS'
+    },
+  },
+  {
+    name: '"next Tuesday 3pm" is the coming Tuesday, for an hour',
+    run() {
+      const event = parse('Dentist next Tuesday 3pm')
+      expectDates(event, '2024-12-03T15:00:00', '2024-12-03T16:00:00')
+      if (event.title !== 'Dentist') throw new Error(`Unexpected title: ${event.title}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: '"3-4pm" shares the pm marker',
+    run() {
+      expectDates(parse('Review 3-4pm'), '2024-12-02T15:00:00', '2024-12-02T16:00:00')
+      return 'PASS'
+    },
+  },
+  {
+    name: '"11-1pm" starts in the morning and "12-2pm" at noon',
+    run() {
+      expectDates(parse('Lunch 11-1pm friday'), '2024-12-06T11:00:00', '2024-12-06T13:00:00')
+      expectDates(parse('Lunch 12-2pm'), '2024-12-02T12:00:00', '2024-12-02T14:00:00')
+      return 'PASS'
+    },
+  },
+  {
+    name: '"9am-5" ends in the afternoon, "11pm-1am" the next day',
+    run() {
+      expectDates(parse('Workshop 9am-5 on Dec 9'), '2024-12-09T09:00:00', '2024-12-09T17:00:00')
+      expectDates(parse('Party 11pm-1am Saturday'), '2024-12-07T23:00:00', '2024-12-08T01:00:00')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Slash dates follow the date order',
+    run() {
+      expectDates(parse('Dentist 12/5', 'monthDay'), '2024-12-05', '2024-12-05')
+      expectDates(parse('Dentist 12/5', 'dayMonth'), '2025-05-12', '2025-05-12')
+      // Month first unless the caller passes the setting
+      expectDates(parse('Dentist 12/5'), '2024-12-05', '2024-12-05')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dotted dates are day first in either order',
+    run() {
+      expectDates(parse('Meeting 5.12.2024', 'monthDay'), '2024-12-05', '2024-12-05')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The place after "at" and a "Location:" line become the location',
+    run() {
+      const lunch = parse('Lunch with Dana at Cafe Luna tomorrow 12:30')
+      if (lunch.title !== 'Lunch with Dana' || lunch.location !== 'Cafe Luna') {
+        throw new Error(`Got "${lunch.title}" at "${lunch.location}"`)
+      }
+      expectDates(lunch, '2024-12-03T12:30:00', '2024-12-03T13:30:00')
+      const planning = parse('Planning Dec 6 10:00\nLocation: Room 4B')
+      if (planning.location !== 'Room 4B') throw new Error(`Got "${planning.location}"`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Text without a date or time has no event',
+    run() {
+      for (const text of ['Thanks for the update!', 'Call at 13pm', 'Call 25:00']) {
+        const events = parseEventText(text, REFERENCE_DATE)
+        if (events.length !== 0) throw new Error(`"${text}" gave ${JSON.stringify(events)}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+// Test runner
+function runLocalParserTests() {
+  console.log('🧪 Running Local Parser Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Local Parser Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All local parser tests passed!')
+  } else {
+    console.log('⚠️  Some local parser tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runLocalParserTests, tests }
+
+if (require.main === module) runLocalParserTests()
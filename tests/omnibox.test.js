@@ -0,0 +1,117 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for the Omnibox Quick Add
+ * Tests the address bar suggestion shown while typing after the "cal" keyword
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { describeQuickAddSuggestion, OMNIBOX_HINT } = loadSource('background/omnibox.ts')
+const { parseEventText } = loadSource('background/local-parser.ts')
+const { validateExtractedEvents } = loadSource('background/event-schema.ts')
+
+// The suggestion formats dates in the browser's locale
+const formatDate = (date, withTime) =>
+  date.toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(withTime ? { hour: 'numeric', minute: '2-digit' } : {}),
+  })
+
+const tests = [
+  {
+    name: 'The suggestion shows title, date and location',
+    run() {
+      const description = describeQuickAddSuggestion([
+        { title: 'Lunch with Dana', startDate: '2024-12-06T12:30:00', location: 'Nopa' },
+      ])
+      const date = formatDate(new Date(2024, 11, 6, 12, 30), true)
+      const expected = `Add to calendar: <match>Lunch with Dana</match> <dim>${date} · Nopa</dim>`
+      if (description !== expected) throw new Error(`Got ${description}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'All-day events show no time',
+    run() {
+      const description = describeQuickAddSuggestion([
+        { title: 'Holiday', startDate: '2024-12-25', location: '' },
+        { title: 'Boxing Day', startDate: '2024-12-26', location: '' },
+      ])
+      const date = formatDate(new Date(2024, 11, 25), false)
+      if (!description.endsWith(`<dim>${date} (+1 more)</dim>`)) {
+        throw new Error(`Got ${description}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Typed markup is escaped',
+    run() {
+      const description = describeQuickAddSuggestion([
+        { title: 'R&D <sync>', startDate: '2024-12-06', location: null },
+      ])
+      if (!description.includes('<match>R&amp;D &lt;sync&gt;</match>')) {
+        throw new Error(`Got ${description}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Input without a date shows the hint',
+    run() {
+      if (describeQuickAddSuggestion([]) !== OMNIBOX_HINT) throw new Error('Hint not shown')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Typed text is previewed with the local parser reading',
+    run() {
+      const text = 'lunch with Dana 12/6 12:30 at Nopa'
+      const events = validateExtractedEvents(
+        { events: parseEventText(text, new Date(2024, 11, 2), 'dayMonth') },
+        text,
+        'dayMonth',
+      )
+      const description = describeQuickAddSuggestion(events)
+      const date = formatDate(new Date(2025, 5, 12, 12, 30), true)
+      const expected = `Add to calendar: <match>lunch with Dana</match> <dim>${date} · Nopa</dim>`
+      if (description !== expected) throw new Error(`Got ${description}`)
+      return 'PASS'
+    },
+  },
+]
+
+async function runOmniboxTests() {
+  console.log('🧪 Running Omnibox Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Omnibox Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All omnibox tests passed!')
+  } else {
+    console.log('⚠️  Some omnibox tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runOmniboxTests, tests }
+
+if (require.main === module) runOmniboxTests()
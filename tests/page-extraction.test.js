@@ -0,0 +1,134 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Full-Page Extraction
+ * Tests page text chunking, chunk excerpts and merging of chunk results
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { buildPageExcerpt, chunkPageText, MAX_PAGE_CHUNKS, mergePageEvents } = loadSource(
+  'background/page-extraction.ts',
+)
+const { validateExtractedEvents } = loadSource('background/event-schema.ts')
+
+const tests = [
+  {
+    name: 'Short pages are sent as one chunk',
+    run() {
+      const chunks = chunkPageText('# Jazz Night\nMarch 1, 8 PM\nBlue Note')
+      if (chunks.length !== 1 || chunks[0] !== '# Jazz Night\nMarch 1, 8 PM\nBlue Note') {
+        throw new Error(`Unexpected chunks: ${JSON.stringify(chunks)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Chunks break at line boundaries and respect the length',
+    run() {
+      const lines = Array.from({ length: 10 }, (_, index) => `Line ${index} `.padEnd(30, 'x'))
+      const chunks = chunkPageText(lines.join('\n'), 100)
+      if (chunks.some((chunk) => chunk.length > 100)) throw new Error('A chunk is too long')
+      if (chunks.some((chunk) => chunk.split('\n').some((line) => !lines.includes(line)))) {
+        throw new Error('A line was split')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Long lines are split at a space',
+    run() {
+      const chunks = chunkPageText('word '.repeat(50).trim(), 42)
+      const splitWord = (chunk) => chunk.split(/\s+/).some((word) => word !== 'word')
+      if (chunks.some((chunk) => chunk.length > 42 || splitWord(chunk))) {
+        throw new Error(`Unexpected chunks: ${JSON.stringify(chunks)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The number of chunks is capped',
+    run() {
+      const chunks = chunkPageText('x'.repeat(100), 10)
+      if (chunks.length !== MAX_PAGE_CHUNKS) throw new Error(`Got ${chunks.length} chunks`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Excerpts carry the page title, URL and part number',
+    run() {
+      const page = { title: 'Jazz Night', url: 'https://example.com/e/1', text: '' }
+      const excerpt = buildPageExcerpt(page, 'March 1', 1, 3)
+      const expected =
+        'Page title: Jazz Night\nPage URL: https://example.com/e/1\nPart 2 of 3\n\nMarch 1'
+      if (excerpt !== expected) throw new Error(`Unexpected excerpt: ${excerpt}`)
+      if (buildPageExcerpt(page, 'March 1', 0, 1).includes('Part')) {
+        throw new Error('Single chunk should not be numbered')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events found in several chunks are merged',
+    run() {
+      const events = mergePageEvents([
+        [{ title: 'Jazz Night', startDate: '2025-03-01T20:00:00' }],
+        [
+          { title: 'jazz night ', startDate: '2025-03-01T20:00:00' },
+          { title: 'Jazz Night', startDate: '2025-03-08T20:00:00' },
+        ],
+      ])
+      if (events.length !== 2) throw new Error(`Expected 2 events, got ${events.length}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Answers of several chunks merge into one list',
+    run() {
+      const answers = [
+        { events: [{ title: 'Jazz Night', startDate: '2025-03-01 20:00' }] },
+        [{ title: 'Jazz Night', startDate: '2025-03-01T20:00:00', location: 'Blue Note' }],
+        { events: [] },
+      ]
+      const events = mergePageEvents(
+        answers.map((answer, index) => validateExtractedEvents(answer, `Part ${index + 1}`)),
+      )
+      if (events.length !== 1 || events[0].originalText !== 'Part 1') {
+        throw new Error(`Unexpected events: ${JSON.stringify(events)}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runPageExtractionTests() {
+  console.log('🧪 Running Page Extraction Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Page Extraction Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All page extraction tests passed!')
+  } else {
+    console.log('⚠️  Some page extraction tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runPageExtractionTests, tests }
+
+if (require.main === module) runPageExtractionTests()
@@ -0,0 +1,178 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Streaming Partial Results
+ * Tests which fields of a model answer that is still streaming in are complete
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { EVENT_FIELDS, parsePartialEvents } = loadSource('background/partial-output.ts')
+
+// Each event read so far with its pending fields, or null
+function readPartial(rawText) {
+  const result = parsePartialEvents(rawText, '')
+  return result
+    ? result.events.map((event, index) => ({ event, pending: result.pendingFields[index] }))
+    : null
+}
+
+const ANSWER =
+  '{"events": [{"title": "Team sync, weekly", "startDate": "2024-03-21T14:00:00", ' +
+  '"attendees": ["a@example.com", "b@example.com"], "recurrence": {"frequency": "weekly", "interval": 1}, ' +
+  '"location": "Room 4"}, {"title": "Lunch", "startDate": "2024-03-22"}]}'
+
+const prefix = (marker) => ANSWER.slice(0, ANSWER.indexOf(marker) + marker.length)
+
+const tests = [
+  {
+    name: 'Nothing is complete while the first value is written',
+    run() {
+      if (readPartial('Here you go: {"events": [{"title": "Team s') !== null) {
+        throw new Error('Half-written title was used')
+      }
+      if (readPartial('Thinking...') !== null) throw new Error('Prose was parsed')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Commas inside strings do not end a field',
+    run() {
+      const result = readPartial(prefix('"Team sync,'))
+      if (result !== null) throw new Error('Comma in the title ended it')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Completed fields are read and the rest is pending',
+    run() {
+      const [first] = readPartial(prefix('"startDate"'))
+      if (first.event.title !== 'Team sync, weekly') throw new Error('Title not read')
+      if (first.event.startDate !== '') throw new Error('Key without value was used')
+      if (first.pending.join(',') !== EVENT_FIELDS.slice(1).join(',')) {
+        throw new Error(`Pending: ${first.pending.join(',')}`)
+      }
+      if (first.event.fieldErrors.startDate) {
+        throw new Error('A pending field should not be flagged as missing')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Lists and repeat rules are only used once closed',
+    run() {
+      const [duringList] = readPartial(prefix('"a@example.com",'))
+      if (duringList.event.attendees.length !== 0 || !duringList.pending.includes('attendees')) {
+        throw new Error('Half a guest list was used')
+      }
+      const [duringRule] = readPartial(prefix('"weekly",'))
+      if (duringRule.event.recurrence !== null || !duringRule.pending.includes('recurrence')) {
+        throw new Error('Half a repeat rule was used')
+      }
+      const [afterRule] = readPartial(prefix('"interval": 1}'))
+      if (afterRule.event.recurrence?.frequency !== 'WEEKLY')
+        throw new Error('Repeat rule not read')
+      if (afterRule.event.attendees.length !== 2) throw new Error('Guest list not read')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Closed events have no pending fields',
+    run() {
+      const result = readPartial(prefix('"Lunch",'))
+      if (result.length !== 2) throw new Error(`Got ${result.length} events`)
+      if (result[0].pending.length !== 0) throw new Error('First event still pending')
+      if (!result[1].pending.includes('startDate')) throw new Error('Second event not pending')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Between events nothing is pending',
+    run() {
+      const result = readPartial(prefix('"Room 4"},'))
+      if (result.length !== 1 || result[0].pending.length !== 0) {
+        throw new Error('Finished event marked as pending')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Complete answer is read whole',
+    run() {
+      const result = readPartial(ANSWER)
+      if (result.length !== 2 || result.some((item) => item.pending.length > 0)) {
+        throw new Error('Complete answer has pending fields')
+      }
+      if (result[1].event.startDate !== '2024-03-22') throw new Error('Second event not read')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Fenced blocks, bare arrays and single events',
+    run() {
+      const fenced = readPartial('```json\n[{"title": "Standup", "startDate": "2024-')
+      if (fenced[0].event.title !== 'Standup' || !fenced[0].pending.includes('startDate')) {
+        throw new Error('Fenced bare array not read')
+      }
+      const single = readPartial('{"title": "Standup", "location": "Ro')
+      if (single[0].event.title !== 'Standup' || !single[0].pending.includes('location')) {
+        throw new Error('Single event not read')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Escaped quotes stay inside strings',
+    run() {
+      const [first] = readPartial('{"title": "The \\"Big\\" party, again", "loc')
+      if (first.event.title !== 'The "Big" party, again') throw new Error('Title cut early')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Numeric dates are read in the given order while streaming',
+    run() {
+      const result = parsePartialEvents(
+        '{"title": "Dentist", "startDate": "03/04/2025", "end',
+        '',
+        'dayMonth',
+      )
+      if (result.events[0].startDate !== '2025-04-03') {
+        throw new Error(`Got ${result.events[0].startDate}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runPartialOutputTests() {
+  console.log('🧪 Running Partial Output Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Partial Output Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All partial output tests passed!')
+  } else {
+    console.log('⚠️  Some partial output tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runPartialOutputTests, tests }
+
+if (require.main === module) runPartialOutputTests()
@@ -0,0 +1,171 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Prompt Templates
+ * Tests placeholder filling and validation of user-edited prompt templates, and
+ * which saved version is used
+ */
+
+const { createMemoryBrowser, loadSource } = require('./source-loader')
+
+const { buildPrompt, findUnknownPlaceholders } = loadSource('background/prompt.ts')
+const browser = createMemoryBrowser()
+const { getActivePromptTemplate, savePromptTemplateSettings } = loadSource('config.ts', browser)
+
+const TEMPORAL_CONTEXT = {
+  date: '2025-03-04',
+  time: '09:00',
+  weekday: 'Tuesday',
+  year: 2025,
+  timeZone: 'Europe/Berlin',
+  weekStart: 'Monday',
+  dateOrder: 'dayMonth',
+}
+
+const fillTemplate = (template, text) => buildPrompt(text, TEMPORAL_CONTEXT, { template })
+
+const tests = [
+  {
+    name: 'Placeholders are filled everywhere they appear',
+    run() {
+      const prompt = fillTemplate(
+        'Weeks start on ${weekStart}; count from ${weekStart}. Today: ${referenceDate}\n' +
+          '${outputLanguage}\n${languageExamples}${corrections}${text}',
+        'Standup tomorrow',
+      )
+      const expected =
+        'Weeks start on Monday; count from Monday. Today: 2025-03-04\n' +
+        'Keep "title" and "description" in the language of the text; do not translate them\n'
+      if (!prompt.startsWith(expected) || !prompt.endsWith('\n\nStandup tomorrow')) {
+        throw new Error(`Unexpected prompt: ${prompt}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The text is appended when the template leaves it out',
+    run() {
+      const prompt = fillTemplate('Prefix titles with PRJ-42.', 'Review at 3pm')
+      if (!prompt.endsWith('**Text to process:**\nReview at 3pm\n')) {
+        throw new Error(`Unexpected prompt: ${prompt}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Text is inserted literally',
+    run() {
+      const prompt = fillTemplate('${text}', 'Costs $& and ${referenceDate}')
+      if (!prompt.endsWith('\n\nCosts $& and ${referenceDate}')) throw new Error(`Got ${prompt}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Every ${text} is filled and inserted corrections are left alone',
+    run() {
+      const twice = fillTemplate('Read: ${text}\nAgain: ${text}', 'Lunch at noon')
+      if (!twice.startsWith('Read: ') || !twice.endsWith('Lunch at noon\nAgain: Lunch at noon')) {
+        throw new Error(`Unexpected prompt: ${twice}`)
+      }
+      const values = { title: 'Deploy', startDate: '2025-03-04T15:00', endDate: '', location: '' }
+      const prompt = buildPrompt('Standup at 9', TEMPORAL_CONTEXT, {
+        template: '${corrections}**Text to process:**\n${text}',
+        corrections: [
+          {
+            originalText: 'Deploy ${text} at 3pm',
+            referenceDate: '2025-03-03',
+            extracted: { ...values, title: 'Deploy at 3pm' },
+            corrected: values,
+          },
+        ],
+      })
+      if (!prompt.includes('"Deploy ${text} at 3pm"')) throw new Error('Correction text changed')
+      if (!prompt.endsWith('**Text to process:**\nStandup at 9')) {
+        throw new Error(`Unexpected prompt: ${prompt}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Templates without the language placeholders get them before the text',
+    run() {
+      const prompt = buildPrompt('Termin morgen um 9', TEMPORAL_CONTEXT, {
+        template: 'Extract the event.\n\n**Text to process:**\n${text}',
+        language: 'german',
+        translate: true,
+      })
+      const rule = prompt.indexOf('- Write "title" and "description" in German')
+      const example = prompt.indexOf('Input: "Zahnarzttermin übermorgen um 9 Uhr"')
+      const text = prompt.indexOf('**Text to process:**\nTermin morgen um 9')
+      if (rule === -1 || example === -1 || !(rule < example && example < text)) {
+        throw new Error(`Unexpected prompt: ${prompt}`)
+      }
+      const withRule = buildPrompt('Termin', TEMPORAL_CONTEXT, {
+        template: 'Rule: ${outputLanguage}\n${languageExamples}${text}',
+        language: 'german',
+      })
+      if (withRule.split('Keep "title" and "description"').length !== 2) {
+        throw new Error('The rule should not be added twice')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unknown placeholders are reported once',
+    run() {
+      const unknown = findUnknownPlaceholders('${text} ${referenceDay} ${referenceDay} ${timezone}')
+      if (JSON.stringify(unknown) !== '["referenceDay"]') {
+        throw new Error(`Unexpected placeholders: ${JSON.stringify(unknown)}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The active version is used, the built-in prompt without one',
+    async run() {
+      const templates = [
+        { id: 'v1', name: 'First', template: 'One ${text}', updatedAt: 1 },
+        { id: 'v2', name: 'Second', template: 'Two ${text}', updatedAt: 2 },
+      ]
+      await savePromptTemplateSettings({ templates, activeTemplateId: 'v2' })
+      if ((await getActivePromptTemplate()) !== 'Two ${text}') throw new Error('Wrong version')
+      await savePromptTemplateSettings({ templates, activeTemplateId: null })
+      if ((await getActivePromptTemplate()) !== null) throw new Error('Expected the built-in one')
+      await savePromptTemplateSettings({ templates: [], activeTemplateId: 'v2' })
+      if ((await getActivePromptTemplate()) !== null) throw new Error('Deleted version was used')
+      return 'PASS'
+    },
+  },
+]
+
+async function runPromptTemplateTests() {
+  console.log('🧪 Running Prompt Template Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Prompt Template Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All prompt template tests passed!')
+  } else {
+    console.log('⚠️  Some prompt template tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runPromptTemplateTests, tests }
+
+if (require.main === module) runPromptTemplateTests()
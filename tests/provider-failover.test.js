@@ -0,0 +1,296 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for the Provider Failover Chain
+ * Tests which errors are retried, how long to wait, when the next provider is asked
+ * and which provider the answer is reported from
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { parseRetryAfter } = loadSource('background/fetch-sse.ts')
+const {
+  FailoverProvider,
+  getErrorAction,
+  getRetryDelay,
+  MAX_RETRIES,
+  PROVIDER_RESPONSE_TIMEOUT_MS,
+} = loadSource('background/providers/failover.ts')
+
+// Runs the chain and resolves with the provider the done event names
+async function generateWithChain(chain, onEvent = () => undefined) {
+  let answeredBy = null
+  await new FailoverProvider(chain).generateAnswer({
+    prompt: 'Test prompt',
+    onEvent: (event) => {
+      if (event.type === 'done') answeredBy = event.provider
+      onEvent(event)
+    },
+  })
+  return answeredBy
+}
+
+// Shortens the per-provider response timeout, so the tests need not wait it out
+async function withShortResponseTimeout(run) {
+  const originalSetTimeout = global.setTimeout
+  global.setTimeout = (callback, ms, ...args) =>
+    originalSetTimeout(callback, ms === PROVIDER_RESPONSE_TIMEOUT_MS ? 50 : ms, ...args)
+  try {
+    return await run()
+  } finally {
+    global.setTimeout = originalSetTimeout
+  }
+}
+
+const responseError = (status, message, retryAfterMs) =>
+  Object.assign(new Error(message), { status, retryAfterMs })
+
+// Fails with the given errors in turn, then answers. Errors are thrown like
+// OpenAI does, or reported as events like Gemini does.
+class MockProvider {
+  constructor(errors = [], reportAsEvent = false, delayMs = 0) {
+    this.errors = errors
+    this.reportAsEvent = reportAsEvent
+    this.delayMs = delayMs
+    this.calls = 0
+  }
+
+  async generateAnswer(params) {
+    const error = this.errors[this.calls++]
+    if (this.delayMs) {
+      await new Promise((resolve, reject) => {
+        setTimeout(resolve, this.delayMs)
+        params.signal.addEventListener('abort', () => reject(new Error('Request aborted')))
+      })
+    }
+    if (error && this.reportAsEvent) {
+      params.onEvent({ type: 'error', data: { error } })
+      return {}
+    }
+    if (error) throw error
+    params.onEvent({ type: 'answer', data: { text: '{"events": []}' } })
+    params.onEvent({ type: 'done' })
+    return {}
+  }
+}
+
+const tests = [
+  {
+    name: 'Retry-After - seconds and HTTP dates',
+    async run() {
+      const now = Date.parse('2026-10-19T08:00:00Z')
+      if (parseRetryAfter('3', now) !== 3000) throw new Error('Seconds not read')
+      if (parseRetryAfter('Mon, 19 Oct 2026 08:00:05 GMT', now) !== 5000) {
+        throw new Error('HTTP date not read')
+      }
+      if (parseRetryAfter('Mon, 19 Oct 2026 07:59:00 GMT', now) !== 0) {
+        throw new Error('Past dates should not wait')
+      }
+      if (parseRetryAfter(null, now) !== undefined || parseRetryAfter('soon', now) !== undefined) {
+        throw new Error('Missing or invalid header should be undefined')
+      }
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Error action - rate limits and server errors are retried',
+    async run() {
+      if (getErrorAction(responseError(429, 'Rate limit reached')) !== 'retry') {
+        throw new Error('429 should be retried')
+      }
+      if (getErrorAction(responseError(503, 'The model is overloaded')) !== 'retry') {
+        throw new Error('503 should be retried')
+      }
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Error action - auth, quota and timeouts fail over',
+    async run() {
+      const errors = [
+        responseError(401, 'Incorrect API key provided'),
+        responseError(403, 'API key not valid'),
+        responseError(429, 'You exceeded your current quota, please check your plan and billing'),
+        new Error('gpt3 did not respond within 20 seconds'),
+        new Error('Failed to fetch'),
+      ]
+      for (const error of errors) {
+        if (getErrorAction(error) !== 'failover') {
+          throw new Error(`Expected failover for "${error.message}"`)
+        }
+      }
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Retry delay - exponential backoff, honoring Retry-After',
+    async run() {
+      const delays = [0, 1, 2, 5].map((retry) => getRetryDelay(retry))
+      if (delays.join(',') !== '1000,2000,4000,10000') {
+        throw new Error(`Unexpected backoff: ${delays.join(',')}`)
+      }
+      if (getRetryDelay(0, 7000) !== 7000) throw new Error('Retry-After should win')
+      if (getRetryDelay(0, 60000) !== null) {
+        throw new Error('Long Retry-After should fail over instead of waiting')
+      }
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - a retried rate limit answers from the same provider',
+    async run() {
+      const primary = new MockProvider([responseError(429, 'Rate limit reached', 0)])
+      const fallback = new MockProvider()
+      const events = []
+      const answeredBy = await generateWithChain(
+        [
+          { type: 'gpt3', provider: primary },
+          { type: 'gemini', provider: fallback },
+        ],
+        (event) => events.push(event.type),
+      )
+      if (answeredBy !== 'gpt3') throw new Error(`Expected gpt3 to answer, got ${answeredBy}`)
+      if (primary.calls !== 2 || fallback.calls !== 0) throw new Error('Unexpected calls')
+      if (events.join(',') !== 'answer,done') throw new Error(`Unexpected events: ${events}`)
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - a bad key fails over without retrying',
+    async run() {
+      const primary = new MockProvider([responseError(400, 'API key not valid')], true)
+      const fallback = new MockProvider()
+      const answeredBy = await generateWithChain([
+        { type: 'gemini', provider: primary },
+        { type: 'gpt3', provider: fallback },
+      ])
+      if (answeredBy !== 'gpt3') throw new Error(`Expected gpt3 to answer, got ${answeredBy}`)
+      if (primary.calls !== 1) throw new Error('Bad key should not be retried')
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - server errors fail over once retries run out',
+    async run() {
+      const down = responseError(500, 'Internal error', 0)
+      const primary = new MockProvider([down, down, down])
+      const fallback = new MockProvider()
+      const answeredBy = await generateWithChain([
+        { type: 'gpt3', provider: primary },
+        { type: 'gemini', provider: fallback },
+      ])
+      if (primary.calls !== MAX_RETRIES + 1) {
+        throw new Error(`Expected ${MAX_RETRIES + 1} calls, got ${primary.calls}`)
+      }
+      if (answeredBy !== 'gemini') throw new Error(`Expected gemini to answer, got ${answeredBy}`)
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - only the last error reaches the caller',
+    async run() {
+      const events = []
+      const answeredBy = await generateWithChain(
+        [
+          { type: 'gpt3', provider: new MockProvider([responseError(401, 'Incorrect API key')]) },
+          {
+            type: 'gemini',
+            provider: new MockProvider([responseError(403, 'Permission denied')], true),
+          },
+        ],
+        (event) => events.push(event),
+      )
+      if (answeredBy !== null) throw new Error('No provider should answer')
+      if (events.length !== 1 || events[0].type !== 'error') {
+        throw new Error(`Expected one error event, got ${events.length}`)
+      }
+      if (events[0].data.error.message !== 'Permission denied') {
+        throw new Error(`Unexpected error: ${events[0].data.error.message}`)
+      }
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - answer and done events name the provider that answered',
+    async run() {
+      const events = []
+      await generateWithChain(
+        [
+          { type: 'local', provider: new MockProvider([new Error('Cannot read images')]) },
+          { type: 'gemini', provider: new MockProvider() },
+        ],
+        (event) => events.push(event),
+      )
+      const providers = events.map((event) => `${event.type}:${event.provider}`).join(',')
+      if (providers !== 'answer:gemini,done:gemini') throw new Error(`Got ${providers}`)
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - a silent provider makes way for the next one',
+    async run() {
+      const slow = new MockProvider([], false, 500)
+      const answeredBy = await withShortResponseTimeout(() =>
+        generateWithChain([
+          { type: 'gemini', provider: slow },
+          { type: 'gpt3', provider: new MockProvider() },
+        ]),
+      )
+      if (answeredBy !== 'gpt3') throw new Error(`Expected gpt3 to answer, got ${answeredBy}`)
+      return 'PASS'
+    },
+  },
+
+  {
+    name: 'Chain - the last provider is not timed out, the caller decides how long to wait',
+    async run() {
+      const slow = new MockProvider([], false, 500)
+      const answeredBy = await withShortResponseTimeout(() =>
+        generateWithChain([{ type: 'gemini', provider: slow }]),
+      )
+      if (answeredBy !== 'gemini') throw new Error(`Expected gemini to answer, got ${answeredBy}`)
+      return 'PASS'
+    },
+  },
+]
+
+async function runProviderFailoverTests() {
+  console.log('🧪 Running Provider Failover Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Provider Failover Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All provider failover tests passed!')
+  } else {
+    console.log('⚠️  Some provider failover tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runProviderFailoverTests, tests }
+
+if (require.main === module) runProviderFailoverTests()
@@ -0,0 +1,128 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Recurring Event Support
+ * Tests recurrence normalization and RRULE generation
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { buildRRule, normalizeRecurrence } = loadSource('recurrence.ts')
+
+const buildAllDayRRule = (recurrence) => buildRRule(recurrence, true)
+
+const tests = [
+  {
+    name: 'One-off events have no recurrence',
+    run() {
+      if (normalizeRecurrence(null) !== null || buildAllDayRRule(undefined) !== null) {
+        throw new Error('Expected null recurrence')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unsupported frequencies are dropped',
+    run() {
+      if (normalizeRecurrence({ frequency: 'HOURLY' }) !== null) {
+        throw new Error('HOURLY should not be accepted')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: '"Every Tuesday until June" becomes a weekly rule with UNTIL',
+    run() {
+      const rrule = buildAllDayRRule({
+        frequency: 'WEEKLY',
+        interval: 1,
+        byDay: ['TU'],
+        until: '2025-06-30',
+        count: null,
+      })
+      if (rrule !== 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20250630') {
+        throw new Error(`Unexpected rule: ${rrule}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Weekdays are normalized to Monday-first order',
+    run() {
+      const recurrence = normalizeRecurrence({
+        frequency: 'weekly',
+        byDay: ['fr', 'mo', 'We', 'xx'],
+      })
+      if (recurrence.byDay.join(',') !== 'MO,WE,FR') {
+        throw new Error(`Unexpected weekdays: ${recurrence.byDay}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Interval and count are emitted when set',
+    run() {
+      const rrule = buildAllDayRRule({ frequency: 'MONTHLY', interval: '2', count: '6' })
+      if (rrule !== 'FREQ=MONTHLY;INTERVAL=2;COUNT=6') {
+        throw new Error(`Unexpected rule: ${rrule}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'UNTIL takes precedence over COUNT',
+    run() {
+      const rrule = buildAllDayRRule({ frequency: 'DAILY', until: '2025-01-10', count: 3 })
+      if (rrule !== 'FREQ=DAILY;UNTIL=20250110') {
+        throw new Error(`Unexpected rule: ${rrule}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Timed rules end at the end of the UNTIL day in the event zone',
+    run() {
+      const rrule = buildRRule(
+        { frequency: 'WEEKLY', byDay: ['TU'], until: '2025-06-30' },
+        false,
+        'America/New_York',
+      )
+      if (rrule !== 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20250701T035959Z') {
+        throw new Error(`Unexpected rule: ${rrule}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runRecurrenceTests() {
+  console.log('🧪 Running Recurrence Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Recurrence Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All recurrence tests passed!')
+  } else {
+    console.log('⚠️  Some recurrence tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runRecurrenceTests, tests }
+
+if (require.main === module) runRecurrenceTests()
@@ -0,0 +1,47 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Runs the Node test suites, which load the extension modules from src/.
+ * The older suites in run-all-tests.html still run in the browser.
+ */
+
+const suites = [
+  ['attendees.test.js', 'runAttendeeTests'],
+  ['calendar-targets.test.js', 'runCalendarTargetTests'],
+  ['corrections.test.js', 'runCorrectionTests'],
+  ['duplicate-events.test.js', 'runDuplicateEventTests'],
+  ['drafts.test.js', 'runDraftTests'],
+  ['email-context.test.js', 'runEmailContextTests'],
+  ['event-schema.test.js', 'runEventSchemaTests'],
+  ['history.test.js', 'runHistoryTests'],
+  ['ics-export.test.js', 'runIcsExportTests'],
+  ['image-extraction.test.js', 'runImageExtractionTests'],
+  ['language.test.js', 'runLanguageTests'],
+  ['local-parser.test.js', 'runLocalParserTests'],
+  ['omnibox.test.js', 'runOmniboxTests'],
+  ['page-extraction.test.js', 'runPageExtractionTests'],
+  ['partial-output.test.js', 'runPartialOutputTests'],
+  ['prompt-templates.test.js', 'runPromptTemplateTests'],
+  ['provider-failover.test.js', 'runProviderFailoverTests'],
+  ['recurrence.test.js', 'runRecurrenceTests'],
+  ['structured-data.test.js', 'runStructuredDataTests'],
+  ['temporal-context.test.js', 'runTemporalContextTests'],
+  ['timezones.test.js', 'runTimezoneTests'],
+]
+
+async function runUnitTests() {
+  let passed = 0
+  let failed = 0
+
+  for (const [file, runner] of suites) {
+    const result = await require(`./${file}`)[runner]()
+    passed += result.passed
+    failed += result.failed
+    console.log('')
+  }
+
+  console.log(`📊 Unit Test Results: ${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exitCode = 1
+}
+
+runUnitTests()
@@ -0,0 +1,111 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Loads extension modules from src/ for the Node test suites, so they run
+ * the real code instead of a copy of it. The module is bundled with esbuild;
+ * webextension-polyfill is replaced by an in-memory browser whose storage
+ * the tests can read and reset.
+ */
+
+const path = require('path')
+const esbuild = require('esbuild')
+
+const SRC_DIR = path.join(__dirname, '..', 'src')
+
+// Just enough of the extension APIs for storage modules and logging
+function createMemoryBrowser() {
+  let items = {}
+  const changeListeners = []
+
+  const notify = (changes) => {
+    for (const listener of changeListeners) listener(changes, 'local')
+  }
+
+  const local = {
+    async get(keys) {
+      if (keys === null || keys === undefined) return { ...items }
+      const names =
+        typeof keys === 'string' ? [keys] : Array.isArray(keys) ? keys : Object.keys(keys)
+      const result = {}
+      for (const name of names) {
+        if (name in items) result[name] = JSON.parse(JSON.stringify(items[name]))
+      }
+      return result
+    },
+    async set(values) {
+      const changes = {}
+      for (const [name, value] of Object.entries(values)) {
+        changes[name] = { oldValue: items[name], newValue: value }
+        items[name] = JSON.parse(JSON.stringify(value === undefined ? null : value))
+      }
+      notify(changes)
+    },
+    async remove(keys) {
+      const changes = {}
+      for (const name of typeof keys === 'string' ? [keys] : keys) {
+        changes[name] = { oldValue: items[name] }
+        delete items[name]
+      }
+      notify(changes)
+    },
+    async clear() {
+      items = {}
+    },
+  }
+
+  return {
+    storage: {
+      local,
+      onChanged: { addListener: (listener) => changeListeners.push(listener) },
+    },
+    runtime: {
+      getURL: (file) => `chrome-extension://test/${file}`,
+      sendMessage: async () => undefined,
+    },
+    i18n: { getUILanguage: () => 'en-US' },
+  }
+}
+
+// The modules log a lot; only their errors reach the test output
+const quietConsole = {
+  ...console,
+  log: () => undefined,
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+}
+
+const cache = new Map()
+
+/**
+ * The exports of src/<file>. Modules are bundled once per file and run once
+ * per call; pass a browser from createMemoryBrowser() to look at what was
+ * stored.
+ */
+function loadSource(file, browser = createMemoryBrowser()) {
+  if (!cache.has(file)) {
+    const result = esbuild.buildSync({
+      entryPoints: [path.join(SRC_DIR, file)],
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      write: false,
+      external: ['webextension-polyfill'],
+      loader: { '.png': 'dataurl' },
+      logLevel: 'silent',
+    })
+    cache.set(file, result.outputFiles[0].text)
+  }
+
+  const module = { exports: {} }
+  const requireWithBrowser = (name) => (name === 'webextension-polyfill' ? browser : require(name))
+  new Function('module', 'exports', 'require', 'console', cache.get(file))(
+    module,
+    module.exports,
+    requireWithBrowser,
+    quietConsole,
+  )
+  return module.exports
+}
+
+module.exports = { loadSource, createMemoryBrowser }
@@ -0,0 +1,189 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Structured Event Data
+ * Tests schema.org date conversion, event type detection and JSON-LD collection
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { extractStructuredEvents } = loadSource('content-script/structured-data.ts')
+
+const pad = (value) => value.toString().padStart(2, '0')
+
+// A page with the given JSON-LD blocks and no microdata or microformats
+const pageWithJsonLd = (...blocks) => ({
+  querySelectorAll: (selector) =>
+    selector === 'script[type="application/ld+json"]'
+      ? blocks.map((block) => ({ textContent: JSON.stringify(block) }))
+      : [],
+})
+
+const eventsFrom = (...blocks) => extractStructuredEvents(pageWithJsonLd(...blocks))
+
+const isEventType = (type) =>
+  eventsFrom({ '@type': type, name: 'Test', startDate: '2025-03-01' }).length === 1
+
+const toEventRange = (startDate, endDate) =>
+  eventsFrom({ '@type': 'Event', name: 'Test', startDate, endDate })[0] || {
+    startDate: '',
+    endDate: '',
+  }
+
+const toEventDate = (value) => toEventRange(value).startDate
+
+const localDateTime = (date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+  `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+
+const tests = [
+  {
+    name: 'All-day and floating dates are kept as written',
+    run() {
+      if (toEventDate('2025-03-01') !== '2025-03-01') throw new Error('All-day date changed')
+      if (toEventDate('2025-03-01T20:00') !== '2025-03-01T20:00:00') {
+        throw new Error(`Unexpected floating time: ${toEventDate('2025-03-01T20:00')}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Dates with a UTC offset are converted to local time',
+    run() {
+      const expected = localDateTime(new Date('2025-03-01T20:00:00-05:00'))
+      const result = toEventDate('2025-03-01T20:00:00-05:00')
+      if (result !== expected) throw new Error(`Expected ${expected}, got ${result}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Unreadable dates are dropped',
+    run() {
+      if (toEventDate('March 1st') !== '' || toEventDate(42) !== '') {
+        throw new Error('Expected empty dates')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'End without an offset uses the start offset',
+    run() {
+      const range = toEventRange('2025-03-01T20:00:00-05:00', '2025-03-01T23:00')
+      const expected = localDateTime(new Date('2025-03-01T23:00:00-05:00'))
+      if (range.endDate !== expected) throw new Error(`Expected ${expected}, got ${range.endDate}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Event subtypes and prefixed types are detected',
+    run() {
+      const detected = [
+        'Event',
+        'MusicEvent',
+        'https://schema.org/BusinessEvent',
+        ['Thing', 'SportsEvent'],
+      ]
+      if (!detected.every(isEventType)) throw new Error('An event type was not detected')
+      if (isEventType('Place') || isEventType('EventVenue')) {
+        throw new Error('A non-event type was detected')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Events are collected from @graph and ItemList',
+    run() {
+      const startDate = '2025-03-01'
+      const events = eventsFrom(
+        {
+          '@graph': [{ '@type': 'Organization' }, { '@type': 'Event', name: 'Meetup', startDate }],
+        },
+        {
+          '@type': 'ItemList',
+          itemListElement: [
+            { '@type': 'ListItem', item: { '@type': 'Event', name: 'Gig', startDate } },
+          ],
+        },
+      )
+      const titles = events.map((event) => event.title).join(',')
+      if (titles !== 'Meetup,Gig') throw new Error(`Unexpected events: ${titles}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Places, addresses and links are read, repeated events dropped',
+    run() {
+      const concert = {
+        '@type': 'MusicEvent',
+        name: 'Jazz  Night',
+        startDate: '2025-03-01T20:00',
+        url: 'https://example.com/jazz',
+        description: 'Live trio',
+        location: {
+          '@type': 'Place',
+          name: 'Blue Note',
+          address: { streetAddress: '131 W 3rd St', addressLocality: 'New York' },
+        },
+      }
+      const events = eventsFrom(concert, [concert, { '@type': 'Event', name: 'No date' }])
+      if (events.length !== 1) throw new Error(`Expected 1 event, got ${events.length}`)
+      const [event] = events
+      if (event.title !== 'Jazz Night' || event.location !== 'Blue Note, 131 W 3rd St, New York') {
+        throw new Error(`Unexpected event: ${JSON.stringify(event)}`)
+      }
+      if (event.description !== 'Live trio\n\nhttps://example.com/jazz') {
+        throw new Error(`Unexpected description: ${event.description}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Invalid JSON-LD blocks are skipped',
+    run() {
+      const page = {
+        querySelectorAll: (selector) =>
+          selector === 'script[type="application/ld+json"]'
+            ? [
+                { textContent: '{"@type": "Event", "name": ' },
+                { textContent: '{"@type": "Event", "name": "Meetup", "startDate": "2025-03-01"}' },
+              ]
+            : [],
+      }
+      const titles = extractStructuredEvents(page).map((event) => event.title)
+      if (titles.join(',') !== 'Meetup') throw new Error(`Unexpected events: ${titles}`)
+      return 'PASS'
+    },
+  },
+]
+
+async function runStructuredDataTests() {
+  console.log('🧪 Running Structured Event Data Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Structured Data Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All structured data tests passed!')
+  } else {
+    console.log('⚠️  Some structured data tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runStructuredDataTests, tests }
+
+if (require.main === module) runStructuredDataTests()
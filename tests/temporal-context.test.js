@@ -0,0 +1,140 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Temporal Context
+ * Tests the numeric date order, week start and local date parsing
+ */
+
+const { loadSource } = require('./source-loader')
+
+const {
+  buildTemporalContext,
+  getLocaleForLanguage,
+  getWeekStart,
+  parseLocalDate,
+  resolveDateOrder,
+} = loadSource('temporal-context.ts')
+
+const DAY_MONTH = 'dayMonth'
+const MONTH_DAY = 'monthDay'
+
+const describe = (date) =>
+  date && `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()} ${date.getHours()}h`
+
+const tests = [
+  {
+    name: 'Date order follows the locale unless set explicitly',
+    run() {
+      const results = [
+        resolveDateOrder('auto', 'en-US'),
+        resolveDateOrder('auto', 'en-GB'),
+        resolveDateOrder('auto', 'de-DE'),
+        resolveDateOrder('auto', 'zh-CN'),
+        resolveDateOrder(DAY_MONTH, 'en-US'),
+      ].join(',')
+      if (results !== 'monthDay,dayMonth,dayMonth,monthDay,dayMonth') {
+        throw new Error(`Unexpected date orders: ${results}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Week start depends on the region',
+    run() {
+      if (getWeekStart('en-US') !== 'Sunday' || getWeekStart('de-DE') !== 'Monday') {
+        throw new Error(`Got ${getWeekStart('en-US')} and ${getWeekStart('de-DE')}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: '"03/04/2025" follows the date order',
+    run() {
+      const dayFirst = describe(parseLocalDate('03/04/2025 2:30 PM', DAY_MONTH))
+      const monthFirst = describe(parseLocalDate('03/04/2025', MONTH_DAY))
+      if (dayFirst !== '2025-4-3 14h') throw new Error(`Day first gave ${dayFirst}`)
+      if (monthFirst !== '2025-3-4 0h') throw new Error(`Month first gave ${monthFirst}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'All-day dates stay on their local day',
+    run() {
+      const result = describe(parseLocalDate('2025-03-04', MONTH_DAY))
+      if (result !== '2025-3-4 0h') throw new Error(`Got ${result}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Impossible numeric dates are rejected',
+    run() {
+      if (parseLocalDate('31/02/2025', DAY_MONTH) !== null) throw new Error('31 February parsed')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The browser locale is kept for the same language',
+    run() {
+      const locales = [
+        getLocaleForLanguage('english', 'en-GB'),
+        getLocaleForLanguage('german', 'en-GB'),
+        getLocaleForLanguage('auto', 'fr-CA'),
+      ].join(',')
+      if (locales !== 'en-GB,de-DE,fr-CA') throw new Error(`Unexpected locales: ${locales}`)
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The context describes the reference date in the language conventions',
+    run() {
+      const context = buildTemporalContext(new Date(2025, 2, 4, 9, 5), {
+        dateOrder: 'auto',
+        language: 'german',
+      })
+      const summary = [
+        context.date,
+        context.time,
+        context.weekday,
+        context.year,
+        context.weekStart,
+        context.dateOrder,
+      ].join(',')
+      if (summary !== '2025-03-04,09:05,Tuesday,2025,Monday,dayMonth') {
+        throw new Error(`Unexpected context: ${summary}`)
+      }
+      return 'PASS'
+    },
+  },
+]
+
+async function runTemporalContextTests() {
+  console.log('🧪 Running Temporal Context Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Temporal Context Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All temporal context tests passed!')
+  } else {
+    console.log('⚠️  Some temporal context tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runTemporalContextTests, tests }
+
+if (require.main === module) runTemporalContextTests()
@@ -4,15 +4,29 @@
  */
 
 // Mock timeout configuration
-const AI_EXTRACTION_TIMEOUT_MS = 5000 // 5 seconds
+const AI_SLOW_NOTICE_MS = 5000 // 5 seconds, then the modal offers to keep waiting
+const AI_EXTRACTION_TIMEOUT_MS = 120000 // 2 minutes
+const QUICK_ADD_TIMEOUT_MS = 5000 // 5 seconds
+const EXTRACTION_CANCELLED_MESSAGE = 'Extraction cancelled'
 
 // Timeout wrapper function (copied from implementation)
-function withTimeout(promise, timeoutMs, timeoutMessage) {
+function withTimeout(promise, timeoutMs, timeoutMessage, signal) {
   return new Promise((resolve, reject) => {
     const timeoutId = setTimeout(() => {
       reject(new Error(timeoutMessage))
     }, timeoutMs)
 
+    if (signal) {
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timeoutId)
+          reject(new Error(EXTRACTION_CANCELLED_MESSAGE))
+        },
+        { once: true }
+      )
+    }
+
     promise
       .then((result) => {
         clearTimeout(timeoutId)
@@ -100,9 +114,9 @@ const tests = [
   },
 
   {
-    name: 'Slow AI response (6 seconds) - should timeout',
+    name: 'Slow quick add response (6 seconds) - should timeout',
     async run() {
-      const provider = new MockAIProvider(6000) // 6 second response (exceeds 5 second timeout)
+      const provider = new MockAIProvider(6000) // 6 second response (exceeds 5 second quick add timeout)
       let timeoutOccurred = false
 
       try {
@@ -114,8 +128,8 @@ const tests = [
               // Should not receive events due to timeout
             }
           }),
-          AI_EXTRACTION_TIMEOUT_MS,
-          `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`
+          QUICK_ADD_TIMEOUT_MS,
+          `AI extraction timed out after ${QUICK_ADD_TIMEOUT_MS / 1000} seconds`
         )
 
         throw new Error('Expected timeout error but request completed')
@@ -136,7 +150,7 @@ const tests = [
   },
 
   {
-    name: 'AI response at exactly 5 seconds - should complete just in time',
+    name: 'Quick add response at exactly 5 seconds - should complete just in time',
     async run() {
       const provider = new MockAIProvider(4900) // Just under 5 seconds
       let eventReceived = false
@@ -150,8 +164,8 @@ const tests = [
               if (event.type === 'answer') eventReceived = true
             }
           }),
-          AI_EXTRACTION_TIMEOUT_MS,
-          `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`
+          QUICK_ADD_TIMEOUT_MS,
+          `AI extraction timed out after ${QUICK_ADD_TIMEOUT_MS / 1000} seconds`
         )
 
         if (!eventReceived) {
@@ -220,8 +234,8 @@ const tests = [
             signal: new AbortController().signal,
             onEvent: (event) => {}
           }),
-          AI_EXTRACTION_TIMEOUT_MS,
-          `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`
+          QUICK_ADD_TIMEOUT_MS,
+          `AI extraction timed out after ${QUICK_ADD_TIMEOUT_MS / 1000} seconds`
         )
       } catch (error) {
         errorMessage = error.message
@@ -297,18 +311,63 @@ const tests = [
   },
 
   {
-    name: 'Timeout configuration value - should be less than 6 seconds',
+    name: 'Cancelling the extraction - should settle at once with the cancelled message',
+    async run() {
+      const provider = new MockAIProvider(3000) // 3 second response
+      const abortController = new AbortController()
+      const startedAt = Date.now()
+      let errorMessage = ''
+
+      setTimeout(() => {
+        abortController.abort()
+      }, 500)
+
+      try {
+        await withTimeout(
+          provider.generateAnswer({
+            prompt: 'Test prompt',
+            signal: abortController.signal,
+            onEvent: () => undefined
+          }),
+          AI_EXTRACTION_TIMEOUT_MS,
+          `AI extraction timed out after ${AI_EXTRACTION_TIMEOUT_MS / 1000} seconds`,
+          abortController.signal
+        )
+      } catch (error) {
+        errorMessage = error.message
+      }
+
+      if (errorMessage !== EXTRACTION_CANCELLED_MESSAGE) {
+        throw new Error(`Expected '${EXTRACTION_CANCELLED_MESSAGE}', got: ${errorMessage}`)
+      }
+
+      if (Date.now() - startedAt > 1500) {
+        throw new Error('Cancelling should not wait for the request to finish')
+      }
+
+      return 'PASS'
+    }
+  },
+
+  {
+    name: 'Timeout configuration values - slow notice before the hard limit',
     async run() {
-      if (AI_EXTRACTION_TIMEOUT_MS >= 6000) {
-        throw new Error(`Timeout should be less than 6 seconds, got ${AI_EXTRACTION_TIMEOUT_MS}ms`)
+      if (AI_SLOW_NOTICE_MS !== 5000) {
+        throw new Error(`Expected slow notice after 5000ms, got ${AI_SLOW_NOTICE_MS}ms`)
+      }
+
+      if (AI_EXTRACTION_TIMEOUT_MS <= AI_SLOW_NOTICE_MS) {
+        throw new Error(
+          `Timeout ${AI_EXTRACTION_TIMEOUT_MS}ms should be longer than the slow notice ${AI_SLOW_NOTICE_MS}ms`
+        )
       }
 
-      if (AI_EXTRACTION_TIMEOUT_MS <= 0) {
-        throw new Error(`Timeout should be positive, got ${AI_EXTRACTION_TIMEOUT_MS}ms`)
+      if (AI_EXTRACTION_TIMEOUT_MS !== 120000) {
+        throw new Error(`Expected timeout to be 120000ms, got ${AI_EXTRACTION_TIMEOUT_MS}ms`)
       }
 
-      if (AI_EXTRACTION_TIMEOUT_MS !== 5000) {
-        throw new Error(`Expected timeout to be 5000ms, got ${AI_EXTRACTION_TIMEOUT_MS}ms`)
+      if (QUICK_ADD_TIMEOUT_MS >= 6000) {
+        throw new Error(`Quick add timeout should be less than 6 seconds, got ${QUICK_ADD_TIMEOUT_MS}ms`)
       }
 
       return 'PASS'
@@ -0,0 +1,117 @@
+/* eslint-env node */
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Test Suite for Timezone Support
+ * Tests converting zoned wall-clock times to UTC instants
+ */
+
+const { loadSource } = require('./source-loader')
+
+const { formatDateTimeInZone, isValidTimeZone, listTimeZones, parseDateTimeInZone } =
+  loadSource('timezones.ts')
+
+function expectUtc(dateTimeString, timeZone, expected) {
+  const actual = parseDateTimeInZone(dateTimeString, timeZone)?.toISOString()
+  if (actual !== expected) {
+    throw new Error(`${dateTimeString} in ${timeZone}: expected ${expected}, got ${actual}`)
+  }
+}
+
+const tests = [
+  {
+    name: '"3 PM EST" converts to 20:00 UTC',
+    run() {
+      expectUtc('2024-12-12T15:00:00', 'America/New_York', '2024-12-12T20:00:00.000Z')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Daylight saving time is applied',
+    run() {
+      expectUtc('2024-07-12T15:00', 'America/New_York', '2024-07-12T19:00:00.000Z')
+      expectUtc('2024-07-12T15:00', 'Europe/Berlin', '2024-07-12T13:00:00.000Z')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Zones ahead of UTC can move the date back',
+    run() {
+      expectUtc('2024-12-12T07:30', 'Asia/Singapore', '2024-12-11T23:30:00.000Z')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Invalid timezones are rejected',
+    run() {
+      if (isValidTimeZone('Mars/Olympus') || isValidTimeZone('') || isValidTimeZone(null)) {
+        throw new Error('Invalid timezone accepted')
+      }
+      if (!isValidTimeZone('UTC') || !isValidTimeZone('Asia/Tokyo')) {
+        throw new Error('Valid timezone rejected')
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Absolute timestamps ignore the timezone',
+    run() {
+      expectUtc('2024-12-12T15:00:00Z', 'Asia/Tokyo', '2024-12-12T15:00:00.000Z')
+      return 'PASS'
+    },
+  },
+  {
+    name: 'Instants format back to the wall-clock time of the zone',
+    run() {
+      const instant = new Date('2024-07-12T13:00:00Z')
+      const berlin = formatDateTimeInZone(instant, 'Europe/Berlin')
+      const newYork = formatDateTimeInZone(instant, 'America/New_York')
+      if (berlin !== '2024-07-12T15:00:00' || newYork !== '2024-07-12T09:00:00') {
+        throw new Error(`Got ${berlin} and ${newYork}`)
+      }
+      return 'PASS'
+    },
+  },
+  {
+    name: 'The zone list includes UTC and only valid zones',
+    run() {
+      const zones = listTimeZones()
+      if (!zones.includes('UTC') || !zones.includes('Europe/Berlin')) {
+        throw new Error('Expected UTC and Europe/Berlin in the list')
+      }
+      if (!zones.every(isValidTimeZone)) throw new Error('Invalid zone listed')
+      return 'PASS'
+    },
+  },
+]
+
+async function runTimezoneTests() {
+  console.log('🧪 Running Timezone Tests...\n')
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    try {
+      const result = await test.run()
+      console.log(`✅ ${test.name}: ${result}`)
+      passed++
+    } catch (error) {
+      console.log(`❌ ${test.name}: FAIL - ${error.message}`)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Timezone Test Results: ${passed} passed, ${failed} failed`)
+
+  if (failed === 0) {
+    console.log('🎉 All timezone tests passed!')
+  } else {
+    console.log('⚠️  Some timezone tests failed. Please review the implementation.')
+  }
+
+  return { passed, failed }
+}
+
+module.exports = { runTimezoneTests, tests }
+
+if (require.main === module) runTimezoneTests()